@@ -1,10 +1,30 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { LyricLine, VisualSettings, ThemeStyle, AnimationType } from './types';
-import { detectAndParse, lyricsToString, parseSRT } from './utils/srtParser';
-import { analyzeLyricsForTheme, translateLyricsAI, smartTimingAI } from './services/geminiService';
+import { LyricLine, LineStyle, VisualSettings, ThemeStyle, AnimationType, SongMetadata, AspectRatio } from './types';
+import { detectAndParse, lyricsToString, parseSubtitleFile, serializeLyrics, SubtitleFormat, SUBTITLE_FORMATS } from './utils/srtParser';
+import { downloadBlob, toSafeFileName } from './utils/download';
+import { createWordSegments, hasValidWordTiming, retimeLine } from './utils/wordTiming';
+import { UndoHistory } from './utils/undoHistory';
+import { DEFAULT_TRACK, resolveTrack, migrateTrackPlacement } from './utils/lyricTracks';
+import { getLineRuby, formatRubyInput, parseRubyInput } from './utils/ruby';
+import { mergeLineStyles, addStyleKeyframe, isEmptyLineStyle, listSections, usedFontFamilies } from './utils/lineStyles';
+import { DEFAULT_EFFECT_LAYERS } from './effects';
+import { MANUAL_TRANSLATION, MAX_DISPLAYED_TRANSLATIONS, getTranslation, getTranslationLanguage, setTranslation, translationLabel, TRANSLATION_LANGUAGES } from './utils/translations';
+import { saveProject, openProject, listRecentProjects, getRecentProject, rememberRecentProject, createProjectId, blobFromUrl, blobToDataUrl, RecentProject, ProjectData, PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { saveSession, saveSessionMedia, loadSession, clearSession, addSnapshot, listSnapshots, Snapshot, MediaSlot, AUTOSAVE_DELAY_MS, SNAPSHOT_INTERVAL_MS } from './services/autosave';
+import { loadStoredFonts, uploadFont, removeFont, getFontFiles, importFonts, CustomFont } from './services/fonts';
+import { decodeAudioFromUrl } from './services/audioAnalysis';
+import { analyzeBeats, BeatAnalysis } from './services/beatTracking';
+import { alignLyrics, TimingProvider, LOW_CONFIDENCE_THRESHOLD } from './services/lyricAlignment';
+import { analyzeLyricsForTheme, translateLyricsAI, smartTimingAI } from './services/aiService';
+import { AIError, AI_ERROR_MESSAGES } from './services/aiErrors';
+import { isMockAI } from './services/aiSettings';
 import Visualizer from './components/Visualizer';
 import Controls from './components/Controls';
+import Timeline from './components/Timeline';
+import LineStylePanel from './components/LineStylePanel';
+import AISettingsPanel from './components/AISettingsPanel';
+import ToastStack, { ToastMessage, ToastKind, TOAST_DURATION_MS } from './components/Toast';
 
 // --- Types & Constants ---
 
@@ -13,23 +33,71 @@ const DEFAULT_SETTINGS: VisualSettings = {
   secondaryColor: '#ea580c', // Soup Orange
   backgroundColor: '#1c1917', // Dark Stone
   fontFamily: 'Noto Serif TC', // Changed to Serif for the vibe
-  fontSize: 60,
+  fontWeight: 900,
+  fontSize: 100, // design units: the canvas short edge is 1080
+  textGradient: 'none',
+  outlineWidth: 3,
+  outlineColor: '',
+  textShadowDistance: 0,
+  textShadowBlur: 0,
+  textShadowColor: '#000000',
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  writingMode: 'horizontal',
   particleCount: 50,
+  particlePreset: 'float',
+  particleShape: 'circle',
+  particleGravity: 0,
+  particleWind: 0,
+  effectLayers: DEFAULT_EFFECT_LAYERS,
   beatSensitivity: 1.0,
   style: ThemeStyle.NEON,
   animationType: AnimationType.SLIDE_UP,
   animationSpeed: 1.0,
   transitionDuration: 0.6,
   showTranslation: false,
-  driveFolderUrl: 'https://drive.google.com/drive/folders/1io5C1RJdw7hzlPpgLOhpBKPJr7DCpfoV?usp=drive_link'
+  translationLanguages: [MANUAL_TRANSLATION],
+  tracks: [DEFAULT_TRACK],
+  showRuby: false,
+  rubySystem: 'pinyin',
+  rubyScale: 0.3,
+  rubyColor: '#e7e5e4',
+  safeMarginX: 0.06,
+  safeMarginY: 0.08,
+  renderer: 'canvas2d',
+  bloomStrength: 0.6,
+  chromaticAberration: 0.2,
+  filmGrain: 0.15,
+  beatZoom: 0.5,
+  lyricAnchor: 'center',
+  lyricAlign: 'center',
+  lyricOffsetX: 0,
+  lyricOffsetY: 0,
+  sectionStyles: {},
+  driveFolderUrl: 'https://drive.google.com/drive/folders/1io5C1RJdw7hzlPpgLOhpBKPJr7DCpfoV?usp=drive_link',
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: 1080
 };
 
+// Manual sync taps either whole lines or individual karaoke segments
+type SyncMode = 'line' | 'word';
+type AITask = 'theme' | 'translate' | 'timing';
+
 const SAMPLE_LYRICS: LyricLine[] = [
   { id: '1', startTime: 0, endTime: 4, text: "歡迎來到 Willwi 實驗室", translation: "Welcome to Willwi Lab" },
   { id: '2', startTime: 4.1, endTime: 8, text: "這是屬於你的創作禮物", translation: "This is your creative gift" },
   { id: '3', startTime: 8.1, endTime: 12, text: "請親手對上時間，感受溫度", translation: "Sync it by hand, feel the warmth" },
 ];
 
+const DEFAULT_METADATA: SongMetadata = { title: '', artist: '', duration: 0 };
+
+// An autosaved session nobody has edited holds only the starting state
+const isUntouchedSession = (session: ProjectData): boolean =>
+  !session.audio && !session.backgroundImage && !session.backgroundVideo &&
+  JSON.stringify(session.lyrics) === JSON.stringify(SAMPLE_LYRICS) &&
+  JSON.stringify({ ...DEFAULT_METADATA, ...session.metadata }) === JSON.stringify(DEFAULT_METADATA) &&
+  JSON.stringify({ ...DEFAULT_SETTINGS, ...session.settings }) === JSON.stringify(DEFAULT_SETTINGS);
+
 // --- Sub-Components for the Campaign Page ---
 
 const LandingPage = ({ onUnlock }: { onUnlock: () => void }) => {
@@ -190,18 +258,120 @@ const LyricStudio = () => {
   const [currentTime, setCurrentTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [audioSrc, setAudioSrc] = useState<string | null>(null);
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+  const [beatAnalysis, setBeatAnalysis] = useState<BeatAnalysis | null>(null);
   const [settings, setSettings] = useState<VisualSettings>(DEFAULT_SETTINGS);
+  const [metadata, setMetadata] = useState<SongMetadata>(DEFAULT_METADATA);
   const [showEditor, setShowEditor] = useState(false);
+  const [editedTranslation, setEditedTranslation] = useState(MANUAL_TRANSLATION);
+  const [selectedLineIds, setSelectedLineIds] = useState<string[]>([]);
+  const lastSelectedIndexRef = useRef<number | null>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
   const [showSyncOverlay, setShowSyncOverlay] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [recentProjects, setRecentProjects] = useState<RecentProject[]>([]);
+  const [isProjectBusy, setIsProjectBusy] = useState(false);
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
+
+  // Autosave States
+  const [pendingSession, setPendingSession] = useState<(ProjectData & { savedAt: number }) | null>(null);
+  const [autosaveReady, setAutosaveReady] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const lastSnapshotRef = useRef(0);
+  const projectIdRef = useRef(createProjectId());
+
+  // Undo / Redo: refs mirror the latest state so several edits in one tick chain correctly
+  const historyRef = useRef(new UndoHistory());
+  const lyricsRef = useRef(lyrics);
+  const settingsRef = useRef(settings);
+  lyricsRef.current = lyrics;
+  settingsRef.current = settings;
+  const [, setHistoryVersion] = useState(0);
   
   // AI States
   const [isGeneratingTheme, setIsGeneratingTheme] = useState(false);
   const [isTranslating, setIsTranslating] = useState(false);
-  const [isTiming, setIsTiming] = useState(false);
+  const [translateProgress, setTranslateProgress] = useState(0);
+  const [translationTarget, setTranslationTarget] = useState('zh-Hant');
+  const [timingRun, setTimingRun] = useState<TimingProvider | null>(null); // provider of the run in progress
+  const [timingProvider, setTimingProvider] = useState<TimingProvider>('local');
+  const [showAISettings, setShowAISettings] = useState(false);
+  // One controller per running AI task; clicking the task's button again aborts it
+  const aiTasksRef = useRef<Partial<Record<AITask, AbortController>>>({});
+
+  const [toasts, setToasts] = useState<ToastMessage[]>([]);
+  const toastIdRef = useRef(0);
+  const toastTimersRef = useRef(new Map<number, number>()); // auto-dismiss timers by toast id
 
   // Sync Mode State
   const [currentSyncIndex, setCurrentSyncIndex] = useState(0);
+  const [syncMode, setSyncMode] = useState<SyncMode>('line');
+  const [currentSyncWordIndex, setCurrentSyncWordIndex] = useState(0);
+
+  const applyLyrics = useCallback((update: LyricLine[] | ((prev: LyricLine[]) => LyricLine[]), label: string, groupKey?: string) => {
+    const prev = lyricsRef.current;
+    const next = typeof update === 'function' ? update(prev) : update;
+    if (next === prev) return;
+    const set = (value: LyricLine[]) => {
+      lyricsRef.current = value;
+      setLyrics(value);
+    };
+    set(next);
+    historyRef.current.push({ label, groupKey, undo: () => set(prev), redo: () => set(next) });
+    setHistoryVersion(v => v + 1);
+  }, []);
+
+  // Consecutive changes to the same settings (e.g. a slider drag) form one undo step
+  const updateSettings = useCallback((newSettings: Partial<VisualSettings>) => {
+    const prev = settingsRef.current;
+    const next = { ...prev, ...newSettings };
+    const set = (value: VisualSettings) => {
+      settingsRef.current = value;
+      setSettings(value);
+    };
+    set(next);
+    historyRef.current.push({
+      label: '調整設定',
+      groupKey: `settings:${Object.keys(newSettings).sort().join(',')}`,
+      undo: () => set(prev),
+      redo: () => set(next),
+    });
+    setHistoryVersion(v => v + 1);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    if (historyRef.current.undo()) setHistoryVersion(v => v + 1);
+  }, []);
+
+  const handleRedo = useCallback(() => {
+    if (historyRef.current.redo()) setHistoryVersion(v => v + 1);
+  }, []);
+
+  const resetHistory = () => {
+    historyRef.current.clear();
+    setHistoryVersion(v => v + 1);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Text fields keep the browser's own undo
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) handleRedo();
+        else handleUndo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
 
   useEffect(() => {
     let interval: number;
@@ -213,11 +383,40 @@ const LyricStudio = () => {
     return () => clearInterval(interval);
   }, [isPlaying]);
 
+  // Decode the song once for the timeline waveform and offline export
+  useEffect(() => {
+    setAudioBuffer(null);
+    if (!audioSrc) return;
+    let cancelled = false;
+    decodeAudioFromUrl(audioSrc)
+      .then(buffer => { if (!cancelled) setAudioBuffer(buffer); })
+      .catch(e => console.error('Audio decode failed', e));
+    return () => { cancelled = true; };
+  }, [audioSrc]);
+
+  useEffect(() => {
+    setBeatAnalysis(null);
+    if (!audioBuffer) return;
+    let cancelled = false;
+    analyzeBeats(audioBuffer)
+      .then(result => { if (!cancelled) setBeatAnalysis(result); })
+      .catch(e => console.error('Beat tracking failed', e));
+    return () => { cancelled = true; };
+  }, [audioBuffer]);
+
+  const seekTo = (time: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
   const handleAudioUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       const url = URL.createObjectURL(file);
       setAudioSrc(url);
+      // Use the file name as a title unless lyrics already supplied one
+      setMetadata(prev => ({ ...prev, title: prev.title || file.name.replace(/\.[^.]+$/, '') }));
       setIsPlaying(false);
       setCurrentTime(0);
     }
@@ -225,10 +424,12 @@ const LyricStudio = () => {
 
   const handleBgUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
+    if (file && file.type.startsWith('video/')) {
+      updateSettings({ backgroundVideo: URL.createObjectURL(file), backgroundImage: undefined });
+    } else if (file) {
       const reader = new FileReader();
       reader.onload = (ev) => {
-        updateSettings({ backgroundImage: ev.target?.result as string });
+        updateSettings({ backgroundImage: ev.target?.result as string, backgroundVideo: undefined });
       };
       reader.readAsDataURL(file);
     }
@@ -240,59 +441,411 @@ const LyricStudio = () => {
       const reader = new FileReader();
       reader.onload = (ev) => {
         const content = ev.target?.result as string;
-        const parsed = parseSRT(content);
-        if (parsed.length > 0) {
-            setLyrics(parsed);
+        const parsed = parseSubtitleFile(content, file.name);
+        if (parsed.lyrics.length > 0) {
+            applyLyrics(parsed.lyrics, '匯入字幕');
+            setMetadata(prev => ({ ...prev, ...parsed.metadata }));
         } else {
-            alert('無法解析 SRT 檔案');
+            alert('無法解析字幕檔案');
         }
       };
       reader.readAsText(file);
     }
   };
 
-  const updateSettings = (newSettings: Partial<VisualSettings>) => {
-    setSettings(prev => ({ ...prev, ...newSettings }));
+  const handleExportLyrics = (format: SubtitleFormat) => {
+    const info = SUBTITLE_FORMATS.find(f => f.format === format)!;
+    // Subtitle formats carry a single translation: export the first one shown
+    const exportLanguage = settings.translationLanguages[0] || MANUAL_TRANSLATION;
+    const exported = exportLanguage === MANUAL_TRANSLATION
+      ? lyrics
+      : lyrics.map(line => ({ ...line, translation: getTranslation(line, exportLanguage) || undefined }));
+    const content = serializeLyrics(format, exported, settings, metadata);
+    const baseName = toSafeFileName(metadata.title, 'willwi-lyrics');
+    downloadBlob(new Blob([content], { type: `${info.mimeType};charset=utf-8` }), `${baseName}.${info.extension}`);
+    setShowExportMenu(false);
+  };
+
+  // Line Styles: the editor applies styles to a selection of lines or to their section
+  const selectedLines = lyrics.filter(line => selectedLineIds.includes(line.id));
+  const selectedSections = new Set<string>(selectedLines.map(line => line.section || ''));
+  const commonSection: string = selectedSections.size === 1 ? Array.from(selectedSections)[0] : '';
+
+  // Shift-click selects the range from the previously clicked row
+  const toggleLineSelection = (index: number, range: boolean) => {
+    const id = lyrics[index].id;
+    const anchor = lastSelectedIndexRef.current;
+    if (range && anchor !== null && anchor < lyrics.length) {
+      const [from, to] = anchor < index ? [anchor, index] : [index, anchor];
+      const rangeIds = lyrics.slice(from, to + 1).map(line => line.id);
+      setSelectedLineIds(prev => Array.from(new Set([...prev, ...rangeIds])));
+    } else {
+      setSelectedLineIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+    }
+    lastSelectedIndexRef.current = index;
+  };
+
+  const updateSelectedLines = (update: (line: LyricLine) => LyricLine, label: string) => {
+    applyLyrics(lyrics.map(line => selectedLineIds.includes(line.id) ? update(line) : line), label);
+  };
+
+  // Hand-edited times move the karaoke segments with the line; a range that no
+  // longer makes sense drops them rather than leaving them out of sync
+  const editLineTimes = (index: number, startTime: number, endTime: number, label: string) => {
+    applyLyrics(lyrics.map((line, i) => {
+      if (i !== index) return line;
+      const retimed = endTime > startTime ? retimeLine(line, startTime, endTime) : { ...line, startTime, endTime, words: undefined };
+      return { ...retimed, confidence: undefined };
+    }), label);
+  };
+
+  const applySectionStyle = (style: LineStyle) => {
+    updateSettings({
+      sectionStyles: { ...settings.sectionStyles, [commonSection]: mergeLineStyles(settings.sectionStyles[commonSection], style) },
+    });
+  };
+
+  const clearSectionStyle = () => {
+    const { [commonSection]: _removed, ...rest } = settings.sectionStyles;
+    updateSettings({ sectionStyles: rest });
+  };
+
+  // Project Files
+  useEffect(() => {
+    listRecentProjects().then(setRecentProjects).catch(() => {});
+  }, []);
+
+  const revokeBlobUrl = (url?: string | null) => {
+    if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+  };
+
+  const applyProject = async (project: ProjectData) => {
+    // Fonts first, so the restored settings never draw in a fallback font
+    if (project.fonts?.length) {
+      const added = await importFonts(project.fonts, customFonts);
+      setCustomFonts(prev => [...prev, ...added]);
+    }
+    // The media being replaced is no longer reachable, undo history included
+    revokeBlobUrl(audioSrc);
+    revokeBlobUrl(settings.backgroundVideo);
+    projectIdRef.current = project.projectId || createProjectId();
+    resetHistory();
+    setLyrics(project.lyrics);
+    setMetadata(project.metadata);
+    setSettings({
+      ...DEFAULT_SETTINGS,
+      ...migrateTrackPlacement(project.settings),
+      backgroundImage: project.backgroundImage ? await blobToDataUrl(project.backgroundImage) : undefined,
+      backgroundVideo: project.backgroundVideo ? URL.createObjectURL(project.backgroundVideo) : undefined,
+    });
+    setAudioSrc(project.audio ? URL.createObjectURL(project.audio) : null);
+    setIsPlaying(false);
+    setCurrentTime(0);
+  };
+
+  const handleSaveProject = async () => {
+    setIsProjectBusy(true);
+    try {
+      const file = await saveProject({
+        projectId: projectIdRef.current,
+        lyrics,
+        settings,
+        metadata,
+        audio: await blobFromUrl(audioSrc),
+        backgroundImage: await blobFromUrl(settings.backgroundImage),
+        backgroundVideo: await blobFromUrl(settings.backgroundVideo),
+        fonts: await getFontFiles(customFonts.filter(font => usedFontFamilies(lyrics, settings).includes(font.family))),
+      });
+      const name = toSafeFileName(metadata.title, 'willwi-project');
+      downloadBlob(file, `${name}.${PROJECT_FILE_EXTENSION}`);
+      setRecentProjects(await rememberRecentProject(projectIdRef.current, name, file));
+    } catch (e) {
+      console.error('Project save failed', e);
+      alert('儲存專案失敗');
+    } finally {
+      setIsProjectBusy(false);
+    }
+  };
+
+  // Files saved before projects had ids keep the id of their recent entry
+  const loadProjectFile = async (file: Blob, name: string, recentId?: string) => {
+    setIsProjectBusy(true);
+    try {
+      const project = await openProject(file);
+      await applyProject({ ...project, projectId: project.projectId || recentId });
+      setRecentProjects(await rememberRecentProject(projectIdRef.current, name, file));
+    } catch (e) {
+      console.error('Project open failed', e);
+      alert(e instanceof Error ? `無法開啟專案：${e.message}` : '無法開啟專案');
+    } finally {
+      setIsProjectBusy(false);
+    }
+  };
+
+  const handleOpenProject = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadProjectFile(file, file.name.replace(/\.[^.]+$/, ''));
+    e.target.value = '';
+  };
+
+  const handleOpenRecentProject = async (id: string) => {
+    const recent = await getRecentProject(id).catch(() => undefined);
+    if (recent) loadProjectFile(recent.file, recent.name, recent.id);
+  };
+
+  // Custom Fonts: the library lives in IndexedDB and is shared by all projects
+  useEffect(() => {
+    loadStoredFonts().then(setCustomFonts).catch(e => console.error('Loading fonts failed', e));
+  }, []);
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const font = await uploadFont(file, customFonts.map(f => f.family));
+      setCustomFonts(prev => [...prev, font]);
+      updateSettings({ fontFamily: font.family });
+      showToast('success', `已加入字型「${font.family}」`);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : '字型上傳失敗');
+    }
+  };
+
+  const handleRemoveFont = async (font: CustomFont) => {
+    await removeFont(font.id).catch(e => console.error('Removing font failed', e));
+    setCustomFonts(prev => prev.filter(f => f.id !== font.id));
+    if (settings.fontFamily === font.family) updateSettings({ fontFamily: DEFAULT_SETTINGS.fontFamily });
+  };
+
+  // Autosave & Crash Recovery
+  // Nothing is written until the user has decided what to do with the previous session
+  useEffect(() => {
+    loadSession()
+      .then(session => {
+        if (session && session.lyrics.length > 0 && !isUntouchedSession(session)) setPendingSession(session);
+        else setAutosaveReady(true);
+      })
+      .catch(() => setAutosaveReady(true));
+  }, []);
+
+  useEffect(() => {
+    if (!autosaveReady) return;
+    const timer = window.setTimeout(() => {
+      const state = { lyrics, settings, metadata };
+      saveSession(state).catch(e => console.error('Autosave failed', e));
+      if (Date.now() - lastSnapshotRef.current >= SNAPSHOT_INTERVAL_MS) {
+        lastSnapshotRef.current = Date.now();
+        addSnapshot(state).catch(e => console.error('Snapshot failed', e));
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [lyrics, settings, metadata, autosaveReady]);
+
+  const persistMedia = (slot: MediaSlot, url?: string | null) => {
+    blobFromUrl(url)
+      .then(blob => saveSessionMedia(slot, blob))
+      .catch(e => console.error('Autosave media failed', e));
+  };
+
+  useEffect(() => {
+    if (autosaveReady) persistMedia('audio', audioSrc);
+  }, [audioSrc, autosaveReady]);
+
+  useEffect(() => {
+    if (autosaveReady) persistMedia('backgroundImage', settings.backgroundImage);
+  }, [settings.backgroundImage, autosaveReady]);
+
+  useEffect(() => {
+    if (autosaveReady) persistMedia('backgroundVideo', settings.backgroundVideo);
+  }, [settings.backgroundVideo, autosaveReady]);
+
+  const handleRestoreSession = async () => {
+    if (pendingSession) await applyProject(pendingSession);
+    setPendingSession(null);
+    setAutosaveReady(true);
+  };
+
+  const handleDiscardSession = async () => {
+    setPendingSession(null);
+    await clearSession().catch(() => {});
+    setAutosaveReady(true);
+  };
+
+  const openHistory = async () => {
+    setSnapshots(await listSnapshots().catch(() => []));
+    setShowHistory(true);
+  };
+
+  const restoreSnapshot = async (snapshot: Snapshot) => {
+    // Keep the current state in history so restoring is never destructive
+    await addSnapshot({ lyrics, settings, metadata }).catch(() => {});
+    lastSnapshotRef.current = Date.now();
+    resetHistory();
+    setLyrics(snapshot.lyrics);
+    setMetadata(snapshot.metadata);
+    setSettings(prev => ({
+      ...DEFAULT_SETTINGS,
+      ...migrateTrackPlacement(snapshot.settings),
+      backgroundImage: prev.backgroundImage,
+      backgroundVideo: prev.backgroundVideo,
+    }));
+    setShowHistory(false);
   };
 
   const handleLyricsChange = (newLyrics: LyricLine[]) => {
-    setLyrics(newLyrics);
+    applyLyrics(newLyrics, '編輯歌詞');
   };
 
   const handleTextPaste = (text: string) => {
       // If user pastes raw text, try to distribute it evenly or parse it
       const duration = audioRef.current?.duration || 180;
       const parsed = detectAndParse(text, duration);
-      setLyrics(parsed);
+      applyLyrics(parsed, '貼上歌詞');
   };
 
+  // Toasts
+  const dismissToast = useCallback((id: number) => {
+      window.clearTimeout(toastTimersRef.current.get(id));
+      toastTimersRef.current.delete(id);
+      setToasts(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const showToast = useCallback((kind: ToastKind, text: string) => {
+      const id = ++toastIdRef.current;
+      setToasts(prev => [...prev, { id, kind, text }]);
+      toastTimersRef.current.set(id, window.setTimeout(() => dismissToast(id), TOAST_DURATION_MS));
+  }, [dismissToast]);
+
+  useEffect(() => () => {
+      toastTimersRef.current.forEach(timer => window.clearTimeout(timer));
+  }, []);
+
   // AI Actions
+  useEffect(() => () => {
+      Object.values(aiTasksRef.current).forEach((controller: AbortController) => controller.abort());
+  }, []);
+
+  // Returns a signal for a new run, or null after cancelling the run in progress
+  const startAITask = (task: AITask): AbortSignal | null => {
+      const running = aiTasksRef.current[task];
+      if (running) {
+          running.abort();
+          return null;
+      }
+      const controller = new AbortController();
+      aiTasksRef.current[task] = controller;
+      return controller.signal;
+  };
+
+  const finishAITask = (task: AITask) => {
+      delete aiTasksRef.current[task];
+  };
+
+  const reportAIError = (action: string, error: AIError) => {
+      if (error.kind === 'aborted') showToast('info', `已取消${action}`);
+      else showToast('error', `${action}失敗：${AI_ERROR_MESSAGES[error.kind]}`);
+      if (error.kind === 'not-configured') setShowAISettings(true);
+  };
+
+  // Canned mock output must never pass for a real result
+  const reportAISuccess = (text: string) =>
+      showToast(isMockAI() ? 'info' : 'success', isMockAI() ? `${text}（模擬結果，非 AI 產生）` : text);
+
   const handleAutoTheme = async () => {
+    const signal = startAITask('theme');
+    if (!signal) return;
     const fullText = lyrics.map(l => l.text).join('\n');
     setIsGeneratingTheme(true);
-    const theme = await analyzeLyricsForTheme(fullText);
-    if (theme) updateSettings(theme);
+    const result = await analyzeLyricsForTheme(fullText, signal);
+    if (result.ok === false) reportAIError('生成主題', result.error);
+    else {
+        updateSettings(result.value);
+        reportAISuccess('已套用 AI 建議的主題');
+    }
+    finishAITask('theme');
     setIsGeneratingTheme(false);
   };
 
   const handleTranslate = async () => {
+      const signal = startAITask('translate');
+      if (!signal) return;
+      const language = getTranslationLanguage(translationTarget);
       setIsTranslating(true);
-      const translated = await translateLyricsAI(lyrics);
-      setLyrics(translated);
-      updateSettings({ showTranslation: true });
+      setTranslateProgress(0);
+      const result = await translateLyricsAI(lyrics, language, {
+          signal,
+          onProgress: (done, total) => setTranslateProgress(total ? done / total : 1),
+      });
+      if (result.ok === false) reportAIError('翻譯', result.error);
+      else {
+          // Merge into the current lyrics: lines may have been edited while the chunks ran
+          const translated = new Map(result.value.map(l => [l.id, getTranslation(l, language.code)]));
+          applyLyrics(prev => prev.map(line => translated.get(line.id) ? setTranslation(line, language.code, translated.get(line.id)!) : line), `AI 翻譯 (${language.label})`);
+          const shown = settingsRef.current.translationLanguages;
+          updateSettings({
+              showTranslation: true,
+              translationLanguages: shown.includes(language.code) ? shown : [language.code, ...shown].slice(0, MAX_DISPLAYED_TRANSLATIONS),
+          });
+          reportAISuccess(`已翻譯為${language.label}`);
+      }
+      finishAITask('translate');
       setIsTranslating(false);
   };
 
+  // Timing runs for a while; its results land on the lines as they are by then,
+  // matched by id, so edits made meanwhile survive and only the times change
+  const applyTimedLines = (timed: LyricLine[], label: string) => {
+      const byId = new Map(timed.map(line => [line.id, line]));
+      applyLyrics(prev => prev.map(line => {
+          const result = byId.get(line.id);
+          return result ? { ...retimeLine(line, result.startTime, result.endTime), confidence: result.confidence } : line;
+      }), label);
+  };
+
   const handleSmartTiming = async () => {
-      if (!audioRef.current) {
+      if (aiTasksRef.current.timing) {
+          aiTasksRef.current.timing.abort();
+          return;
+      }
+      if (timingRun) return;
+      if (!audioRef.current || !audioSrc) {
           alert("請先上傳音樂");
           return;
       }
-      setIsTiming(true);
-      const fullText = lyrics.map(l => l.text).join('\n');
-      const timedLyrics = await smartTimingAI(fullText, audioRef.current.duration);
-      if (timedLyrics.length > 0) setLyrics(timedLyrics);
-      setIsTiming(false);
+      if (timingProvider === 'local') {
+          if (!audioBuffer) {
+              alert("音訊仍在解碼中，請稍候再試");
+              return;
+          }
+          const signal = startAITask('timing');
+          if (!signal) return;
+          setTimingRun('local');
+          try {
+              applyTimedLines(await alignLyrics(audioBuffer, lyrics, undefined, signal), '本機自動對時');
+              showToast('success', '自動對時完成');
+          } catch (e) {
+              if (e instanceof DOMException && e.name === 'AbortError') showToast('info', '已取消自動對時');
+              else {
+                  console.error('Local alignment failed', e);
+                  showToast('error', e instanceof Error ? `自動對時失敗：${e.message}` : '自動對時失敗');
+              }
+          }
+          finishAITask('timing');
+          setTimingRun(null);
+          return;
+      }
+      const signal = startAITask('timing');
+      if (!signal) return;
+      setTimingRun('ai');
+      const result = await smartTimingAI(lyrics, audioRef.current.duration, signal);
+      if (result.ok === false) reportAIError('智能對時', result.error);
+      else {
+          applyTimedLines(result.value, 'AI 智慧對時');
+          reportAISuccess('智能對時完成');
+      }
+      finishAITask('timing');
+      setTimingRun(null);
   };
 
   // Sync Mode Handlers
@@ -302,6 +855,8 @@ const LyricStudio = () => {
         return;
     }
     setCurrentSyncIndex(0);
+    setCurrentSyncWordIndex(0);
+    if (syncMode === 'word') ensureWordSegments();
     setShowSyncOverlay(true);
     audioRef.current!.currentTime = 0;
     audioRef.current!.play();
@@ -313,46 +868,111 @@ const LyricStudio = () => {
     
     const now = audioRef.current.currentTime;
     
-    setLyrics(prev => {
-        const newLyrics = [...prev];
-        // Set start time of current line
-        if (currentSyncIndex < newLyrics.length) {
-            newLyrics[currentSyncIndex].startTime = now;
-            
-            // Set end time of previous line to now
-            if (currentSyncIndex > 0) {
-                newLyrics[currentSyncIndex - 1].endTime = now;
-            }
-        }
-        return newLyrics;
-    });
+    const isLastLine = currentSyncIndex >= lyrics.length - 1;
+
+    // Set start time of current line and end time of the previous line to now;
+    // the last line ends 5s after its start
+    applyLyrics(prev => prev.map((l, i) => {
+        if (i === currentSyncIndex) return { ...l, startTime: now, confidence: undefined, ...(isLastLine ? { endTime: now + 5 } : {}) };
+        if (i === currentSyncIndex - 1) return { ...l, endTime: now, confidence: undefined };
+        return l;
+    }), '標記時間');
 
     // Move to next
-    if (currentSyncIndex < lyrics.length - 1) {
+    if (!isLastLine) {
         setCurrentSyncIndex(prev => prev + 1);
     } else {
-        // Finished
-        // Set end time of last line to end of song or +5s
-        setLyrics(prev => {
-             const newLyrics = [...prev];
-             newLyrics[newLyrics.length - 1].endTime = now + 5;
-             return newLyrics;
+        setShowSyncOverlay(false);
+    }
+  }, [currentSyncIndex, lyrics.length, applyLyrics]);
+
+  // Give every line karaoke segments to tap, keeping any that still match the text
+  const ensureWordSegments = () => {
+    applyLyrics(prev => prev.every(hasValidWordTiming)
+      ? prev
+      : prev.map(l => hasValidWordTiming(l) ? l : { ...l, words: createWordSegments(l) }), '建立逐字分段');
+  };
+
+  const changeSyncMode = (mode: SyncMode) => {
+    setSyncMode(mode);
+    setCurrentSyncWordIndex(0);
+    if (mode === 'word') ensureWordSegments();
+  };
+
+  // Word mode: each tap starts the next segment; one extra tap after the last
+  // segment marks the end of the line and moves on.
+  const markCurrentWord = useCallback(() => {
+    if (!audioRef.current) return;
+
+    const now = audioRef.current.currentTime;
+    const line = lyrics[currentSyncIndex];
+    if (!line) return;
+    const wordCount = line.words?.length ?? 0;
+    const isLineEnd = currentSyncWordIndex >= wordCount;
+
+    applyLyrics(prev => prev.map((l, i) => {
+        if (i !== currentSyncIndex) return l;
+        const words = (l.words || []).map((w, wi) => {
+            if (wi === currentSyncWordIndex) return { ...w, startTime: now };
+            if (wi === currentSyncWordIndex - 1) return { ...w, endTime: now };
+            return w;
         });
+        return {
+            ...l,
+            words,
+            confidence: undefined,
+            ...(currentSyncWordIndex === 0 ? { startTime: now } : {}),
+            ...(isLineEnd ? { endTime: now } : {}),
+        };
+    }), '標記逐字時間');
+
+    if (!isLineEnd) {
+        setCurrentSyncWordIndex(prev => prev + 1);
+        return;
+    }
+    setCurrentSyncWordIndex(0);
+    if (currentSyncIndex < lyrics.length - 1) {
+        setCurrentSyncIndex(prev => prev + 1);
+    } else {
         setShowSyncOverlay(false);
     }
-  }, [currentSyncIndex, lyrics.length]);
+  }, [currentSyncIndex, currentSyncWordIndex, lyrics, applyLyrics]);
+
+  const handleSyncTap = syncMode === 'word' ? markCurrentWord : markCurrentLine;
 
   // Keyboard listener for Sync Mode
   useEffect(() => {
       const handleKeyDown = (e: KeyboardEvent) => {
           if (showSyncOverlay && (e.code === 'Space' || e.key === 'Enter')) {
               e.preventDefault();
-              markCurrentLine();
+              handleSyncTap();
           }
       };
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [showSyncOverlay, markCurrentLine]);
+  }, [showSyncOverlay, handleSyncTap]);
+
+  const history = historyRef.current;
+  const undoRedoButtons = (
+    <div className="flex bg-brand-800/90 border border-brand-700 rounded-lg overflow-hidden text-sm">
+      <button
+        onClick={handleUndo}
+        disabled={!history.canUndo}
+        title={history.canUndo ? `復原：${history.undoLabel} (Ctrl+Z)` : '復原 (Ctrl+Z)'}
+        className="px-3 py-1.5 text-stone-300 hover:text-noodle hover:bg-brand-700 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-stone-300 transition-colors"
+      >
+        ↶ 復原
+      </button>
+      <button
+        onClick={handleRedo}
+        disabled={!history.canRedo}
+        title={history.canRedo ? `重做：${history.redoLabel} (Ctrl+Shift+Z)` : '重做 (Ctrl+Shift+Z)'}
+        className="px-3 py-1.5 text-stone-300 hover:text-noodle hover:bg-brand-700 border-l border-brand-700 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-stone-300 transition-colors"
+      >
+        重做 ↷
+      </button>
+    </div>
+  );
 
 
   return (
@@ -360,6 +980,10 @@ const LyricStudio = () => {
       <audio 
         ref={audioRef} 
         src={audioSrc || undefined} 
+        onLoadedMetadata={(e) => {
+            const duration = e.currentTarget.duration;
+            if (isFinite(duration)) setMetadata(prev => ({ ...prev, duration }));
+        }}
         onEnded={() => setIsPlaying(false)}
         onPause={() => setIsPlaying(false)}
         onPlay={() => setIsPlaying(true)}
@@ -376,9 +1000,24 @@ const LyricStudio = () => {
         onSrtUpload={handleSrtUpload}
         onTranslate={handleTranslate}
         isTranslating={isTranslating}
+        translateProgress={translateProgress}
+        translationTarget={translationTarget}
+        onTranslationTargetChange={setTranslationTarget}
         onSmartTiming={handleSmartTiming}
-        isTiming={isTiming}
+        timingRun={timingRun}
+        timingProvider={timingProvider}
+        onTimingProviderChange={setTimingProvider}
+        onOpenAISettings={() => setShowAISettings(true)}
         onManualSync={startSyncMode}
+        onSaveProject={handleSaveProject}
+        onOpenProject={handleOpenProject}
+        onOpenRecentProject={handleOpenRecentProject}
+        recentProjects={recentProjects}
+        isProjectBusy={isProjectBusy}
+        onOpenHistory={openHistory}
+        customFonts={customFonts}
+        onFontUpload={handleFontUpload}
+        onRemoveFont={handleRemoveFont}
       />
 
       {/* Right: Visualizer Workspace */}
@@ -404,7 +1043,11 @@ const LyricStudio = () => {
                   style={{ backgroundImage: 'radial-gradient(#44403c 1px, transparent 1px)', backgroundSize: '24px 24px' }}>
              </div>
 
-             <div className="w-full max-w-5xl aspect-video relative z-10">
+             {!isExporting && (
+                 <div className="absolute top-4 left-4 z-20">{undoRedoButtons}</div>
+             )}
+
+             <div className="w-full h-full max-w-5xl relative z-10">
                  {!audioSrc ? (
                      <div className="w-full h-full border-2 border-dashed border-brand-700 rounded-xl flex flex-col items-center justify-center text-stone-500 bg-brand-900/50 backdrop-blur-sm">
                          <div className="text-4xl mb-4">🎵</div>
@@ -417,7 +1060,12 @@ const LyricStudio = () => {
                         isPlaying={isPlaying}
                         audioRef={audioRef}
                         settings={settings}
+                        metadata={metadata}
+                        audioBuffer={audioBuffer}
+                        beats={beatAnalysis}
                         onExportProgress={setIsExporting}
+                        onLyricsChange={applyLyrics}
+                        onSettingsChange={updateSettings}
                      />
                  )}
              </div>
@@ -465,11 +1113,83 @@ const LyricStudio = () => {
                  </div>
              )}
         </div>
+
+        {/* Timeline */}
+        {audioSrc && !isExporting && (
+            <Timeline
+              lyrics={lyrics}
+              currentTime={currentTime}
+              duration={metadata.duration}
+              isPlaying={isPlaying}
+              audioBuffer={audioBuffer}
+              beats={beatAnalysis}
+              onSeek={seekTo}
+              onLyricsChange={applyLyrics}
+            />
+        )}
       </div>
 
+      {showAISettings && <AISettingsPanel onClose={() => setShowAISettings(false)} />}
+
+      <ToastStack toasts={toasts} onDismiss={dismissToast} />
+
+      {/* Restore Prompt */}
+      {pendingSession && (
+          <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 bg-brand-800 border border-noodle/50 rounded-xl shadow-2xl px-5 py-3 flex items-center gap-4 text-sm">
+              <span className="text-stone-300">
+                  發現上次未完成的工作（{new Date(pendingSession.savedAt).toLocaleString()}），要還原嗎？
+              </span>
+              <button onClick={handleRestoreSession} className="bg-noodle text-brand-900 px-3 py-1 rounded-lg font-bold hover:bg-yellow-400">還原</button>
+              <button onClick={handleDiscardSession} className="text-stone-400 hover:text-white">捨棄</button>
+          </div>
+      )}
+
+      {/* Version History */}
+      {showHistory && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-brand-900 w-full max-w-lg max-h-[70vh] rounded-2xl shadow-2xl flex flex-col border border-brand-700">
+            <div className="p-4 border-b border-brand-800 flex justify-between items-center">
+              <h3 className="font-bold text-xl text-white">版本紀錄</h3>
+              <button onClick={() => setShowHistory(false)} className="text-stone-400 hover:text-white px-3">關閉</button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 space-y-2">
+              {snapshots.length === 0 && <div className="text-center text-stone-500 text-sm py-8">尚無自動儲存的版本</div>}
+              {snapshots.map(snapshot => (
+                <div key={snapshot.id} className="flex items-center justify-between gap-3 p-3 bg-brand-800 rounded-lg border border-brand-700">
+                  <div className="min-w-0">
+                    <div className="text-sm text-white">{new Date(snapshot.savedAt).toLocaleString()}</div>
+                    <div className="text-xs text-stone-500 truncate">
+                      {snapshot.metadata.title || '未命名'} · {snapshot.lyrics.length} 行 · {snapshot.lyrics[0]?.text || ''}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => restoreSnapshot(snapshot)}
+                    className="flex-shrink-0 border border-noodle text-noodle hover:bg-noodle hover:text-brand-900 px-3 py-1 rounded-lg text-xs font-bold transition-colors"
+                  >
+                    還原
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Sync Overlay */}
       {showSyncOverlay && (
           <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex flex-col items-center justify-center text-center p-8">
+              <div className="absolute top-6 right-6 flex bg-brand-800 border border-brand-700 rounded-full p-1 text-xs font-bold">
+                  {(['line', 'word'] as SyncMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => changeSyncMode(mode)}
+                        className={`px-4 py-1.5 rounded-full transition-colors ${syncMode === mode ? 'bg-noodle text-brand-900' : 'text-stone-400 hover:text-white'}`}
+                      >
+                          {mode === 'line' ? '逐行' : '逐字 (卡拉OK)'}
+                      </button>
+                  ))}
+              </div>
+
               <div className="mb-12">
                   <div className="text-stone-400 text-sm mb-2 uppercase tracking-widest font-bold">即將播放 (Next)</div>
                   <div className="text-2xl text-stone-600 font-serif opacity-50 blur-[1px]">
@@ -480,17 +1200,32 @@ const LyricStudio = () => {
               <div className="mb-12 scale-110">
                   <div className="text-noodle text-sm mb-4 uppercase tracking-widest font-bold animate-pulse">現在 (Current)</div>
                   <div className="text-5xl md:text-7xl font-black text-white font-serif leading-tight">
-                      {lyrics[currentSyncIndex]?.text}
+                      {syncMode === 'word' && lyrics[currentSyncIndex]?.words
+                        ? lyrics[currentSyncIndex].words!.map((w, wi) => (
+                            <span
+                              key={wi}
+                              className={`whitespace-pre-wrap ${wi < currentSyncWordIndex ? 'text-noodle' : ''} ${wi === currentSyncWordIndex ? 'underline decoration-soup underline-offset-8' : ''}`}
+                            >
+                                {w.text}
+                            </span>
+                          ))
+                        : lyrics[currentSyncIndex]?.text}
                   </div>
               </div>
 
               <button 
-                onClick={markCurrentLine}
+                onClick={handleSyncTap}
                 className="w-64 h-64 rounded-full bg-soup hover:bg-orange-500 active:scale-95 transition-all shadow-[0_0_50px_rgba(234,88,12,0.5)] flex items-center justify-center border-4 border-white/20 group"
               >
                   <span className="font-bold text-2xl text-white group-hover:scale-110 transition-transform block">
                       TAP / 空白鍵<br/>
-                      <span className="text-sm font-normal opacity-80 mt-2 block">標記開始時間</span>
+                      <span className="text-sm font-normal opacity-80 mt-2 block">
+                          {syncMode === 'line'
+                            ? '標記開始時間'
+                            : currentSyncWordIndex < (lyrics[currentSyncIndex]?.words?.length ?? 0)
+                              ? '標記下一個字'
+                              : '標記本行結尾'}
+                      </span>
                   </span>
               </button>
               
@@ -510,6 +1245,29 @@ const LyricStudio = () => {
             <div className="p-4 border-b border-brand-800 flex justify-between items-center">
               <h3 className="font-bold text-xl text-white">歌詞編輯器</h3>
               <div className="flex gap-2">
+                 {undoRedoButtons}
+                 <div className="relative">
+                   <button
+                     onClick={() => setShowExportMenu(prev => !prev)}
+                     className="border border-brand-700 text-stone-300 hover:border-noodle hover:text-noodle px-3 py-1.5 rounded-lg text-sm font-bold transition-colors"
+                   >
+                     匯出字幕 ▾
+                   </button>
+                   {showExportMenu && (
+                     <div className="absolute right-0 mt-2 w-44 bg-brand-800 border border-brand-700 rounded-lg shadow-xl overflow-hidden z-10">
+                       {SUBTITLE_FORMATS.map(f => (
+                         <button
+                           key={f.format}
+                           onClick={() => handleExportLyrics(f.format)}
+                           className="w-full text-left px-4 py-2 text-sm text-stone-300 hover:bg-brand-700 hover:text-noodle flex justify-between"
+                         >
+                           <span>{f.label}</span>
+                           <span className="text-stone-500 font-mono">.{f.extension}</span>
+                         </button>
+                       ))}
+                     </div>
+                   )}
+                 </div>
                  <button onClick={() => setShowEditor(false)} className="text-stone-400 hover:text-white px-3">關閉</button>
                  <button 
                    onClick={() => setShowEditor(false)} 
@@ -524,28 +1282,101 @@ const LyricStudio = () => {
                <div className="flex h-full">
                   {/* List View Editor */}
                   <div className="w-full p-6 space-y-4">
+                      {selectedLines.length > 0 && (
+                          <LineStylePanel
+                            key={commonSection}
+                            selectedCount={selectedLines.length}
+                            customFonts={customFonts}
+                            sections={listSections(lyrics)}
+                            commonSection={commonSection}
+                            onApplyToLines={(style) => updateSelectedLines(line => ({ ...line, lineStyle: mergeLineStyles(line.lineStyle, style) }), '套用歌詞樣式')}
+                            onClearLines={() => updateSelectedLines(line => ({ ...line, lineStyle: undefined }), '清除歌詞樣式')}
+                            onTagSection={(tag) => updateSelectedLines(line => ({ ...line, section: tag || undefined }), '標記段落')}
+                            onApplyToSection={applySectionStyle}
+                            onClearSection={clearSectionStyle}
+                            hasSectionStyle={!!commonSection && !isEmptyLineStyle(settings.sectionStyles[commonSection])}
+                            onAddKeyframe={(at, style) => updateSelectedLines(line => ({ ...line, styleKeyframes: addStyleKeyframe(line.styleKeyframes, at, style) }), '加入樣式關鍵影格')}
+                            onClearKeyframes={() => updateSelectedLines(line => ({ ...line, styleKeyframes: undefined }), '清除樣式關鍵影格')}
+                            hasKeyframes={selectedLines.some(line => line.styleKeyframes?.length)}
+                            onClearSelection={() => setSelectedLineIds([])}
+                          />
+                      )}
                       <div className="grid grid-cols-12 gap-4 mb-2 text-xs font-bold text-stone-500 uppercase px-2">
                           <div className="col-span-1">#</div>
                           <div className="col-span-2">開始 (秒)</div>
                           <div className="col-span-2">結束 (秒)</div>
                           <div className="col-span-3">原文</div>
-                          <div className="col-span-3">翻譯</div>
+                          <div className="col-span-3">
+                              <select
+                                value={editedTranslation}
+                                onChange={(e) => setEditedTranslation(e.target.value)}
+                                className="bg-transparent text-stone-500 uppercase font-bold outline-none cursor-pointer hover:text-white"
+                                title="編輯的翻譯語言"
+                              >
+                                  {[MANUAL_TRANSLATION, ...TRANSLATION_LANGUAGES.map(l => l.code)].map(code => (
+                                      <option key={code} value={code}>翻譯：{translationLabel(code)}</option>
+                                  ))}
+                              </select>
+                          </div>
                           <div className="col-span-1"></div>
                       </div>
                       
                       {lyrics.map((line, idx) => (
-                          <div key={line.id} className="grid grid-cols-12 gap-4 items-center bg-brand-800/50 p-3 rounded-lg border border-brand-800 hover:border-brand-600 transition-colors group">
-                              <div className="col-span-1 text-stone-500 font-mono text-sm">{idx + 1}</div>
+                          <div key={line.id} className={`grid grid-cols-12 gap-4 items-center p-3 rounded-lg border transition-colors group ${
+                              selectedLineIds.includes(line.id)
+                                ? 'bg-brand-800 border-noodle'
+                                : line.confidence !== undefined && line.confidence < LOW_CONFIDENCE_THRESHOLD
+                                ? 'bg-amber-900/20 border-amber-600/60 hover:border-amber-500'
+                                : 'bg-brand-800/50 border-brand-800 hover:border-brand-600'
+                          }`}>
+                              <div className="col-span-1 text-stone-500 font-mono text-sm">
+                                  <label className="flex items-center gap-1 cursor-pointer" title="選取 (Shift 可選取範圍)">
+                                      <input
+                                        type="checkbox"
+                                        checked={selectedLineIds.includes(line.id)}
+                                        onClick={(e) => toggleLineSelection(idx, e.shiftKey)}
+                                        readOnly
+                                        className="accent-noodle"
+                                      />
+                                      {idx + 1}
+                                  </label>
+                                  {line.section && (
+                                      <span className="block text-[10px] text-soup font-sans font-bold truncate" title="段落">{line.section}</span>
+                                  )}
+                                  {(!isEmptyLineStyle(line.lineStyle) || !!line.styleKeyframes?.length) && (
+                                      <span className="block text-[10px] text-noodle font-sans font-bold" title="此行有自訂樣式">樣式</span>
+                                  )}
+                                  {hasValidWordTiming(line) && (
+                                      <span className="block text-[10px] text-noodle font-sans font-bold" title="已有逐字時間">逐字</span>
+                                  )}
+                                  {line.confidence !== undefined && line.confidence < LOW_CONFIDENCE_THRESHOLD && (
+                                      <span className="block text-[10px] text-amber-400 font-sans font-bold" title="自動對時信心偏低，請確認">
+                                          信心 {Math.round(line.confidence * 100)}%
+                                      </span>
+                                  )}
+                                  {settings.tracks.length > 1 && (
+                                      <select
+                                        value={resolveTrack(settings.tracks, line.trackId).id}
+                                        onChange={(e) => applyLyrics(lyrics.map((l, i) => i === idx ? { ...l, trackId: e.target.value } : l), '變更歌詞軌道')}
+                                        style={{ color: resolveTrack(settings.tracks, line.trackId).color }}
+                                        className="mt-1 w-full bg-brand-900 border border-brand-700 rounded text-[10px] font-sans outline-none focus:border-noodle"
+                                        title="歌詞軌道"
+                                      >
+                                          {settings.tracks.map(track => (
+                                              <option key={track.id} value={track.id}>{track.name}</option>
+                                          ))}
+                                      </select>
+                                  )}
+                              </div>
                               <div className="col-span-2">
                                   <input 
+                                    key={`start-${line.startTime}`}
                                     type="text" 
                                     defaultValue={line.startTime.toFixed(2)}
                                     onBlur={(e) => {
                                         const val = parseFloat(e.target.value);
-                                        if(!isNaN(val)) {
-                                            const newL = [...lyrics];
-                                            newL[idx].startTime = val;
-                                            setLyrics(newL);
+                                        if(!isNaN(val) && val !== line.startTime) {
+                                            editLineTimes(idx, val, line.endTime, '修改開始時間');
                                         }
                                     }}
                                     className="w-full bg-brand-900 border border-brand-700 rounded px-2 py-1 text-sm text-stone-300 focus:border-noodle outline-none text-center font-mono"
@@ -553,14 +1384,13 @@ const LyricStudio = () => {
                               </div>
                               <div className="col-span-2">
                                   <input 
+                                    key={`end-${line.endTime}`}
                                     type="text" 
                                     defaultValue={line.endTime.toFixed(2)}
                                     onBlur={(e) => {
                                         const val = parseFloat(e.target.value);
-                                        if(!isNaN(val)) {
-                                            const newL = [...lyrics];
-                                            newL[idx].endTime = val;
-                                            setLyrics(newL);
+                                        if(!isNaN(val) && val !== line.endTime) {
+                                            editLineTimes(idx, line.startTime, val, '修改結束時間');
                                         }
                                     }}
                                     className="w-full bg-brand-900 border border-brand-700 rounded px-2 py-1 text-sm text-stone-300 focus:border-noodle outline-none text-center font-mono"
@@ -572,21 +1402,37 @@ const LyricStudio = () => {
                                     value={line.text}
                                     onChange={(e) => {
                                         const newL = [...lyrics];
-                                        newL[idx].text = e.target.value;
-                                        setLyrics(newL);
+                                        // Karaoke timing and hand-authored ruby no longer match once the text changes
+                                        newL[idx] = { ...line, text: e.target.value, words: undefined, ruby: undefined };
+                                        applyLyrics(newL, '編輯歌詞', `text:${line.id}`);
                                     }}
                                     className="w-full bg-brand-900 border border-brand-700 rounded px-2 py-1 text-sm text-white focus:border-noodle outline-none"
                                   />
+                                  {settings.showRuby && (
+                                      <input
+                                        key={`ruby-${settings.rubySystem}-${line.text}-${(line.ruby || []).join('|')}`}
+                                        type="text"
+                                        defaultValue={formatRubyInput(line.text, getLineRuby(line, settings.rubySystem))}
+                                        placeholder="注音 (每個漢字一個讀音，以空白分隔)"
+                                        title="每個漢字一個讀音，以空白分隔；「-」表示不標注，清空則改回字典讀音"
+                                        onBlur={(e) => {
+                                            if (e.target.value === e.target.defaultValue) return;
+                                            const ruby = parseRubyInput(line.text, e.target.value);
+                                            applyLyrics(lyrics.map((l, i) => i === idx ? { ...l, ruby } : l), '編輯注音');
+                                        }}
+                                        className={`mt-1 w-full bg-brand-900 border border-brand-700 rounded px-2 py-0.5 text-xs focus:border-noodle outline-none font-mono ${line.ruby ? 'text-noodle' : 'text-stone-500'}`}
+                                      />
+                                  )}
                               </div>
                               <div className="col-span-3">
                                   <input 
                                     type="text" 
-                                    value={line.translation || ''}
-                                    placeholder="翻譯..."
+                                    value={getTranslation(line, editedTranslation)}
+                                    placeholder={`翻譯 (${translationLabel(editedTranslation)})...`}
                                     onChange={(e) => {
                                         const newL = [...lyrics];
-                                        newL[idx].translation = e.target.value;
-                                        setLyrics(newL);
+                                        newL[idx] = setTranslation(line, editedTranslation, e.target.value);
+                                        applyLyrics(newL, '編輯翻譯', `translation:${editedTranslation}:${line.id}`);
                                     }}
                                     className="w-full bg-brand-900 border border-brand-700 rounded px-2 py-1 text-sm text-stone-400 focus:border-noodle outline-none"
                                   />
@@ -595,7 +1441,7 @@ const LyricStudio = () => {
                                   <button 
                                     onClick={() => {
                                         const newL = lyrics.filter((_, i) => i !== idx);
-                                        setLyrics(newL);
+                                        applyLyrics(newL, '刪除歌詞行');
                                     }}
                                     className="text-red-500 hover:bg-red-900/50 p-1.5 rounded"
                                   >
@@ -610,7 +1456,7 @@ const LyricStudio = () => {
                              onClick={() => {
                                  const lastEnd = lyrics.length > 0 ? lyrics[lyrics.length-1].endTime : 0;
                                  const newId = Date.now().toString();
-                                 setLyrics([...lyrics, { id: newId, startTime: lastEnd, endTime: lastEnd + 3, text: "New Line" }]);
+                                 applyLyrics([...lyrics, { id: newId, startTime: lastEnd, endTime: lastEnd + 3, text: "New Line" }], '新增歌詞行');
                              }}
                              className="text-stone-400 hover:text-noodle text-sm font-bold flex items-center gap-2 px-4 py-2 border border-brand-700 rounded-lg hover:border-noodle transition-colors"
                           >
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { AI_PROVIDERS, AIProviderKind, AISettings, defaultAISettings, getProviderInfo, loadAISettings, saveAISettings } from '../services/aiSettings';
+
+interface AISettingsPanelProps {
+  onClose: () => void;
+}
+
+const AISettingsPanel: React.FC<AISettingsPanelProps> = ({ onClose }) => {
+  const [draft, setDraft] = useState<AISettings>(loadAISettings);
+  const info = getProviderInfo(draft.provider);
+
+  const changeProvider = (provider: AIProviderKind) => {
+    setDraft(defaultAISettings(provider));
+  };
+
+  const handleSave = () => {
+    saveAISettings(draft);
+    onClose();
+  };
+
+  const inputClass = "w-full bg-brand-800 text-sm text-white rounded-md border border-brand-700 p-2 outline-none focus:border-noodle focus:ring-1 focus:ring-noodle";
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-brand-900 w-full max-w-md rounded-2xl shadow-2xl flex flex-col border border-brand-700">
+        <div className="p-4 border-b border-brand-800 flex justify-between items-center">
+          <h3 className="font-bold text-xl text-white">AI 設定</h3>
+          <button onClick={onClose} className="text-stone-400 hover:text-white px-3">關閉</button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-xs text-stone-400 mb-1">服務提供者</label>
+            <select
+              value={draft.provider}
+              onChange={(e) => changeProvider(e.target.value as AIProviderKind)}
+              className={inputClass}
+            >
+              {AI_PROVIDERS.map(p => (
+                <option key={p.provider} value={p.provider}>{p.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {draft.provider !== 'mock' && (
+            <div>
+              <label className="block text-xs text-stone-400 mb-1">模型</label>
+              <input
+                type="text"
+                value={draft.model}
+                onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                placeholder={info.defaultModel}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {info.needsEndpoint && (
+            <div>
+              <label className="block text-xs text-stone-400 mb-1">端點 URL</label>
+              <input
+                type="text"
+                value={draft.endpoint}
+                onChange={(e) => setDraft({ ...draft, endpoint: e.target.value })}
+                placeholder={info.defaultEndpoint}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          )}
+
+          {info.needsApiKey && (
+            <div>
+              <label className="block text-xs text-stone-400 mb-1">API 金鑰</label>
+              <input
+                type="password"
+                value={draft.apiKey}
+                onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                placeholder="貼上金鑰..."
+                className={`${inputClass} font-mono`}
+              />
+              <p className="text-[10px] text-stone-500 mt-1">金鑰只會儲存在這個瀏覽器中。</p>
+            </div>
+          )}
+
+          {draft.provider === 'mock' && (
+            <p className="text-xs text-soup">模擬模式不連網，會依歌詞內容回傳固定的假結果，只適合離線示範與測試；結果會標示為「模擬」。</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-brand-800 flex justify-end gap-2">
+          <button onClick={onClose} className="text-stone-400 hover:text-white px-3">取消</button>
+          <button
+            onClick={handleSave}
+            className="bg-noodle text-brand-900 px-4 py-1.5 rounded-lg font-bold hover:bg-yellow-400"
+          >
+            儲存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsPanel;
\ No newline at end of file
@@ -1,6 +1,18 @@
 
 import React from 'react';
-import { VisualSettings, ThemeStyle, AnimationType } from '../types';
+import { VisualSettings, ThemeStyle, AnimationType, AspectRatio, LyricTrack, TrackPosition, TrackAlign, EffectLayer, RendererKind, ParticleShape } from '../types';
+import { SUBTITLE_FILE_ACCEPT } from '../utils/srtParser';
+import { ASPECT_RATIO_LABELS, RESOLUTION_OPTIONS, getOutputSize } from '../utils/canvasFormat';
+import { PROJECT_FILE_ACCEPT, RecentProject } from '../services/projectFile';
+import { TIMING_PROVIDERS, TimingProvider } from '../services/lyricAlignment';
+import { MANUAL_TRANSLATION, TRANSLATION_LANGUAGES, translationLabel } from '../utils/translations';
+import { TRACK_POSITIONS, TRACK_ALIGNS, TRACK_PRESETS, LYRIC_ANCHORS, addPresetTrack } from '../utils/lyricTracks';
+import { RUBY_SYSTEMS } from '../utils/ruby';
+import { FONTS, FONT_WEIGHTS, TEXT_GRADIENTS, WRITING_MODES, ANIMATION_LABELS, THEME_LABELS } from '../utils/lineStyles';
+import { FONT_FILE_ACCEPT, CustomFont } from '../services/fonts';
+import { EFFECT_PLUGINS, PARTICLE_PRESETS, PARTICLE_SHAPES, getEffectPlugin, createEffectLayer } from '../effects';
+import { isWebGL2Supported } from '../webgl/compositor';
+import TypographyPreview from './TypographyPreview';
 
 interface ControlsProps {
   settings: VisualSettings;
@@ -12,32 +24,46 @@ interface ControlsProps {
   onSrtUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onTranslate: () => void;
   isTranslating: boolean;
+  translateProgress: number; // 0..1 of translation chunks done
+  translationTarget: string;
+  onTranslationTargetChange: (code: string) => void;
   onSmartTiming: () => void;
-  isTiming: boolean;
+  timingRun: TimingProvider | null; // provider of the run in progress
+  timingProvider: TimingProvider;
+  onTimingProviderChange: (provider: TimingProvider) => void;
+  onOpenAISettings: () => void;
   onManualSync: () => void;
+  onSaveProject: () => void;
+  onOpenProject: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onOpenRecentProject: (id: string) => void;
+  recentProjects: RecentProject[];
+  isProjectBusy: boolean;
+  onOpenHistory: () => void;
+  customFonts: CustomFont[];
+  onFontUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onRemoveFont: (font: CustomFont) => void;
 }
 
-const FONTS = [
-  { name: 'Noto Serif TC', label: 'Noto Serif (文青)' },
-  { name: 'Montserrat', label: 'Montserrat (現代)' },
-  { name: 'Inter', label: 'Inter (簡約)' },
-  { name: 'Times New Roman', label: 'Serif (經典)' },
-  { name: 'Courier New', label: 'Mono (代碼)' },
+const RENDERERS: { kind: RendererKind; label: string }[] = [
+  { kind: 'canvas2d', label: 'Canvas 2D' },
+  { kind: 'webgl', label: 'WebGL2 (GPU)' },
 ];
 
-const ANIMATION_LABELS: Record<AnimationType, string> = {
-  [AnimationType.FADE]: '淡入 (Fade)',
-  [AnimationType.SLIDE_UP]: '上滑 (Slide Up)',
-  [AnimationType.ZOOM]: '縮放 (Zoom)',
-  [AnimationType.BOUNCE]: '彈跳 (Bounce)',
-};
+const POST_EFFECTS: { key: 'bloomStrength' | 'chromaticAberration' | 'filmGrain' | 'beatZoom'; label: string }[] = [
+  { key: 'bloomStrength', label: '光暈' },
+  { key: 'chromaticAberration', label: '色差' },
+  { key: 'filmGrain', label: '底片顆粒' },
+  { key: 'beatZoom', label: '節拍縮放' },
+];
 
-const THEME_LABELS: Record<ThemeStyle, string> = {
-  [ThemeStyle.NEON]: '霓虹 (Neon)',
-  [ThemeStyle.MINIMAL]: '極簡 (Minimal)',
-  [ThemeStyle.NATURE]: '自然 (Nature)',
-  [ThemeStyle.FIERY]: '熾熱 (Fiery)',
-};
+// Spacing is a share of the font size; outline and shadow are in design units
+const TYPOGRAPHY_SLIDERS: { key: 'letterSpacing' | 'lineHeight' | 'outlineWidth' | 'textShadowDistance' | 'textShadowBlur'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'letterSpacing', label: '字距', min: -0.1, max: 0.5, step: 0.01 },
+  { key: 'lineHeight', label: '行高', min: 0.8, max: 2.5, step: 0.05 },
+  { key: 'outlineWidth', label: '描邊粗細', min: 0, max: 20, step: 0.5 },
+  { key: 'textShadowDistance', label: '陰影距離', min: 0, max: 30, step: 1 },
+  { key: 'textShadowBlur', label: '陰影模糊', min: 0, max: 40, step: 1 },
+];
 
 const Controls: React.FC<ControlsProps> = ({ 
   settings, 
@@ -49,10 +75,53 @@ const Controls: React.FC<ControlsProps> = ({
   onSrtUpload,
   onTranslate,
   isTranslating,
+  translateProgress,
+  translationTarget,
+  onTranslationTargetChange,
   onSmartTiming,
-  isTiming,
-  onManualSync
+  timingRun,
+  timingProvider,
+  onTimingProviderChange,
+  onOpenAISettings,
+  onManualSync,
+  onSaveProject,
+  onOpenProject,
+  onOpenRecentProject,
+  recentProjects,
+  isProjectBusy,
+  onOpenHistory,
+  customFonts,
+  onFontUpload,
+  onRemoveFont
 }) => {
+  const updateTrack = (id: string, patch: Partial<LyricTrack>) => {
+    updateSettings({ tracks: settings.tracks.map(t => t.id === id ? { ...t, ...patch } : t) });
+  };
+
+  // Order decides stacking within a band, e.g. romanization placed above the main line
+  const moveTrack = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= settings.tracks.length) return;
+    const tracks = [...settings.tracks];
+    [tracks[index], tracks[target]] = [tracks[target], tracks[index]];
+    updateSettings({ tracks });
+  };
+
+  const webglSupported = isWebGL2Supported();
+
+  const updateLayer = (id: string, patch: Partial<EffectLayer>) => {
+    updateSettings({ effectLayers: settings.effectLayers.map(l => l.id === id ? { ...l, ...patch } : l) });
+  };
+
+  // Later layers draw over earlier ones
+  const moveLayer = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= settings.effectLayers.length) return;
+    const effectLayers = [...settings.effectLayers];
+    [effectLayers[index], effectLayers[target]] = [effectLayers[target], effectLayers[index]];
+    updateSettings({ effectLayers });
+  };
+
   return (
     <div className="bg-brand-900 border-l border-brand-800 p-6 h-full overflow-y-auto w-full md:w-80 flex-shrink-0 font-sans">
       <div className="mb-6 pb-4 border-b border-brand-800">
@@ -62,6 +131,46 @@ const Controls: React.FC<ControlsProps> = ({
 
       <div className="space-y-6">
         
+        {/* Project File */}
+        <div className="pb-4 border-b border-brand-800">
+           <label className="block text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">專案檔案</label>
+           <div className="grid grid-cols-2 gap-2">
+             <button 
+               onClick={onSaveProject}
+               disabled={isProjectBusy}
+               className="py-2 bg-noodle text-brand-900 hover:bg-soup rounded-md text-sm font-bold transition-colors disabled:opacity-50"
+             >
+               {isProjectBusy ? '處理中...' : '儲存專案'}
+             </button>
+             <label className={`cursor-pointer py-2 border border-stone-600 text-stone-300 hover:bg-brand-800 hover:text-white rounded-md text-sm font-medium transition-colors text-center ${isProjectBusy ? 'opacity-50 pointer-events-none' : ''}`}>
+               開啟專案
+               <input type="file" accept={PROJECT_FILE_ACCEPT} onChange={onOpenProject} className="hidden" />
+             </label>
+           </div>
+           <button
+             onClick={onOpenHistory}
+             className="mt-2 w-full py-1.5 text-xs text-stone-400 hover:text-noodle transition-colors"
+           >
+             版本紀錄（自動儲存）
+           </button>
+           {recentProjects.length > 0 && (
+             <div className="mt-3 space-y-1">
+               <div className="text-xs text-stone-500">最近專案</div>
+               {recentProjects.map(project => (
+                 <button
+                   key={project.id}
+                   onClick={() => onOpenRecentProject(project.id)}
+                   disabled={isProjectBusy}
+                   className="w-full flex justify-between items-center gap-2 px-2 py-1.5 bg-brand-800 hover:bg-brand-700 rounded text-xs text-stone-300 transition-colors disabled:opacity-50"
+                 >
+                   <span className="truncate">{project.name}</span>
+                   <span className="text-stone-500 flex-shrink-0">{new Date(project.savedAt).toLocaleDateString()}</span>
+                 </button>
+               ))}
+             </div>
+           )}
+        </div>
+
         {/* Project Links / Resources */}
         <div className="pb-4 border-b border-brand-800">
            <label className="block text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">專案資源庫 (Drive)</label>
@@ -101,21 +210,21 @@ const Controls: React.FC<ControlsProps> = ({
              </button>
              <label className="cursor-pointer py-2 border border-stone-600 text-stone-300 hover:bg-brand-800 hover:text-white rounded-md text-sm font-medium transition-colors flex items-center justify-center gap-2 text-center">
                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"></path></svg>
-               匯入 SRT
-               <input type="file" accept=".srt" onChange={onSrtUpload} className="hidden" />
+               匯入字幕
+               <input type="file" accept={SUBTITLE_FILE_ACCEPT} onChange={onSrtUpload} className="hidden" />
              </label>
            </div>
 
            <div className="space-y-2">
-             <div className="text-xs text-stone-500">背景圖片</div>
+             <div className="text-xs text-stone-500">背景圖片 / 影片</div>
              <div className="flex items-center gap-2">
                <label className="flex-1 cursor-pointer py-2 px-3 bg-brand-800 hover:bg-brand-700 rounded-md text-xs text-center text-stone-300 border border-brand-700 transition-colors truncate">
-                 {settings.backgroundImage ? '更換圖片' : '選擇背景圖片'}
-                 <input type="file" accept="image/*" onChange={onBgUpload} className="hidden" />
+                 {settings.backgroundImage || settings.backgroundVideo ? '更換背景' : '選擇背景圖片或影片'}
+                 <input type="file" accept="image/*,video/*" onChange={onBgUpload} className="hidden" />
                </label>
-               {settings.backgroundImage && (
+               {(settings.backgroundImage || settings.backgroundVideo) && (
                  <button 
-                   onClick={() => updateSettings({ backgroundImage: undefined })}
+                   onClick={() => updateSettings({ backgroundImage: undefined, backgroundVideo: undefined })}
                    className="p-2 text-red-400 hover:text-red-300 hover:bg-red-900/30 rounded-md"
                    title="移除背景"
                  >
@@ -130,6 +239,13 @@ const Controls: React.FC<ControlsProps> = ({
         <div className="p-4 bg-brand-800 rounded-lg border border-brand-700">
           <h3 className="text-sm font-semibold text-soup mb-2 flex items-center gap-2">
             ✨ AI 工具箱 & 時間
+            <button
+              onClick={onOpenAISettings}
+              className="ml-auto p-1 text-stone-400 hover:text-noodle transition-colors"
+              title="AI 設定"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
+            </button>
           </h3>
           <div className="space-y-2">
             <button 
@@ -144,27 +260,55 @@ const Controls: React.FC<ControlsProps> = ({
 
             <button 
               onClick={onAutoTheme}
-              disabled={isGeneratingTheme}
               className="w-full py-2 bg-brand-700 hover:bg-brand-600 disabled:opacity-50 text-stone-200 rounded-md text-xs font-medium transition-colors"
             >
-              {isGeneratingTheme ? '分析中...' : '自動生成主題'}
+              {isGeneratingTheme ? '分析中... (點擊取消)' : '自動生成主題'}
             </button>
 
-            <button 
-              onClick={onSmartTiming}
-              disabled={isTiming}
-              className="w-full py-2 bg-brand-700 hover:bg-brand-600 disabled:opacity-50 text-stone-200 rounded-md text-xs font-medium transition-colors"
-            >
-              {isTiming ? '分配中...' : 'AI 智能對時 (純文字用)'}
-            </button>
+            <div className="flex rounded-md overflow-hidden border border-brand-600">
+              <button 
+                onClick={onSmartTiming}
+                className="flex-1 py-2 bg-brand-700 hover:bg-brand-600 disabled:opacity-50 text-stone-200 text-xs font-medium transition-colors"
+              >
+                {timingRun ? '對時中... (點擊取消)' : '智能對時'}
+              </button>
+              <select
+                value={timingProvider}
+                onChange={(e) => onTimingProviderChange(e.target.value as TimingProvider)}
+                disabled={timingRun !== null}
+                className="bg-brand-900 text-stone-300 text-xs px-1 outline-none border-l border-brand-600"
+                title="對時方式"
+              >
+                {TIMING_PROVIDERS.map(p => (
+                  <option key={p.provider} value={p.provider}>{p.label}</option>
+                ))}
+              </select>
+            </div>
             
-            <button 
-              onClick={onTranslate}
-              disabled={isTranslating}
-              className="w-full py-2 bg-brand-700 hover:bg-brand-600 disabled:opacity-50 text-stone-200 rounded-md text-xs font-medium transition-colors"
-            >
-              {isTranslating ? '翻譯中...' : 'AI 翻譯歌詞 (繁中)'}
-            </button>
+            <div className="flex rounded-md overflow-hidden border border-brand-600">
+              <button 
+                onClick={onTranslate}
+                className="relative flex-1 py-2 bg-brand-700 hover:bg-brand-600 text-stone-200 text-xs font-medium transition-colors overflow-hidden"
+              >
+                {isTranslating && (
+                  <span className="absolute inset-y-0 left-0 bg-noodle/20 transition-all" style={{ width: `${translateProgress * 100}%` }} />
+                )}
+                <span className="relative">
+                  {isTranslating ? `翻譯中 ${Math.round(translateProgress * 100)}% (點擊取消)` : 'AI 翻譯歌詞'}
+                </span>
+              </button>
+              <select
+                value={translationTarget}
+                onChange={(e) => onTranslationTargetChange(e.target.value)}
+                disabled={isTranslating}
+                className="bg-brand-900 text-stone-300 text-xs px-1 outline-none border-l border-brand-600"
+                title="目標語言"
+              >
+                {TRANSLATION_LANGUAGES.map(l => (
+                  <option key={l.code} value={l.code}>{l.label}</option>
+                ))}
+              </select>
+            </div>
           </div>
         </div>
 
@@ -180,6 +324,83 @@ const Controls: React.FC<ControlsProps> = ({
               />
               <label htmlFor="showTranslation" className="text-xs font-bold text-stone-400 uppercase tracking-wider select-none cursor-pointer">顯示翻譯字幕</label>
            </div>
+           {settings.showTranslation && (
+             <div className="grid grid-cols-2 gap-2">
+               {[0, 1].map(slot => (
+                 <div key={slot}>
+                   <label className="block text-[10px] text-stone-500 mb-1">{slot === 0 ? '第一語言' : '第二語言'}</label>
+                   <select
+                     value={settings.translationLanguages[slot] || ''}
+                     onChange={(e) => {
+                       const next = [...settings.translationLanguages];
+                       if (e.target.value) next[slot] = e.target.value;
+                       else next.splice(slot, 1);
+                       updateSettings({ translationLanguages: next.filter((code, i) => code && next.indexOf(code) === i) });
+                     }}
+                     className="w-full bg-brand-800 text-stone-200 text-xs rounded-md border border-brand-700 p-1.5 focus:ring-1 focus:ring-noodle outline-none"
+                   >
+                     {slot === 1 && <option value="">無</option>}
+                     {[MANUAL_TRANSLATION, ...TRANSLATION_LANGUAGES.map(l => l.code)].map(code => (
+                       <option key={code} value={code}>{translationLabel(code)}</option>
+                     ))}
+                   </select>
+                 </div>
+               ))}
+             </div>
+           )}
+        </div>
+
+        {/* Ruby Annotations */}
+        <div>
+           <div className="flex items-center gap-2 mb-2">
+              <input 
+                type="checkbox" 
+                id="showRuby"
+                checked={settings.showRuby}
+                onChange={(e) => updateSettings({ showRuby: e.target.checked })}
+                className="rounded text-noodle focus:ring-noodle bg-brand-800 border-brand-700"
+              />
+              <label htmlFor="showRuby" className="text-xs font-bold text-stone-400 uppercase tracking-wider select-none cursor-pointer">顯示注音 / 拼音</label>
+           </div>
+           {settings.showRuby && (
+             <div className="space-y-2">
+               <div className="grid grid-cols-3 gap-2">
+                 {RUBY_SYSTEMS.map(({ system, label }) => (
+                   <button
+                     key={system}
+                     onClick={() => updateSettings({ rubySystem: system })}
+                     className={`py-1.5 text-[11px] rounded border transition-all ${
+                       settings.rubySystem === system
+                         ? 'bg-noodle border-noodle text-brand-900 font-bold'
+                         : 'bg-transparent border-brand-700 text-stone-400 hover:border-brand-500'
+                     }`}
+                   >
+                     {label}
+                   </button>
+                 ))}
+               </div>
+               <div className="flex items-center gap-2">
+                 <input
+                   type="color"
+                   value={settings.rubyColor}
+                   onChange={(e) => updateSettings({ rubyColor: e.target.value })}
+                   className="w-6 h-6 rounded cursor-pointer bg-transparent border-none flex-shrink-0"
+                   title="注音顏色"
+                 />
+                 <span className="text-[10px] text-stone-500 w-16">大小 {Math.round(settings.rubyScale * 100)}%</span>
+                 <input
+                   type="range"
+                   min="0.15"
+                   max="0.6"
+                   step="0.05"
+                   value={settings.rubyScale}
+                   onChange={(e) => updateSettings({ rubyScale: Number(e.target.value) })}
+                   className="flex-1 accent-noodle h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
+                 />
+               </div>
+               <p className="text-[10px] text-stone-500">讀音取自內建字典，可在歌詞編輯器中逐行修改。</p>
+             </div>
+           )}
         </div>
 
         {/* Animation Selection */}
@@ -224,6 +445,228 @@ const Controls: React.FC<ControlsProps> = ({
           </div>
         </div>
 
+        {/* Lyric Placement */}
+        <div>
+          <label className="block text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">歌詞位置</label>
+          <div className="space-y-3">
+            <div className="grid grid-cols-4 gap-1">
+              {LYRIC_ANCHORS.map(({ anchor, label }) => (
+                <button
+                  key={anchor}
+                  onClick={() => updateSettings({ lyricAnchor: anchor })}
+                  className={`py-1 text-xs rounded border transition-all ${
+                    settings.lyricAnchor === anchor
+                      ? 'bg-noodle border-noodle text-brand-900 font-bold'
+                      : 'bg-transparent border-brand-700 text-stone-400 hover:border-brand-500'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-1">
+              {TRACK_ALIGNS.map(({ align, label }) => (
+                <button
+                  key={align}
+                  onClick={() => updateSettings({ lyricAlign: align })}
+                  className={`py-1 text-xs rounded border transition-all ${
+                    settings.lyricAlign === align
+                      ? 'bg-noodle border-noodle text-brand-900 font-bold'
+                      : 'bg-transparent border-brand-700 text-stone-400 hover:border-brand-500'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className="text-[10px] text-stone-500 block mb-1">水平位移 ({Math.round(settings.lyricOffsetX * 100)}%)</span>
+                <input
+                  type="range"
+                  min="-0.5"
+                  max="0.5"
+                  step="0.01"
+                  value={settings.lyricOffsetX}
+                  onChange={(e) => updateSettings({ lyricOffsetX: Number(e.target.value) })}
+                  className="w-full accent-noodle h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+              <div>
+                <span className="text-[10px] text-stone-500 block mb-1">垂直位移 ({Math.round(settings.lyricOffsetY * 100)}%)</span>
+                <input
+                  type="range"
+                  min="-0.5"
+                  max="0.5"
+                  step="0.01"
+                  value={settings.lyricOffsetY}
+                  onChange={(e) => updateSettings({ lyricOffsetY: Number(e.target.value) })}
+                  className="w-full accent-noodle h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+            </div>
+            <div className="flex items-start justify-between gap-2">
+              <p className="text-[10px] text-stone-500 leading-relaxed">
+                在預覽畫面拖曳歌詞可調整單行位置，按住 Shift 拖曳則移動全部歌詞。
+              </p>
+              <button
+                onClick={() => updateSettings({ lyricOffsetX: 0, lyricOffsetY: 0 })}
+                disabled={settings.lyricOffsetX === 0 && settings.lyricOffsetY === 0}
+                className="flex-shrink-0 px-2 py-1 text-[11px] rounded border border-brand-700 text-stone-400 hover:border-noodle hover:text-noodle disabled:opacity-30"
+              >
+                歸零
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Lyric Tracks */}
+        <div>
+          <label className="block text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">歌詞軌道</label>
+          <div className="space-y-2">
+            {settings.tracks.map((track, index) => (
+              <div key={track.id} className="p-2 bg-brand-800 rounded-lg border border-brand-700 space-y-2">
+                <div className="flex items-center gap-1">
+                  <input
+                    type="color"
+                    value={track.color}
+                    onChange={(e) => updateTrack(track.id, { color: e.target.value })}
+                    className="w-6 h-6 rounded cursor-pointer bg-transparent border-none flex-shrink-0"
+                    title="文字顏色"
+                  />
+                  <input
+                    type="text"
+                    value={track.name}
+                    onChange={(e) => updateTrack(track.id, { name: e.target.value })}
+                    className="flex-1 min-w-0 bg-brand-900 text-stone-200 text-xs rounded border border-brand-700 px-2 py-1 outline-none focus:border-noodle"
+                  />
+                  <button onClick={() => moveTrack(index, -1)} disabled={index === 0} className="text-stone-500 hover:text-white disabled:opacity-30 px-1 text-xs" title="上移">↑</button>
+                  <button onClick={() => moveTrack(index, 1)} disabled={index === settings.tracks.length - 1} className="text-stone-500 hover:text-white disabled:opacity-30 px-1 text-xs" title="下移">↓</button>
+                  <button
+                    onClick={() => updateSettings({ tracks: settings.tracks.filter(t => t.id !== track.id) })}
+                    disabled={settings.tracks.length === 1}
+                    className="text-red-500 hover:text-red-400 disabled:opacity-30 px-1 text-xs"
+                    title="刪除軌道（歌詞會移到第一條軌道）"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 gap-1">
+                  <select
+                    value={track.position || ''}
+                    onChange={(e) => updateTrack(track.id, { position: (e.target.value || undefined) as TrackPosition | undefined })}
+                    className="bg-brand-900 text-stone-300 text-[11px] rounded border border-brand-700 p-1 outline-none"
+                    title="位置"
+                  >
+                    <option value="">預設位置</option>
+                    {TRACK_POSITIONS.map(p => <option key={p.position} value={p.position}>{p.label}</option>)}
+                  </select>
+                  <select
+                    value={track.align || ''}
+                    onChange={(e) => updateTrack(track.id, { align: (e.target.value || undefined) as TrackAlign | undefined })}
+                    className="bg-brand-900 text-stone-300 text-[11px] rounded border border-brand-700 p-1 outline-none"
+                    title="對齊"
+                  >
+                    <option value="">預設對齊</option>
+                    {TRACK_ALIGNS.map(a => <option key={a.align} value={a.align}>{a.label}</option>)}
+                  </select>
+                  <select
+                    value={track.animationType || ''}
+                    onChange={(e) => updateTrack(track.id, { animationType: (e.target.value || undefined) as AnimationType | undefined })}
+                    className="bg-brand-900 text-stone-300 text-[11px] rounded border border-brand-700 p-1 outline-none"
+                    title="動畫"
+                  >
+                    <option value="">預設動畫</option>
+                    {Object.values(AnimationType).map(type => <option key={type} value={type}>{ANIMATION_LABELS[type]}</option>)}
+                  </select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] text-stone-500 w-16">大小 {Math.round(track.scale * 100)}%</span>
+                  <input
+                    type="range"
+                    min="0.3"
+                    max="1.5"
+                    step="0.05"
+                    value={track.scale}
+                    onChange={(e) => updateTrack(track.id, { scale: Number(e.target.value) })}
+                    className="flex-1 accent-noodle h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
+                  />
+                </div>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-1">
+              {TRACK_PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => updateSettings({ tracks: addPresetTrack(settings.tracks, preset) })}
+                  className="px-2 py-1 text-[11px] rounded border border-dashed border-brand-600 text-stone-400 hover:border-noodle hover:text-noodle"
+                >
+                  + {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Canvas Format */}
+        <div>
+          <label className="block text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">畫面比例</label>
+          <div className="grid grid-cols-3 gap-2 mb-3">
+            {Object.values(AspectRatio).map((aspect) => (
+              <button
+                key={aspect}
+                onClick={() => updateSettings({ aspectRatio: aspect })}
+                className={`py-2 px-1 text-[11px] rounded border transition-all leading-tight ${
+                  settings.aspectRatio === aspect
+                    ? 'bg-noodle border-noodle text-brand-900 font-bold'
+                    : 'bg-transparent border-brand-700 text-stone-400 hover:border-brand-500'
+                }`}
+              >
+                {ASPECT_RATIO_LABELS[aspect]}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-stone-500">輸出解析度</span>
+            <select
+              value={settings.resolution}
+              onChange={(e) => updateSettings({ resolution: Number(e.target.value) })}
+              className="bg-brand-800 text-stone-200 text-xs rounded-md border border-brand-700 p-2 focus:ring-1 focus:ring-noodle outline-none"
+            >
+              {RESOLUTION_OPTIONS.map(res => {
+                const size = getOutputSize(settings.aspectRatio, res);
+                return <option key={res} value={res}>{size.width} × {size.height}</option>;
+              })}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2 mt-3">
+            <div>
+              <span className="text-[10px] text-stone-500 block mb-1">左右安全邊界 ({Math.round(settings.safeMarginX * 100)}%)</span>
+              <input
+                type="range"
+                min="0"
+                max="0.2"
+                step="0.01"
+                value={settings.safeMarginX}
+                onChange={(e) => updateSettings({ safeMarginX: Number(e.target.value) })}
+                className="w-full accent-noodle h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+            <div>
+              <span className="text-[10px] text-stone-500 block mb-1">上下安全邊界 ({Math.round(settings.safeMarginY * 100)}%)</span>
+              <input
+                type="range"
+                min="0"
+                max="0.2"
+                step="0.01"
+                value={settings.safeMarginY}
+                onChange={(e) => updateSettings({ safeMarginY: Number(e.target.value) })}
+                className="w-full accent-noodle h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          </div>
+        </div>
+
         {/* Style Selection */}
         <div>
           <label className="block text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">視覺風格</label>
@@ -290,19 +733,148 @@ const Controls: React.FC<ControlsProps> = ({
                {FONTS.map(font => (
                  <option key={font.name} value={font.name}>{font.label}</option>
                ))}
+               {customFonts.length > 0 && (
+                 <optgroup label="上傳的字型">
+                   {customFonts.map(font => (
+                     <option key={font.id} value={font.family}>{font.family}</option>
+                   ))}
+                 </optgroup>
+               )}
              </select>
 
+             <div className="space-y-1">
+               {customFonts.map(font => (
+                 <div key={font.id} className="flex items-center gap-2 text-xs text-stone-400">
+                   <span className="flex-1 truncate" style={{ fontFamily: `"${font.family}"` }} title={font.fileName}>{font.family}</span>
+                   <button
+                     onClick={() => onRemoveFont(font)}
+                     className="px-1 text-stone-500 hover:text-red-400"
+                     title="移除字型"
+                   >
+                     ✕
+                   </button>
+                 </div>
+               ))}
+               <label className="block w-full py-1.5 text-center text-xs rounded border border-dashed border-brand-700 text-stone-400 hover:border-noodle hover:text-noodle cursor-pointer transition-colors">
+                 + 上傳字型 (TTF / OTF / WOFF2)
+                 <input type="file" accept={FONT_FILE_ACCEPT} onChange={onFontUpload} className="hidden" />
+               </label>
+             </div>
+
+             <div>
+                <span className="text-xs text-stone-500 block mb-1">字重</span>
+                <div className="grid grid-cols-5 gap-1">
+                  {FONT_WEIGHTS.map(({ weight, label }) => (
+                    <button
+                      key={weight}
+                      onClick={() => updateSettings({ fontWeight: weight })}
+                      style={{ fontWeight: weight }}
+                      className={`py-1 text-xs rounded border transition-all ${
+                        settings.fontWeight === weight
+                          ? 'bg-noodle border-noodle text-brand-900'
+                          : 'bg-transparent border-brand-700 text-stone-400 hover:border-brand-500'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+             </div>
+
              <div>
                 <span className="text-xs text-stone-500 block mb-1">字體大小 ({settings.fontSize}px)</span>
                 <input 
                   type="range" 
-                  min="20" 
-                  max="120" 
+                  min="30" 
+                  max="200" 
                   value={settings.fontSize}
                   onChange={(e) => updateSettings({ fontSize: Number(e.target.value) })}
                   className="w-full accent-noodle h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
                 />
              </div>
+
+             <TypographyPreview settings={settings} />
+
+             <div className="grid grid-cols-2 gap-1">
+               {WRITING_MODES.map(({ mode, label }) => (
+                 <button
+                   key={mode}
+                   onClick={() => updateSettings({ writingMode: mode })}
+                   className={`py-1 text-xs rounded border transition-all ${
+                     settings.writingMode === mode
+                       ? 'bg-noodle border-noodle text-brand-900 font-bold'
+                       : 'bg-transparent border-brand-700 text-stone-400 hover:border-brand-500'
+                   }`}
+                 >
+                   {label}
+                 </button>
+               ))}
+             </div>
+
+             <div>
+                <span className="text-xs text-stone-500 block mb-1">填色 (漸層使用主色 → 次色)</span>
+                <div className="grid grid-cols-3 gap-1">
+                  {TEXT_GRADIENTS.map(({ gradient, label }) => (
+                    <button
+                      key={gradient}
+                      onClick={() => updateSettings({ textGradient: gradient })}
+                      className={`py-1 text-xs rounded border transition-all ${
+                        settings.textGradient === gradient
+                          ? 'bg-noodle border-noodle text-brand-900 font-bold'
+                          : 'bg-transparent border-brand-700 text-stone-400 hover:border-brand-500'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+             </div>
+
+             {TYPOGRAPHY_SLIDERS.map(({ key, label, min, max, step }) => (
+               <div key={key}>
+                  <span className="text-xs text-stone-500 block mb-1">{label} ({settings[key]})</span>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={settings[key]}
+                    onChange={(e) => updateSettings({ [key]: Number(e.target.value) })}
+                    className="w-full accent-noodle h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
+                  />
+               </div>
+             ))}
+
+             <div className="flex items-center justify-between">
+               <label className="flex items-center gap-2 text-xs text-stone-400">
+                 <input
+                   type="checkbox"
+                   checked={settings.outlineColor !== ''}
+                   onChange={(e) => updateSettings({ outlineColor: e.target.checked ? settings.primaryColor : '' })}
+                   className="accent-noodle"
+                 />
+                 自訂描邊顏色
+               </label>
+               {settings.outlineColor ? (
+                 <input
+                   type="color"
+                   value={settings.outlineColor}
+                   onChange={(e) => updateSettings({ outlineColor: e.target.value })}
+                   className="w-6 h-6 rounded cursor-pointer bg-transparent border-none"
+                 />
+               ) : (
+                 <span className="text-[11px] text-stone-500">跟隨主題</span>
+               )}
+             </div>
+             <div className="flex items-center justify-between">
+               <span className="text-xs text-stone-400">陰影顏色</span>
+               <input
+                 type="color"
+                 value={settings.textShadowColor}
+                 onChange={(e) => updateSettings({ textShadowColor: e.target.value })}
+                 className="w-6 h-6 rounded cursor-pointer bg-transparent border-none"
+               />
+             </div>
           </div>
         </div>
 
@@ -311,11 +883,76 @@ const Controls: React.FC<ControlsProps> = ({
           <label className="block text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">特效</label>
           <div className="space-y-4">
              <div>
-                <span className="text-xs text-stone-500 block mb-1">粒子數量</span>
+                <span className="text-xs text-stone-500 block mb-1">粒子發射器</span>
+                <div className="grid grid-cols-3 gap-1">
+                  {PARTICLE_PRESETS.map(preset => (
+                    <button
+                      key={preset.id}
+                      onClick={() => updateSettings({
+                        particlePreset: preset.id,
+                        particleShape: preset.shape,
+                        particleGravity: preset.gravity,
+                        particleWind: preset.wind,
+                      })}
+                      className={`py-1 text-xs rounded border transition-all ${
+                        settings.particlePreset === preset.id
+                          ? 'bg-soup border-soup text-white font-bold'
+                          : 'bg-transparent border-brand-700 text-stone-400 hover:border-brand-500'
+                      }`}
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                </div>
+                {settings.particlePreset === 'lyric' && (
+                  <p className="text-[11px] text-stone-500 mt-1">粒子會聚成目前的歌詞，數量越多字形越清楚</p>
+                )}
+             </div>
+             <div>
+                <span className="text-xs text-stone-500 block mb-1">粒子形狀</span>
+                <select
+                  value={settings.particleShape}
+                  onChange={(e) => updateSettings({ particleShape: e.target.value as ParticleShape })}
+                  className="w-full bg-brand-800 text-stone-200 text-xs rounded-md border border-brand-700 p-1.5 focus:ring-1 focus:ring-noodle outline-none"
+                >
+                  {PARTICLE_SHAPES.map(({ shape, label }) => (
+                    <option key={shape} value={shape}>{label}</option>
+                  ))}
+                </select>
+             </div>
+             <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <span className="text-xs text-stone-500 block mb-1">重力 {settings.particleGravity.toFixed(3)}</span>
+                  <input
+                    type="range"
+                    min="-0.1"
+                    max="0.2"
+                    step="0.005"
+                    value={settings.particleGravity}
+                    onChange={(e) => updateSettings({ particleGravity: Number(e.target.value) })}
+                    className="w-full accent-soup h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
+                  />
+                </div>
+                <div>
+                  <span className="text-xs text-stone-500 block mb-1">風力 {settings.particleWind.toFixed(3)}</span>
+                  <input
+                    type="range"
+                    min="-0.1"
+                    max="0.1"
+                    step="0.005"
+                    value={settings.particleWind}
+                    onChange={(e) => updateSettings({ particleWind: Number(e.target.value) })}
+                    className="w-full accent-soup h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
+                  />
+                </div>
+             </div>
+             <div>
+                <span className="text-xs text-stone-500 block mb-1">粒子數量 {settings.particleCount}</span>
                 <input 
                   type="range" 
                   min="0" 
-                  max="200" 
+                  max="1000" 
+                  step="10"
                   value={settings.particleCount}
                   onChange={(e) => updateSettings({ particleCount: Number(e.target.value) })}
                   className="w-full accent-soup h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
@@ -336,6 +973,106 @@ const Controls: React.FC<ControlsProps> = ({
           </div>
         </div>
 
+        {/* Effect Layers */}
+        <div>
+          <label className="block text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">畫面圖層</label>
+          <div className="space-y-2">
+            {settings.effectLayers.length === 0 && (
+              <p className="text-[11px] text-stone-500">沒有圖層，只顯示背景與歌詞</p>
+            )}
+            {settings.effectLayers.map((layer, index) => (
+              <div key={layer.id} className={`p-2 bg-brand-800 rounded-lg border border-brand-700 space-y-2 ${layer.enabled ? '' : 'opacity-50'}`}>
+                <div className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={layer.enabled}
+                    onChange={(e) => updateLayer(layer.id, { enabled: e.target.checked })}
+                    className="accent-noodle"
+                    title="顯示圖層"
+                  />
+                  <span className="flex-1 text-xs text-stone-200 truncate">
+                    {getEffectPlugin(layer.effect)?.label || layer.effect}
+                  </span>
+                  <button onClick={() => moveLayer(index, -1)} disabled={index === 0} className="text-stone-500 hover:text-white disabled:opacity-30 px-1 text-xs" title="移到後方">↑</button>
+                  <button onClick={() => moveLayer(index, 1)} disabled={index === settings.effectLayers.length - 1} className="text-stone-500 hover:text-white disabled:opacity-30 px-1 text-xs" title="移到前方">↓</button>
+                  <button
+                    onClick={() => updateSettings({ effectLayers: settings.effectLayers.filter(l => l.id !== layer.id) })}
+                    className="text-red-500 hover:text-red-400 px-1 text-xs"
+                    title="刪除圖層"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] text-stone-500 w-16">透明度 {Math.round(layer.opacity * 100)}%</span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={layer.opacity}
+                    onChange={(e) => updateLayer(layer.id, { opacity: Number(e.target.value) })}
+                    className="flex-1 accent-noodle h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
+                  />
+                </div>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-1">
+              {EFFECT_PLUGINS.map(plugin => (
+                <button
+                  key={plugin.id}
+                  onClick={() => updateSettings({ effectLayers: [...settings.effectLayers, createEffectLayer(plugin.id)] })}
+                  className="px-2 py-1 text-[11px] rounded border border-dashed border-brand-600 text-stone-400 hover:border-noodle hover:text-noodle"
+                >
+                  + {plugin.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Renderer */}
+        <div>
+          <label className="block text-xs font-bold text-stone-400 uppercase tracking-wider mb-2">渲染引擎</label>
+          <div className="grid grid-cols-2 gap-2">
+            {RENDERERS.map(({ kind, label }) => (
+              <button
+                key={kind}
+                onClick={() => updateSettings({ renderer: kind })}
+                disabled={kind === 'webgl' && !webglSupported}
+                className={`py-2 text-xs rounded border transition-all disabled:opacity-30 ${
+                  settings.renderer === kind
+                    ? 'bg-noodle border-noodle text-brand-900 font-bold'
+                    : 'bg-transparent border-brand-700 text-stone-400 hover:border-brand-500'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {!webglSupported && (
+            <p className="text-[10px] text-stone-500 mt-2">此瀏覽器不支援 WebGL2，使用 Canvas 2D 繪製</p>
+          )}
+          {settings.renderer === 'webgl' && webglSupported && (
+            <div className="grid grid-cols-2 gap-2 mt-3">
+              {POST_EFFECTS.map(({ key, label }) => (
+                <div key={key}>
+                  <span className="text-[10px] text-stone-500 block mb-1">{label} ({Math.round(settings[key] * 100)}%)</span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={settings[key]}
+                    onChange={(e) => updateSettings({ [key]: Number(e.target.value) })}
+                    className="w-full accent-noodle h-1 bg-brand-700 rounded-lg appearance-none cursor-pointer"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
       </div>
     </div>
   );
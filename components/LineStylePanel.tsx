@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { LineStyle, AnimationType, ThemeStyle } from '../types';
+import { FONTS, FONT_WEIGHTS, ANIMATION_LABELS, THEME_LABELS, SIZE_SCALE_OPTIONS } from '../utils/lineStyles';
+import { CustomFont } from '../services/fonts';
+
+interface LineStylePanelProps {
+  selectedCount: number;
+  customFonts: CustomFont[];
+  sections: string[]; // tags already in use, offered as suggestions
+  commonSection: string; // tag shared by every selected line, '' when none or mixed
+  onApplyToLines: (style: LineStyle) => void;
+  onClearLines: () => void;
+  onTagSection: (tag: string) => void; // '' removes the tag
+  onApplyToSection: (style: LineStyle) => void;
+  onClearSection: () => void;
+  hasSectionStyle: boolean;
+  onAddKeyframe: (at: number, style: LineStyle) => void; // at: share of each line's duration
+  onClearKeyframes: () => void;
+  hasKeyframes: boolean;
+  onClearSelection: () => void;
+}
+
+// Style fields left unset in the draft are not touched when it is applied
+const LineStylePanel: React.FC<LineStylePanelProps> = ({
+  selectedCount,
+  customFonts,
+  sections,
+  commonSection,
+  onApplyToLines,
+  onClearLines,
+  onTagSection,
+  onApplyToSection,
+  onClearSection,
+  hasSectionStyle,
+  onAddKeyframe,
+  onClearKeyframes,
+  hasKeyframes,
+  onClearSelection
+}) => {
+  const [draft, setDraft] = useState<LineStyle>({});
+  const [tag, setTag] = useState(commonSection);
+  const [keyframePercent, setKeyframePercent] = useState(100);
+
+  const update = (patch: LineStyle) => setDraft(prev => ({ ...prev, ...patch }));
+  const hasDraft = Object.values(draft).some(value => value !== undefined);
+
+  const selectClass = "bg-brand-900 text-stone-300 text-xs rounded border border-brand-700 p-1 outline-none focus:border-noodle";
+  const buttonClass = "px-2 py-1 text-xs rounded border border-brand-700 text-stone-300 hover:border-noodle hover:text-noodle disabled:opacity-30 disabled:hover:border-brand-700 disabled:hover:text-stone-300";
+
+  const colorField = (key: 'color' | 'highlightColor', label: string, fallback: string) => (
+    <label className="flex items-center gap-1 text-xs text-stone-400">
+      <input
+        type="checkbox"
+        checked={draft[key] !== undefined}
+        onChange={(e) => update({ [key]: e.target.checked ? fallback : undefined })}
+        className="accent-noodle"
+      />
+      {label}
+      <input
+        type="color"
+        value={draft[key] ?? fallback}
+        onChange={(e) => update({ [key]: e.target.value })}
+        className="w-5 h-5 rounded cursor-pointer bg-transparent border-none"
+      />
+    </label>
+  );
+
+  return (
+    <div className="sticky top-0 z-10 p-3 bg-brand-800 border border-noodle/60 rounded-lg shadow-xl space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-bold text-noodle">已選 {selectedCount} 行</span>
+        <input
+          type="text"
+          value={tag}
+          list="line-style-sections"
+          onChange={(e) => setTag(e.target.value)}
+          placeholder="段落標籤，例如 chorus"
+          className="flex-1 min-w-0 bg-brand-900 text-stone-200 text-xs rounded border border-brand-700 px-2 py-1 outline-none focus:border-noodle"
+        />
+        <datalist id="line-style-sections">
+          {sections.map(section => <option key={section} value={section} />)}
+        </datalist>
+        <button onClick={() => onTagSection(tag.trim())} className={buttonClass} title="清空標籤後按下可移除段落">
+          標記段落
+        </button>
+        <button onClick={onClearSelection} className="px-1 text-stone-500 hover:text-white text-xs" title="取消選取">✕</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={draft.fontFamily || ''}
+          onChange={(e) => update({ fontFamily: e.target.value || undefined })}
+          className={selectClass}
+          title="字體"
+        >
+          <option value="">字體不變</option>
+          {FONTS.map(font => <option key={font.name} value={font.name}>{font.label}</option>)}
+          {customFonts.map(font => <option key={font.id} value={font.family}>{font.family}</option>)}
+        </select>
+        <select
+          value={draft.fontWeight ?? ''}
+          onChange={(e) => update({ fontWeight: e.target.value ? Number(e.target.value) : undefined })}
+          className={selectClass}
+          title="字重"
+        >
+          <option value="">字重不變</option>
+          {FONT_WEIGHTS.map(({ weight, label }) => <option key={weight} value={weight}>{label} ({weight})</option>)}
+        </select>
+        <select
+          value={draft.sizeScale ?? ''}
+          onChange={(e) => update({ sizeScale: e.target.value ? Number(e.target.value) : undefined })}
+          className={selectClass}
+          title="大小"
+        >
+          <option value="">大小不變</option>
+          {SIZE_SCALE_OPTIONS.map(scale => <option key={scale} value={scale}>{Math.round(scale * 100)}%</option>)}
+        </select>
+        <select
+          value={draft.animationType || ''}
+          onChange={(e) => update({ animationType: (e.target.value || undefined) as AnimationType | undefined })}
+          className={selectClass}
+          title="動畫"
+        >
+          <option value="">動畫不變</option>
+          {Object.values(AnimationType).map(type => <option key={type} value={type}>{ANIMATION_LABELS[type]}</option>)}
+        </select>
+        <select
+          value={draft.style || ''}
+          onChange={(e) => update({ style: (e.target.value || undefined) as ThemeStyle | undefined })}
+          className={selectClass}
+          title="視覺風格"
+        >
+          <option value="">風格不變</option>
+          {Object.values(ThemeStyle).map(style => <option key={style} value={style}>{THEME_LABELS[style]}</option>)}
+        </select>
+        {colorField('color', '文字', '#ffffff')}
+        {colorField('highlightColor', '強調', '#fbbf24')}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => onApplyToLines(draft)} disabled={!hasDraft} className={buttonClass}>
+          套用到所選行
+        </button>
+        <button onClick={onClearLines} className={buttonClass}>
+          清除行樣式
+        </button>
+        <span className="w-px h-4 bg-brand-700" />
+        <button onClick={() => onApplyToSection(draft)} disabled={!hasDraft || !commonSection} className={buttonClass} title="同一段落的所有歌詞都會套用">
+          套用到段落{commonSection && `「${commonSection}」`}
+        </button>
+        <button onClick={onClearSection} disabled={!hasSectionStyle} className={buttonClass}>
+          清除段落樣式
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1 text-xs text-stone-400" title="樣式在每行的這個時間點到達，之間的大小與顏色會平滑轉換">
+          關鍵影格
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={5}
+            value={keyframePercent}
+            onChange={(e) => setKeyframePercent(Math.max(0, Math.min(100, Number(e.target.value) || 0)))}
+            className="w-14 bg-brand-900 text-stone-200 text-xs rounded border border-brand-700 px-1 py-1 outline-none focus:border-noodle"
+          />
+          %
+        </label>
+        <button onClick={() => onAddKeyframe(keyframePercent / 100, draft)} disabled={!hasDraft} className={buttonClass}>
+          加入關鍵影格
+        </button>
+        <button onClick={onClearKeyframes} disabled={!hasKeyframes} className={buttonClass}>
+          清除關鍵影格
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LineStylePanel;
\ No newline at end of file
@@ -0,0 +1,388 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LyricLine } from '../types';
+import { computePeaks, peakRange } from '../utils/waveform';
+import { retimeLine } from '../utils/wordTiming';
+import { formatTime } from '../utils/srtParser';
+import { BeatAnalysis, snapToBeat } from '../services/beatTracking';
+import { LOW_CONFIDENCE_THRESHOLD } from '../services/lyricAlignment';
+
+interface TimelineProps {
+  lyrics: LyricLine[];
+  currentTime: number;
+  duration: number;
+  isPlaying: boolean;
+  audioBuffer: AudioBuffer | null;
+  beats: BeatAnalysis | null;
+  onSeek: (time: number) => void;
+  onLyricsChange: (lyrics: LyricLine[], label: string, groupKey?: string) => void;
+}
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+  mode: DragMode;
+  index: number;
+  originX: number;
+  original: LyricLine;
+  moved: boolean;
+}
+
+const MIN_ZOOM = 10; // px per second
+const MAX_ZOOM = 400;
+const DEFAULT_ZOOM = 60;
+const ZOOM_STEP = 1.25;
+const SNAP_PX = 8;
+const MIN_LINE_DURATION = 0.1;
+const RULER_HEIGHT = 20;
+const TRACK_HEIGHT = 120;
+const LANE_HEIGHT = 40;
+const TICK_INTERVALS = [0.5, 1, 2, 5, 10, 15, 30, 60];
+const MIN_TICK_SPACING_PX = 70;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const Timeline: React.FC<TimelineProps> = ({
+  lyrics,
+  currentTime,
+  duration,
+  isPlaying,
+  audioBuffer,
+  beats,
+  onSeek,
+  onLyricsChange
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const scrubbingRef = useRef(false);
+  const pendingScrollRef = useRef<number | null>(null);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [snapToBeats, setSnapToBeats] = useState(false);
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+
+  const peaks = useMemo(() => audioBuffer ? computePeaks(audioBuffer) : null, [audioBuffer]);
+  const totalDuration = Math.max(duration || audioBuffer?.duration || 0, lyrics.reduce((max, l) => Math.max(max, l.endTime), 0));
+  const contentWidth = Math.max(viewportWidth, Math.ceil(totalDuration * zoom));
+
+  // Track the visible width of the scroll area
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const observer = new ResizeObserver(() => setViewportWidth(scroller.clientWidth));
+    observer.observe(scroller);
+    setViewportWidth(scroller.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // Ctrl/⌘ + wheel zooms around the cursor; needs a non-passive listener to stop page zoom
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      e.preventDefault();
+      const x = e.clientX - scroller.getBoundingClientRect().left;
+      setZoom(prev => {
+        const next = clamp(e.deltaY < 0 ? prev * ZOOM_STEP : prev / ZOOM_STEP, MIN_ZOOM, MAX_ZOOM);
+        pendingScrollRef.current = ((scroller.scrollLeft + x) / prev) * next - x;
+        return next;
+      });
+    };
+    scroller.addEventListener('wheel', handleWheel, { passive: false });
+    return () => scroller.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  useEffect(() => {
+    if (pendingScrollRef.current === null || !scrollRef.current) return;
+    scrollRef.current.scrollLeft = Math.max(0, pendingScrollRef.current);
+    pendingScrollRef.current = null;
+  }, [zoom]);
+
+  // Keep the playhead in view while playing
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller || !isPlaying || dragRef.current) return;
+    const x = currentTime * zoom;
+    if (x < scroller.scrollLeft || x > scroller.scrollLeft + scroller.clientWidth - 20) {
+      scroller.scrollLeft = Math.max(0, x - scroller.clientWidth * 0.1);
+    }
+  }, [currentTime, isPlaying, zoom]);
+
+  // Ruler + waveform for the visible window only
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || viewportWidth === 0) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = viewportWidth * dpr;
+    canvas.height = TRACK_HEIGHT * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, viewportWidth, TRACK_HEIGHT);
+
+    if (peaks) {
+      const mid = RULER_HEIGHT + (TRACK_HEIGHT - RULER_HEIGHT) / 2;
+      const amplitude = (TRACK_HEIGHT - RULER_HEIGHT) / 2 - 4;
+      ctx.fillStyle = '#57534e';
+      for (let x = 0; x < viewportWidth; x++) {
+        const from = (scrollLeft + x) / zoom;
+        if (from > totalDuration) break;
+        const [lo, hi] = peakRange(peaks, from, from + 1 / zoom);
+        const top = mid - hi * amplitude;
+        ctx.fillRect(x, top, 1, Math.max(1, mid - lo * amplitude - top));
+      }
+    }
+
+    if (beats && snapToBeats) {
+      const downbeats = new Set(beats.downbeats);
+      const visibleFrom = scrollLeft / zoom;
+      const visibleTo = (scrollLeft + viewportWidth) / zoom;
+      beats.beats.forEach(t => {
+        if (t < visibleFrom || t > visibleTo) return;
+        ctx.fillStyle = downbeats.has(t) ? 'rgba(250, 204, 21, 0.45)' : 'rgba(250, 204, 21, 0.15)';
+        ctx.fillRect(Math.round(t * zoom - scrollLeft), RULER_HEIGHT, 1, TRACK_HEIGHT - RULER_HEIGHT);
+      });
+    }
+
+    const interval = TICK_INTERVALS.find(i => i * zoom >= MIN_TICK_SPACING_PX) ?? TICK_INTERVALS[TICK_INTERVALS.length - 1];
+    ctx.fillStyle = '#1c1917';
+    ctx.fillRect(0, 0, viewportWidth, RULER_HEIGHT);
+    ctx.strokeStyle = '#44403c';
+    ctx.fillStyle = '#a8a29e';
+    ctx.font = '10px monospace';
+    ctx.textBaseline = 'middle';
+    ctx.beginPath();
+    for (let t = Math.floor(scrollLeft / zoom / interval) * interval; t * zoom <= scrollLeft + viewportWidth; t += interval) {
+      const x = Math.round(t * zoom - scrollLeft) + 0.5;
+      ctx.moveTo(x, RULER_HEIGHT - 6);
+      ctx.lineTo(x, RULER_HEIGHT);
+      ctx.fillText(formatTime(t).replace(/\.00$/, ''), x + 3, RULER_HEIGHT / 2 - 1);
+    }
+    ctx.stroke();
+  }, [peaks, beats, snapToBeats, zoom, scrollLeft, viewportWidth, totalDuration]);
+
+  const timeAt = (clientX: number) => {
+    const rect = contentRef.current!.getBoundingClientRect();
+    return clamp((clientX - rect.left) / zoom, 0, totalDuration);
+  };
+
+  // Snap `time` to the nearest neighbouring line edge or the playhead, if close enough
+  const snap = (time: number, index: number): number => {
+    if (!snapEnabled) return time;
+    const targets = [currentTime];
+    if (lyrics[index - 1]) targets.push(lyrics[index - 1].endTime, lyrics[index - 1].startTime);
+    if (lyrics[index + 1]) targets.push(lyrics[index + 1].startTime, lyrics[index + 1].endTime);
+    if (beats && snapToBeats) targets.push(snapToBeat(beats, time));
+    let best = time;
+    let bestDistance = SNAP_PX / zoom;
+    targets.forEach(target => {
+      const distance = Math.abs(target - time);
+      if (distance < bestDistance) {
+        best = target;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  };
+
+  // --- Seeking on empty track area ---
+
+  const handleTrackPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    scrubbingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onSeek(timeAt(e.clientX));
+  };
+
+  const handleTrackPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubbingRef.current) onSeek(timeAt(e.clientX));
+  };
+
+  const handleTrackPointerUp = () => {
+    scrubbingRef.current = false;
+  };
+
+  // --- Dragging lyric blocks ---
+
+  const handleBlockPointerDown = (e: React.PointerEvent<HTMLDivElement>, index: number, mode: DragMode) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, index, originX: e.clientX, original: lyrics[index], moved: false };
+    setDraggingIndex(index);
+  };
+
+  const handleBlockPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.originX;
+    if (!drag.moved && Math.abs(dx) < 3) return;
+    drag.moved = true;
+
+    const { original, index, mode } = drag;
+    const delta = dx / zoom;
+    const length = original.endTime - original.startTime;
+    let start = original.startTime;
+    let end = original.endTime;
+
+    if (mode === 'move') {
+      start = clamp(start + delta, 0, Math.max(0, totalDuration - length));
+      // Snap whichever edge lands closer to a target
+      const shifts = [snap(start, index) - start, snap(start + length, index) - (start + length)]
+        .filter(d => d !== 0)
+        .sort((a, b) => Math.abs(a) - Math.abs(b));
+      start = Math.max(0, start + (shifts[0] ?? 0));
+      end = start + length;
+    } else if (mode === 'start') {
+      start = clamp(snap(start + delta, index), 0, end - MIN_LINE_DURATION);
+    } else {
+      end = clamp(snap(end + delta, index), start + MIN_LINE_DURATION, totalDuration || Infinity);
+    }
+
+    onLyricsChange(
+      lyrics.map((l, i) => i === index ? { ...retimeLine(original, start, end), confidence: undefined } : l),
+      mode === 'move' ? '移動歌詞' : '調整歌詞長度',
+      `timeline:${original.id}`
+    );
+  };
+
+  const handleBlockPointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setDraggingIndex(null);
+    // A click without dragging jumps to the line
+    if (drag && !drag.moved) onSeek(lyrics[drag.index].startTime);
+  };
+
+  // Move every line's start and end onto the nearest tracked beat
+  const quantizeToBeats = () => {
+    if (!beats || beats.beats.length === 0) return;
+    onLyricsChange(lyrics.map(line => {
+      const start = snapToBeat(beats, line.startTime);
+      const end = Math.max(start + MIN_LINE_DURATION, snapToBeat(beats, line.endTime));
+      return retimeLine(line, start, end);
+    }), '對齊節拍');
+  };
+
+  const zoomBy = (factor: number) => {
+    const scroller = scrollRef.current;
+    setZoom(prev => {
+      const next = clamp(prev * factor, MIN_ZOOM, MAX_ZOOM);
+      // Zoom around the playhead
+      if (scroller) pendingScrollRef.current = currentTime * next - (currentTime * prev - scroller.scrollLeft);
+      return next;
+    });
+  };
+
+  const fitAll = () => {
+    if (totalDuration > 0 && viewportWidth > 0) {
+      pendingScrollRef.current = 0;
+      setZoom(clamp(viewportWidth / totalDuration, MIN_ZOOM, MAX_ZOOM));
+    }
+  };
+
+  return (
+    <div className="bg-brand-900 border-t border-brand-800 select-none">
+      <div className="flex items-center justify-between px-4 py-2 text-xs text-stone-400">
+        <span className="font-bold uppercase tracking-wider">時間軸</span>
+        <div className="flex items-center gap-3">
+          {beats && beats.bpm > 0 && (
+            <>
+              <span className="font-mono text-stone-500">{beats.bpm.toFixed(1)} BPM</span>
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input type="checkbox" checked={snapToBeats} onChange={(e) => setSnapToBeats(e.target.checked)} className="accent-noodle" />
+                節拍格線
+              </label>
+              <button onClick={quantizeToBeats} className="hover:text-noodle transition-colors" title="把每行的開始與結束移到最近的拍點">
+                對齊節拍
+              </button>
+            </>
+          )}
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={snapEnabled} onChange={(e) => setSnapEnabled(e.target.checked)} className="accent-noodle" />
+            吸附
+          </label>
+          <div className="flex items-center bg-brand-800 border border-brand-700 rounded-md overflow-hidden">
+            <button onClick={() => zoomBy(1 / ZOOM_STEP)} className="px-2 py-0.5 hover:bg-brand-700 hover:text-noodle" title="縮小">−</button>
+            <button onClick={fitAll} className="px-2 py-0.5 border-x border-brand-700 hover:bg-brand-700 hover:text-noodle">全覽</button>
+            <button onClick={() => zoomBy(ZOOM_STEP)} className="px-2 py-0.5 hover:bg-brand-700 hover:text-noodle" title="放大">+</button>
+          </div>
+        </div>
+      </div>
+
+      <div className="relative" style={{ height: TRACK_HEIGHT }}>
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+        {!peaks && (
+          <div className="absolute inset-0 flex items-center justify-center text-xs text-stone-600 pointer-events-none">
+            波形載入中...
+          </div>
+        )}
+        <div
+          ref={scrollRef}
+          className="absolute inset-0 overflow-x-auto overflow-y-hidden"
+          onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+        >
+          <div
+            ref={contentRef}
+            className="relative h-full cursor-text"
+            style={{ width: contentWidth }}
+            onPointerDown={handleTrackPointerDown}
+            onPointerMove={handleTrackPointerMove}
+            onPointerUp={handleTrackPointerUp}
+          >
+            {lyrics.map((line, idx) => {
+              const isActive = currentTime >= line.startTime && currentTime <= line.endTime;
+              const isLowConfidence = line.confidence !== undefined && line.confidence < LOW_CONFIDENCE_THRESHOLD;
+              return (
+                <div
+                  key={line.id}
+                  className={`absolute rounded-md border text-xs px-2 flex items-center overflow-hidden cursor-grab active:cursor-grabbing transition-colors ${
+                    isActive || draggingIndex === idx
+                      ? 'bg-noodle/80 border-noodle text-brand-900 font-bold'
+                      : isLowConfidence
+                        ? 'bg-amber-900/60 border-amber-500 border-dashed text-amber-100 hover:border-noodle'
+                        : 'bg-brand-700/80 border-brand-600 text-stone-200 hover:border-noodle'
+                  }`}
+                  style={{
+                    left: line.startTime * zoom,
+                    width: Math.max(4, (line.endTime - line.startTime) * zoom),
+                    top: RULER_HEIGHT + 6 + (idx % 2) * (LANE_HEIGHT + 6),
+                    height: LANE_HEIGHT,
+                  }}
+                  title={`${formatTime(line.startTime)} → ${formatTime(line.endTime)}\n${line.text}`}
+                  onPointerDown={(e) => handleBlockPointerDown(e, idx, 'move')}
+                  onPointerMove={handleBlockPointerMove}
+                  onPointerUp={handleBlockPointerUp}
+                >
+                  <div
+                    className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-white/40"
+                    onPointerDown={(e) => handleBlockPointerDown(e, idx, 'start')}
+                  />
+                  <span className="truncate pointer-events-none">{line.text}</span>
+                  <div
+                    className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-white/40"
+                    onPointerDown={(e) => handleBlockPointerDown(e, idx, 'end')}
+                  />
+                </div>
+              );
+            })}
+
+            {/* Playhead */}
+            <div
+              className="absolute top-0 bottom-0 w-px bg-soup pointer-events-none"
+              style={{ left: currentTime * zoom }}
+            >
+              <div className="w-2.5 h-2.5 bg-soup rotate-45 -translate-x-1/2 -translate-y-1/2" />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Timeline;
\ No newline at end of file
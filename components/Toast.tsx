@@ -0,0 +1,42 @@
+import React from 'react';
+
+export type ToastKind = 'error' | 'success' | 'info';
+
+export interface ToastMessage {
+  id: number;
+  kind: ToastKind;
+  text: string;
+}
+
+export const TOAST_DURATION_MS = 5000;
+
+interface ToastStackProps {
+  toasts: ToastMessage[];
+  onDismiss: (id: number) => void;
+}
+
+const KIND_STYLES: Record<ToastKind, string> = {
+  error: 'border-red-500/60 text-red-200',
+  success: 'border-green-500/60 text-green-200',
+  info: 'border-brand-600 text-stone-300',
+};
+
+const ToastStack: React.FC<ToastStackProps> = ({ toasts, onDismiss }) => {
+  if (toasts.length === 0) return null;
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] flex flex-col items-end gap-2 pointer-events-none">
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          role={toast.kind === 'error' ? 'alert' : 'status'}
+          className={`pointer-events-auto max-w-sm flex items-start gap-3 bg-brand-900/95 backdrop-blur border rounded-xl shadow-2xl px-4 py-3 text-sm ${KIND_STYLES[toast.kind]}`}
+        >
+          <span className="flex-1">{toast.text}</span>
+          <button onClick={() => onDismiss(toast.id)} className="text-stone-500 hover:text-white" title="關閉">✕</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ToastStack;
\ No newline at end of file
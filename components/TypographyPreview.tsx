@@ -0,0 +1,66 @@
+import React from 'react';
+import { VisualSettings, ThemeStyle } from '../types';
+import { resolveOutlineColor, resolveGlowColor, ResolvedLineStyle } from '../utils/lineStyles';
+import { mainTrack } from '../utils/lyricTracks';
+
+interface TypographyPreviewProps {
+  settings: VisualSettings;
+}
+
+const SAMPLE_TEXT = '泡麵之歌\nNoodle Song';
+// Preview font size in CSS pixels; design-unit settings are scaled to match
+const PREVIEW_FONT_SIZE = 26;
+
+// A CSS approximation of how the renderer sets a lyric line, updated as the
+// typography settings change
+const TypographyPreview: React.FC<TypographyPreviewProps> = ({ settings }) => {
+  const scale = PREVIEW_FONT_SIZE / settings.fontSize;
+  const look: ResolvedLineStyle = {
+    fontFamily: settings.fontFamily,
+    fontWeight: settings.fontWeight,
+    fontSize: PREVIEW_FONT_SIZE,
+    color: mainTrack(settings.tracks).color,
+    highlightColor: settings.primaryColor,
+    animationType: settings.animationType,
+    style: settings.style,
+  };
+  const outlineColor = resolveOutlineColor(look, settings);
+  const vertical = settings.writingMode === 'vertical';
+  const hasShadow = settings.textShadowDistance > 0 || settings.textShadowBlur > 0;
+  const gradient = settings.textGradient === 'none' ? null
+    : `linear-gradient(${settings.textGradient === 'vertical' ? 'to bottom' : 'to right'}, ${settings.primaryColor}, ${settings.secondaryColor})`;
+
+  const textStyle: React.CSSProperties = {
+    fontFamily: `"${settings.fontFamily}"`,
+    fontWeight: settings.fontWeight,
+    fontSize: PREVIEW_FONT_SIZE,
+    letterSpacing: `${settings.letterSpacing}em`,
+    lineHeight: settings.lineHeight,
+    whiteSpace: 'pre',
+    writingMode: vertical ? 'vertical-rl' : 'horizontal-tb',
+    textOrientation: 'mixed',
+    color: gradient ? 'transparent' : look.color,
+    backgroundImage: gradient || undefined,
+    WebkitBackgroundClip: gradient ? 'text' : undefined,
+    backgroundClip: gradient ? 'text' : undefined,
+    WebkitTextStroke: outlineColor ? `${settings.outlineWidth * scale}px ${outlineColor}` : undefined,
+    paintOrder: 'stroke fill',
+    textShadow: hasShadow
+      ? `${settings.textShadowDistance * scale}px ${settings.textShadowDistance * scale}px ${settings.textShadowBlur * scale}px ${settings.textShadowColor}`
+      : undefined,
+    filter: settings.style !== ThemeStyle.MINIMAL && !hasShadow
+      ? `drop-shadow(0 0 6px ${resolveGlowColor(look, settings)})`
+      : undefined,
+  };
+
+  return (
+    <div
+      className="h-32 rounded-lg border border-brand-700 overflow-hidden flex items-center justify-center text-center"
+      style={{ backgroundColor: settings.backgroundColor }}
+    >
+      <div style={textStyle}>{SAMPLE_TEXT}</div>
+    </div>
+  );
+};
+
+export default TypographyPreview;
\ No newline at end of file
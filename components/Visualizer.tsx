@@ -1,6 +1,21 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { LyricLine, VisualSettings, ThemeStyle, AnimationType } from '../types';
+import { LyricLine, LinePlacement, TrackAlign, TrackPosition, VisualSettings, ThemeStyle, AnimationType, SongMetadata } from '../types';
+import { getSungCharCount } from '../utils/wordTiming';
+import { displayedTranslations } from '../utils/translations';
+import { resolveTrack, trackIndex, layoutTrackBlocks, resolveAnchor, resolveAlign, resolveOffset, LYRIC_ANCHORS, TRACK_ALIGNS } from '../utils/lyricTracks';
+import { getLineRuby } from '../utils/ruby';
+import { resolveLineStyle, resolveOutlineColor, resolveGlowColor, ResolvedLineStyle, cssFont, usedFonts } from '../utils/lineStyles';
+import { ensureFontsLoaded } from '../services/fonts';
+import { createSeededRandom } from '../utils/random';
+import { getDesignSize, getOutputSize, fitToArea } from '../utils/canvasFormat';
+import { getEffectPlugin, getSpriteAtlas, EffectPoint, TextShape } from '../effects';
+import { WebGLCompositor } from '../webgl/compositor';
+import { wrapTextRows, fitTextRows, columnLength, verticalAdvance, verticalGlyph, FittedText } from '../utils/textLayout';
+import { downloadBlob, toSafeFileName } from '../utils/download';
+import { decodeAudioFromUrl, bassLevel, buildFrameAudio, FrameAudio } from '../services/audioAnalysis';
+import { getBeatFeatures, BeatAnalysis } from '../services/beatTracking';
+import { renderOffline, isOfflineRenderSupported, pickRecorderMimeType, OfflineRenderProgress, ExportContainer } from '../services/offlineRenderer';
 
 interface VisualizerProps {
   lyrics: LyricLine[];
@@ -8,57 +23,161 @@ interface VisualizerProps {
   isPlaying: boolean;
   audioRef: React.RefObject<HTMLAudioElement>;
   settings: VisualSettings;
+  metadata: SongMetadata;
+  audioBuffer: AudioBuffer | null; // decoded song, shared with the timeline
+  beats: BeatAnalysis | null;
   onExportProgress: (isExporting: boolean) => void;
+  onLyricsChange: (update: (lyrics: LyricLine[]) => LyricLine[], label: string, groupKey?: string) => void;
+  onSettingsChange: (patch: Partial<VisualSettings>) => void;
 }
 
-const easeOutCubic = (x: number): number => 1 - Math.pow(1 - x, 3);
-const easeInOutSine = (x: number): number => -(Math.cos(Math.PI * x) - 1) / 2;
-const easeOutBack = (x: number): number => {
-  const c1 = 1.70158;
-  const c3 = c1 + 1;
-  return 1 + c3 * Math.pow(x - 1, 3) + c1 * Math.pow(x - 1, 2);
+// Where a lyric block was last drawn in the preview, in design units
+interface LyricHitRegion {
+  lineId: string;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// A drag on the preview moves one line (lineId) or, with Shift, every lyric (null)
+interface LyricDrag {
+  pointerId: number;
+  lineId: string | null;
+  startX: number;
+  startY: number;
+  originX: number;
+  originY: number;
+}
+
+const OFFLINE_FPS_OPTIONS = [30, 60];
+// Offsets are stored to a thousandth of the canvas, about one design unit
+const roundOffset = (value: number) => Math.round(value * 1000) / 1000;
+const DEFAULT_EXPORT_NAME = 'willwi-noodle-experiment';
+
+const CONTAINER_LABELS: Record<ExportContainer, string> = {
+  mp4: 'MP4 (H.264/AAC)',
+  webm: 'WebM (VP9/Opus)',
 };
+// Fixed seed so repeated offline exports produce identical particle motion
+const OFFLINE_RANDOM_SEED = 20240611;
 
-class Particle {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  size: number;
-  color: string;
-  life: number;
-  maxLife: number;
-
-  constructor(w: number, h: number, color: string) {
-    this.x = Math.random() * w;
-    this.y = Math.random() * h;
-    this.vx = (Math.random() - 0.5) * 1;
-    this.vy = (Math.random() - 0.5) * 1;
-    this.size = Math.random() * 3 + 1;
-    this.color = color;
-    this.life = 0;
-    this.maxLife = Math.random() * 100 + 100;
-  }
+const OFFLINE_STAGE_LABELS: Record<OfflineRenderProgress['stage'], string> = {
+  analyzing: '分析音訊',
+  rendering: '渲染影格',
+  finalizing: '封裝檔案',
+};
 
-  update(width: number, height: number, beatFactor: number) {
-    this.x += this.vx * beatFactor;
-    this.y += this.vy * beatFactor;
-    this.life++;
+// Map stage progress onto one bar: analysis and muxing are short compared to rendering
+const overallOfflineProgress = ({ stage, progress }: OfflineRenderProgress): number => {
+  if (stage === 'analyzing') return progress * 0.1;
+  if (stage === 'rendering') return 0.1 + progress * 0.85;
+  return 0.95 + progress * 0.05;
+};
 
-    if (this.x < 0 || this.x > width) this.vx *= -1;
-    if (this.y < 0 || this.y > height) this.vy *= -1;
+// Longest wait for one background video seek before the frame is drawn anyway
+const VIDEO_SEEK_TIMEOUT_MS = 2000;
+
+// Seek the background video and wait until the frame is ready to draw. A seek
+// that stalls gives up after a timeout with whatever frame is showing; a video
+// that fails to decode rejects, so the export stops instead of hanging.
+const seekVideo = (video: HTMLVideoElement, time: number) => new Promise<void>((resolve, reject) => {
+  if (!video.duration || !isFinite(video.duration)) return resolve();
+  const target = time % video.duration;
+  if (Math.abs(video.currentTime - target) < 0.001) return resolve();
+
+  const finish = (error?: Error) => {
+    clearTimeout(timer);
+    video.removeEventListener('seeked', onSeeked);
+    video.removeEventListener('error', onError);
+    video.removeEventListener('abort', onError);
+    if (error) reject(error);
+    else resolve();
+  };
+  const onSeeked = () => finish();
+  const onError = () => finish(new Error('背景影片無法讀取'));
+  const timer = window.setTimeout(() => finish(), VIDEO_SEEK_TIMEOUT_MS);
+  video.addEventListener('seeked', onSeeked);
+  video.addEventListener('error', onError);
+  video.addEventListener('abort', onError);
+  video.currentTime = target;
+});
+
+// Lyrics wrap to at most this many rows before they are shrunk to fit
+const LYRIC_MAX_ROWS = 3;
+// Never shrink a line below this share of its preferred size
+const LYRIC_MIN_FIT_SCALE = 0.55;
+// Fitted lyric rows kept between frames; the cache starts over past this size
+const FIT_CACHE_LIMIT = 500;
+// How much the lyric grows on a beat at sensitivity 1
+const LYRIC_BEAT_PULSE = 0.04;
+
+// Scale a background source to cover the whole canvas, cropping the overflow
+const drawCover = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number
+) => {
+  const sourceRatio = sourceWidth / sourceHeight;
+  const canvasRatio = width / height;
+  let renderW, renderH, offsetX, offsetY;
+
+  if (sourceRatio > canvasRatio) {
+    renderH = height;
+    renderW = height * sourceRatio;
+    offsetX = (width - renderW) / 2;
+    offsetY = 0;
+  } else {
+    renderW = width;
+    renderH = width / sourceRatio;
+    offsetX = 0;
+    offsetY = (height - renderH) / 2;
   }
+  ctx.drawImage(source, offsetX, offsetY, renderW, renderH);
+};
 
-  draw(ctx: CanvasRenderingContext2D) {
-    const alpha = 1 - this.life / this.maxLife;
-    ctx.globalAlpha = alpha;
-    ctx.fillStyle = this.color;
-    ctx.beginPath();
-    ctx.arc(this.x, this.y, this.size, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.globalAlpha = 1.0;
+// Every character the renderer may draw, so web fonts split by unicode-range
+// fetch all the subsets they need
+const fontSampleText = (lyrics: LyricLine[], settings: VisualSettings): string => {
+  const text = lyrics.map(line => [
+    line.text,
+    ...(settings.showTranslation ? displayedTranslations(line, settings.translationLanguages) : []),
+    ...(settings.showRuby ? getLineRuby(line, settings.rubySystem) : []),
+  ].join('')).join('');
+  return Array.from(new Set(Array.from(text))).join('');
+};
+
+// Offscreen 2D layer for the WebGL path: sized to the target, cleared, and
+// set up to draw in design units
+const getLayerContext = (
+  ref: React.MutableRefObject<HTMLCanvasElement | null>,
+  pixelWidth: number,
+  pixelHeight: number,
+  scale: number
+): CanvasRenderingContext2D => {
+  if (!ref.current) ref.current = document.createElement('canvas');
+  const canvas = ref.current;
+  if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
   }
-}
+  const ctx = canvas.getContext('2d')!;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, pixelWidth, pixelHeight);
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  return ctx;
+};
+
+const easeOutCubic = (x: number): number => 1 - Math.pow(1 - x, 3);
+const easeInOutSine = (x: number): number => -(Math.cos(Math.PI * x) - 1) / 2;
+const easeOutBack = (x: number): number => {
+  const c1 = 1.70158;
+  const c3 = c1 + 1;
+  return 1 + c3 * Math.pow(x - 1, 3) + c1 * Math.pow(x - 1, 2);
+};
 
 const Visualizer: React.FC<VisualizerProps> = ({
   lyrics,
@@ -66,7 +185,12 @@ const Visualizer: React.FC<VisualizerProps> = ({
   isPlaying,
   audioRef,
   settings,
-  onExportProgress
+  metadata,
+  audioBuffer,
+  beats,
+  onExportProgress,
+  onLyricsChange,
+  onSettingsChange
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -74,21 +198,66 @@ const Visualizer: React.FC<VisualizerProps> = ({
   const analyserRef = useRef<AnalyserNode | null>(null);
   const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
   const requestRef = useRef<number>();
-  const particlesRef = useRef<Particle[]>([]);
+  const effectStatesRef = useRef(new Map<string, unknown>()); // per effect layer id
   const bgImageRef = useRef<HTMLImageElement | null>(null);
   const bgVideoRef = useRef<HTMLVideoElement>(document.createElement('video'));
   
   // Stable Refs to access latest state in animation loop without recreation
-  const stateRef = useRef({ lyrics, settings, currentTime, isPlaying });
+  const stateRef = useRef({ lyrics, settings, currentTime, isPlaying, beats });
+  const lastFrameTimeRef = useRef(0);
+
+  useEffect(() => {
+    stateRef.current = { lyrics, settings, currentTime, isPlaying, beats };
+  }, [lyrics, settings, currentTime, isPlaying, beats]);
+
+  // Start fetching fonts as soon as they are chosen; the preview redraws every frame
+  useEffect(() => {
+    ensureFontsLoaded(usedFonts(lyrics, settings), fontSampleText(lyrics, settings));
+  }, [lyrics, settings]);
 
+  // Fitting a line measures it many times, so each frame reuses earlier fits.
+  // Fits made before a web font arrived used the fallback font; drop them.
+  const fitCacheRef = useRef(new Map<string, FittedText>());
   useEffect(() => {
-    stateRef.current = { lyrics, settings, currentTime, isPlaying };
-  }, [lyrics, settings, currentTime, isPlaying]);
+    const clearFits = () => fitCacheRef.current.clear();
+    document.fonts.addEventListener('loadingdone', clearFits);
+    return () => document.fonts.removeEventListener('loadingdone', clearFits);
+  }, []);
+
+  const loadExportFonts = () => {
+    const { lyrics, settings } = stateRef.current;
+    return ensureFontsLoaded(usedFonts(lyrics, settings), fontSampleText(lyrics, settings));
+  };
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const [recording, setRecording] = useState(false);
 
+  // Offline (frame-by-frame) export
+  const spectrumRef = useRef<Uint8Array | null>(null);
+  const waveformRef = useRef<Uint8Array | null>(null);
+  const offlineRenderingRef = useRef(false);
+  const offlineAbortRef = useRef<AbortController | null>(null);
+  const [offlineProgress, setOfflineProgress] = useState<OfflineRenderProgress | null>(null);
+  const [offlineFps, setOfflineFps] = useState(OFFLINE_FPS_OPTIONS[0]);
+  const [container, setContainer] = useState<ExportContainer>('mp4');
+  const [showSafeArea, setShowSafeArea] = useState(false);
+  const [previewSize, setPreviewSize] = useState({ width: 0, height: 0 });
+
+  // Dragging lyrics on the preview
+  const hitRegionsRef = useRef<LyricHitRegion[]>([]);
+  const dragRef = useRef<LyricDrag | null>(null);
+  const [selectedLineId, setSelectedLineId] = useState<string | null>(null);
+
+  const exportFileName = (extension: string) =>
+    `${toSafeFileName(metadata.title, DEFAULT_EXPORT_NAME)}.${extension}`;
+
+  const notifyFallback = (used: ExportContainer) => {
+    if (container === 'mp4' && used !== 'mp4') {
+      alert('此瀏覽器不支援 MP4 (H.264/AAC) 編碼，已改用 WebM 輸出');
+    }
+  };
+
   const initAudio = useCallback(() => {
     if (!audioRef.current || audioContextRef.current) return;
 
@@ -136,272 +305,646 @@ const Visualizer: React.FC<VisualizerProps> = ({
     }
   }, [settings.backgroundVideo]);
 
+  // Size the preview to the largest box of the chosen aspect ratio that fits.
+  // While recording, the canvas keeps the absolute export resolution instead.
+  const resizeCanvas = useCallback(() => {
+    if (!containerRef.current || !canvasRef.current) return;
+    const { aspectRatio } = stateRef.current.settings;
+    const rect = containerRef.current.getBoundingClientRect();
+    const fitted = fitToArea(aspectRatio, rect.width, rect.height);
+    setPreviewSize(fitted);
+
+    if (mediaRecorderRef.current?.state === 'recording') return;
+    const dpr = window.devicePixelRatio || 1;
+    canvasRef.current.width = Math.round(fitted.width * dpr);
+    canvasRef.current.height = Math.round(fitted.height * dpr);
+  }, []);
+
   useEffect(() => {
-    const resize = () => {
-      if (containerRef.current && canvasRef.current) {
-        const dpr = window.devicePixelRatio || 1;
-        const rect = containerRef.current.getBoundingClientRect();
-        
-        const width = rect.width;
-        const height = width * (9 / 16);
-        
-        canvasRef.current.width = width * dpr;
-        canvasRef.current.height = height * dpr;
-        
-        canvasRef.current.style.width = `${width}px`;
-        canvasRef.current.style.height = `${height}px`;
-        
-        particlesRef.current = [];
-      }
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver(() => resizeCanvas());
+    observer.observe(containerRef.current);
+    window.addEventListener('resize', resizeCanvas);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', resizeCanvas);
     };
-    window.addEventListener('resize', resize);
-    resize();
-    return () => window.removeEventListener('resize', resize);
-  }, []);
+  }, [resizeCanvas]);
 
-  // Stable Animate Loop
-  const animate = useCallback(() => {
-    if (!canvasRef.current) return;
-    const ctx = canvasRef.current.getContext('2d', { alpha: false });
-    if (!ctx) return;
+  useEffect(() => {
+    resizeCanvas();
+  }, [settings.aspectRatio, resizeCanvas]);
 
-    const { lyrics, settings, currentTime, isPlaying } = stateRef.current;
-    
-    const dpr = window.devicePixelRatio || 1;
-    const width = canvasRef.current.width / dpr; 
-    const height = canvasRef.current.height / dpr; 
+  // Drop the state of layers that were removed
+  useEffect(() => {
+    const ids = new Set(settings.effectLayers.map(layer => layer.id));
+    Array.from(effectStatesRef.current.keys()).forEach(id => {
+      if (!ids.has(id)) effectStatesRef.current.delete(id);
+    });
+  }, [settings.effectLayers]);
 
-    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  // WebGL renderer: undefined until first used, null where WebGL2 is unavailable
+  const compositorRef = useRef<WebGLCompositor | null | undefined>(undefined);
+  const sceneLayerRef = useRef<HTMLCanvasElement | null>(null);
+  const lyricLayerRef = useRef<HTMLCanvasElement | null>(null);
 
-    let beatFactor = 1.0;
-    if (analyserRef.current) {
-      const bufferLength = analyserRef.current.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-      analyserRef.current.getByteFrequencyData(dataArray);
-      
-      let sum = 0;
-      for (let i = 0; i < 20; i++) sum += dataArray[i];
-      const average = sum / 20;
-      beatFactor = 1 + (average / 255) * settings.beatSensitivity;
-    }
+  const getCompositor = () => {
+    if (compositorRef.current === undefined) compositorRef.current = WebGLCompositor.create();
+    // A lost context (GPU reset, too many contexts) falls back to Canvas2D for good
+    if (compositorRef.current?.isContextLost()) compositorRef.current = null;
+    return compositorRef.current;
+  };
 
-    ctx.clearRect(0, 0, width, height);
-
-    // Draw Background (Video or Image or Color)
-    if (settings.backgroundVideo && bgVideoRef.current.readyState >= 2) {
-         const vid = bgVideoRef.current;
-         const vidRatio = vid.videoWidth / vid.videoHeight;
-         const canvasRatio = width / height;
-         let renderW, renderH, offsetX, offsetY;
-         
-         if (vidRatio > canvasRatio) {
-           renderH = height;
-           renderW = height * vidRatio;
-           offsetX = (width - renderW) / 2;
-           offsetY = 0;
-         } else {
-           renderW = width;
-           renderH = width / vidRatio;
-           offsetX = 0;
-           offsetY = (height - renderH) / 2;
-         }
-         ctx.drawImage(vid, offsetX, offsetY, renderW, renderH);
-         // Overlay
-         ctx.fillStyle = `rgba(0,0,0,0.6)`;
-         ctx.fillRect(0, 0, width, height);
-
-    } else if (bgImageRef.current) {
-      const img = bgImageRef.current;
-      const imgRatio = img.width / img.height;
-      const canvasRatio = width / height;
-      let renderW, renderH, offsetX, offsetY;
-      
-      if (imgRatio > canvasRatio) {
-        renderH = height;
-        renderW = height * imgRatio;
-        offsetX = (width - renderW) / 2;
-        offsetY = 0;
+  useEffect(() => () => compositorRef.current?.dispose(), []);
+
+  // Draw one complete frame. Shared by the live preview loop and the offline
+  // renderer, so time, audio features and randomness all come in as arguments.
+  const drawFrame = useCallback((
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    currentTime: number,
+    audio: FrameAudio,
+    step: number,
+    random: () => number
+  ) => {
+    const { lyrics, settings } = stateRef.current;
+    const { beatFactor } = audio;
+
+    // Background and effect layers. With `points`, effects that support it
+    // hand their dots over to the GPU instead of drawing them.
+    const drawScene = (ctx: CanvasRenderingContext2D, points: EffectPoint[] | null, currentLine: LyricLine | null, currentShape: TextShape | null) => {
+      ctx.clearRect(0, 0, width, height);
+
+      // Draw Background (Video or Image or Color)
+      if (settings.backgroundVideo && bgVideoRef.current.readyState >= 2) {
+        const vid = bgVideoRef.current;
+        drawCover(ctx, vid, vid.videoWidth, vid.videoHeight, width, height);
+        // Overlay
+        ctx.fillStyle = `rgba(0,0,0,0.6)`;
+        ctx.fillRect(0, 0, width, height);
+      } else if (bgImageRef.current) {
+        const img = bgImageRef.current;
+        drawCover(ctx, img, img.width, img.height, width, height);
+        ctx.fillStyle = `rgba(0,0,0,0.6)`;
+        ctx.fillRect(0, 0, width, height);
       } else {
-        renderW = width;
-        renderH = width / imgRatio;
-        offsetX = 0;
-        offsetY = (height - renderH) / 2;
+        ctx.fillStyle = settings.backgroundColor;
+        ctx.fillRect(0, 0, width, height);
       }
-      ctx.drawImage(img, offsetX, offsetY, renderW, renderH);
-      ctx.fillStyle = `rgba(0,0,0,0.6)`;
-      ctx.fillRect(0, 0, width, height);
-    } else {
-      ctx.fillStyle = settings.backgroundColor;
-      ctx.fillRect(0, 0, width, height);
-    }
 
-    if (particlesRef.current.length < settings.particleCount) {
-      particlesRef.current.push(new Particle(width, height, Math.random() > 0.5 ? settings.primaryColor : settings.secondaryColor));
-    }
+      settings.effectLayers.forEach(layer => {
+        const plugin = getEffectPlugin(layer.effect);
+        if (!layer.enabled || !plugin) return;
+        if (!effectStatesRef.current.has(layer.id)) effectStatesRef.current.set(layer.id, plugin.createState());
+        const state = effectStatesRef.current.get(layer.id);
+        const frame = { ctx, width, height, time: currentTime, step, audio, settings, random, opacity: layer.opacity, currentLine, currentShape };
+        if (points && plugin.simulate) {
+          points.push(...plugin.simulate(state, frame));
+          return;
+        }
+        ctx.save();
+        plugin.draw(state, frame);
+        ctx.restore();
+      });
+    };
 
-    particlesRef.current.forEach((p, index) => {
-      p.update(width, height, beatFactor);
-      p.draw(ctx);
-      if (p.life >= p.maxLife) {
-        particlesRef.current.splice(index, 1);
-      }
-    });
+    // Where every visible line sits this frame, worked out before anything is
+    // drawn so effects can follow the lyrics. `ctx` is only used to measure.
+    const layoutLyrics = (ctx: CanvasRenderingContext2D) => {
+      const transitionDuration = settings.transitionDuration || 0.5;
+    
+      // Everything stays inside the title-safe area
+      const safeLeft = width * settings.safeMarginX;
+      const safeWidth = width - safeLeft * 2;
+      const safeHeight = height * (1 - settings.safeMarginY * 2);
 
-    if (analyserRef.current) {
-      const bufferLength = analyserRef.current.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-      analyserRef.current.getByteFrequencyData(dataArray);
-      
-      const barWidth = (width / bufferLength) * 2.5;
-      let barX = 0;
+      // Wrap a line at its own size, shrinking it if it needs too many rows.
+      // `above` runs from the block top to the first row's centre (room for ruby
+      // included), `below` from the last row's centre down. In vertical writing
+      // the rows are columns and `above` reaches the middle of the tallest one.
+      const measureLine = (line: LyricLine, look: ResolvedLineStyle) => {
+        const vertical = settings.writingMode === 'vertical';
+        const maxWidth = vertical ? safeHeight : safeWidth;
+        const setFont = (size: number) => {
+          ctx.font = cssFont(look.fontWeight, size, look.fontFamily);
+          // Columns space their characters by hand
+          ctx.letterSpacing = vertical ? '0px' : `${size * settings.letterSpacing}px`;
+        };
+        // Keyframes blend the size every frame, so fits are cached at whole
+        // design units and scaled back to the exact size; the rows still hold
+        const fitSize = Math.max(1, Math.round(look.fontSize));
+        const fitKey = [line.text, look.fontFamily, look.fontWeight, fitSize, settings.letterSpacing, settings.writingMode, maxWidth].join('|');
+        let fit = fitCacheRef.current.get(fitKey);
+        if (!fit) {
+          fit = fitTextRows(ctx, line.text, maxWidth, fitSize, setFont, {
+            maxRows: LYRIC_MAX_ROWS,
+            minScale: LYRIC_MIN_FIT_SCALE,
+            measure: vertical ? (s, size) => columnLength(ctx, s, size, size * settings.letterSpacing) : undefined,
+          });
+          if (fitCacheRef.current.size >= FIT_CACHE_LIMIT) fitCacheRef.current.clear();
+          fitCacheRef.current.set(fitKey, fit);
+        }
+        const { rows } = fit;
+        const fontSize = fit.fontSize * (look.fontSize / fitSize);
+        setFont(fontSize);
 
-      for(let i = 0; i < bufferLength; i++) {
-        const barHeight = (dataArray[i] / 255) * (height / 3) * beatFactor;
-        
-        ctx.fillStyle = settings.secondaryColor;
-        ctx.globalAlpha = 0.3;
-        ctx.fillRect(barX, height - barHeight, barWidth, barHeight);
-        ctx.globalAlpha = 1.0;
-        
-        barX += barWidth + 1;
-      }
-    }
+        // Readings indexed by UTF-16 offset into line.text, to match the wrapped rows
+        const ruby = settings.showRuby ? getLineRuby(line, settings.rubySystem) : [];
+        const rubyAt: string[] = [];
+        let offset = 0;
+        Array.from(line.text).forEach((char, i) => {
+          rubyAt[offset] = ruby[i] || '';
+          offset += char.length;
+        });
+        const rubySize = fontSize * settings.rubyScale;
+        const rubyBand = ruby.some(Boolean) ? rubySize * 1.2 : 0;
 
-    const transitionDuration = settings.transitionDuration || 0.5;
-    
-    const drawLine = (line: LyricLine, phase: 'enter' | 'active' | 'exit', progress: number) => {
-      ctx.save();
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
+        const lineHeight = fontSize * settings.lineHeight + rubyBand;
+        const textHeight = vertical
+          ? Math.max(...rows.map(row => columnLength(ctx, row.text, fontSize, fontSize * settings.letterSpacing)))
+          : 0;
+        const width = vertical
+          ? (rows.length - 1) * lineHeight + fontSize + rubyBand
+          : Math.max(...rows.map(row => ctx.measureText(row.text).width));
+        const totalHeight = vertical ? 0 : (rows.length - 1) * lineHeight;
+        const above = vertical ? textHeight / 2 : rubyBand + fontSize * 0.6;
+        // From the centre of the text to its bottom edge and to the first translation row
+        const textBottom = vertical ? textHeight / 2 : totalHeight / 2 + fontSize * 0.6;
+        const translationTop = textBottom + fontSize * 0.4;
+
+        ctx.letterSpacing = '0px';
+        ctx.font = cssFont(500, fontSize * 0.45, look.fontFamily);
+        const translations = (settings.showTranslation ? displayedTranslations(line, settings.translationLanguages) : [])
+          .flatMap(translation => wrapTextRows(ctx, translation, safeWidth).map(row => row.text));
+        const bottom = translations.length > 0
+          ? translationTop + fontSize * (0.6 * (translations.length - 1) + 0.225)
+          : textBottom;
+        const below = bottom - totalHeight / 2;
+        return { vertical, fontSize, rows, width, lineHeight, totalHeight, textHeight, translations, translationTop, rubyAt, rubySize, rubyBand, above, height: above + totalHeight + below };
+      };
+
+      const visible: { line: LyricLine; phase: 'enter' | 'active' | 'exit'; progress: number }[] = [];
+      lyrics.forEach((line) => {
+          const timeSinceStart = currentTime - line.startTime;
+
+          if (currentTime >= line.startTime && currentTime < line.endTime) {
+              if (timeSinceStart < transitionDuration) {
+                  visible.push({ line, phase: 'enter', progress: timeSinceStart / transitionDuration });
+              } else {
+                  visible.push({ line, phase: 'active', progress: 1 });
+              }
+          }
+          else if (currentTime >= line.endTime && currentTime < line.endTime + transitionDuration) {
+               const exitProgress = (currentTime - line.endTime) / transitionDuration;
+               visible.push({ line, phase: 'exit', progress: exitProgress });
+          }
+      });
+
+      // Lines still on screen get their own slot; a line fading out cross-fades
+      // in place over the first slot of its track instead of pushing others aside
+      const tracks = settings.tracks;
+      const placed = visible
+        .map(item => {
+          const track = resolveTrack(tracks, item.line.trackId);
+          const anchor = resolveAnchor(item.line, track, settings);
+          const offset = resolveOffset(item.line, settings);
+          // Custom lines sharing a point stack there together
+          const spot = anchor === 'custom' ? `custom:${offset.x},${offset.y}` : anchor;
+          return {
+            ...item,
+            track,
+            anchor,
+            offset,
+            spot,
+            align: resolveAlign(item.line, track, settings),
+            look: resolveLineStyle(item.line, track, settings, currentTime),
+            order: trackIndex(tracks, item.line),
+          };
+        })
+        .sort((a, b) => a.order - b.order || a.line.startTime - b.line.startTime);
+      type PlacedLine = typeof placed[number];
+      const sharesSlot = (a: PlacedLine, b: PlacedLine) => a.track === b.track && a.spot === b.spot;
+      const holdsSlot = (item: PlacedLine) =>
+        item.phase !== 'exit' || !placed.some(other => sharesSlot(other, item) && other.phase !== 'exit');
+      const slotted = placed.filter(holdsSlot);
+      const measured = new Map(placed.map(item => [item, measureLine(item.line, item.look)]));
+      const gap = settings.fontSize * 0.3;
+
+      // Banded lines are laid out together inside the safe area and nudged by
+      // their offsets when drawn; custom lines stack around their own point
+      const slotTops = new Map<PlacedLine, number>();
+      const banded = slotted.filter(item => item.anchor !== 'custom');
+      layoutTrackBlocks(
+        banded.map(item => ({ position: item.anchor as TrackPosition, height: measured.get(item)!.height })),
+        height,
+        gap,
+        settings.safeMarginY
+      ).forEach((top, i) => slotTops.set(banded[i], top));
+      new Set(slotted.filter(item => item.anchor === 'custom').map(item => item.spot)).forEach(spot => {
+        const stack = slotted.filter(item => item.spot === spot);
+        const stackHeight = stack.reduce((sum, item) => sum + measured.get(item)!.height, 0) + gap * (stack.length - 1);
+        let y = height * (0.5 + stack[0].offset.y) - stackHeight / 2;
+        stack.forEach(item => {
+          slotTops.set(item, y);
+          y += measured.get(item)!.height + gap;
+        });
+      });
+
+      return placed.map(item => {
+          const slot = holdsSlot(item) ? item : slotted.find(other => sharesSlot(other, item))!;
+          const top = slotTops.get(slot)! + (item.anchor === 'custom' ? 0 : item.offset.y * height);
+          const x = (item.align === 'left' ? safeLeft : item.align === 'right' ? safeLeft + safeWidth : width / 2) + item.offset.x * width;
+          return { ...item, metrics: measured.get(item)!, x, top };
+      });
+    };
+    type LyricLayout = ReturnType<typeof layoutLyrics>;
+    type MeasuredLine = LyricLayout[number]['metrics'];
+
+    // The current line as drawLine sets it at rest, for effects that trace the text
+    const lyricShape = (layout: LyricLayout, line: LyricLine | null): TextShape | null => {
+      const item = line && layout.find(placed => placed.line === line);
+      if (!item) return null;
+      const { vertical, fontSize, rows, width: blockWidth, lineHeight, totalHeight, textHeight, rubyBand, above } = item.metrics;
+      const blockX = vertical ? item.x + (item.align === 'left' ? blockWidth / 2 : item.align === 'right' ? -blockWidth / 2 : 0) : item.x;
+      const centreY = item.top + above + totalHeight / 2;
+      return {
+        font: cssFont(item.look.fontWeight, fontSize, item.look.fontFamily),
+        fontSize,
+        letterSpacing: fontSize * settings.letterSpacing,
+        vertical,
+        align: vertical ? 'center' : item.align,
+        rows: rows.map(({ text }, i) => vertical
+          ? { text, x: blockX + blockWidth / 2 - rubyBand - fontSize / 2 - i * lineHeight, y: centreY - textHeight / 2 }
+          : { text, x: blockX, y: centreY + i * lineHeight - totalHeight / 2 }),
+      };
+    };
+
+    // `glow` enables the costly shadow glow and blur transitions; the WebGL
+    // path leaves them out and gets its glow from bloom instead
+    const drawLyrics = (ctx: CanvasRenderingContext2D, glow: boolean, layout: LyricLayout) => {
+      const drawLine = (
+        line: LyricLine,
+        look: ResolvedLineStyle,
+        align: TrackAlign,
+        measured: MeasuredLine,
+        x: number,
+        top: number,
+        phase: 'enter' | 'active' | 'exit',
+        progress: number
+      ) => {
+        const { vertical, fontSize, rows, width: blockWidth, lineHeight, totalHeight, textHeight, translations, translationTop, rubyAt, rubySize, rubyBand, above } = measured;
+        ctx.save();
+        ctx.textAlign = vertical ? 'center' : align;
+        ctx.textBaseline = 'middle';
       
-      let alpha = 1.0;
-      let scale = 1.0;
-      let yOffset = 0;
-      let blurAmount = 0;
+        let alpha = 1.0;
+        let scale = 1.0;
+        let yOffset = 0;
+        let blurAmount = 0;
       
-      const animType = settings.animationType;
-      const fontBasedOffset = settings.fontSize * 1.5; 
+        const animType = look.animationType;
+        const fontBasedOffset = fontSize * 1.5; 
 
-      if (phase === 'enter') {
-        const t = easeOutCubic(progress); 
+        if (phase === 'enter') {
+          const t = easeOutCubic(progress); 
         
-        if (animType === AnimationType.FADE) {
-          alpha = t;
-          blurAmount = (1 - t) * 4;
-        } else if (animType === AnimationType.SLIDE_UP) {
-          alpha = t;
-          yOffset = fontBasedOffset * (1 - t); 
-          blurAmount = (1 - t) * 3;
-        } else if (animType === AnimationType.ZOOM) {
-          alpha = t;
-          scale = 0.8 + (0.2 * t); 
-          blurAmount = (1 - t) * 2;
-        } else if (animType === AnimationType.BOUNCE) {
-          alpha = Math.min(1, progress * 3);
-          const bounceT = easeOutBack(progress);
-          scale = 0.5 + (0.5 * bounceT);
-        }
-      } 
-      else if (phase === 'exit') {
-        const t = easeInOutSine(progress); 
+          if (animType === AnimationType.FADE) {
+            alpha = t;
+            blurAmount = (1 - t) * 4;
+          } else if (animType === AnimationType.SLIDE_UP) {
+            alpha = t;
+            yOffset = fontBasedOffset * (1 - t); 
+            blurAmount = (1 - t) * 3;
+          } else if (animType === AnimationType.ZOOM) {
+            alpha = t;
+            scale = 0.8 + (0.2 * t); 
+            blurAmount = (1 - t) * 2;
+          } else if (animType === AnimationType.BOUNCE) {
+            alpha = Math.min(1, progress * 3);
+            const bounceT = easeOutBack(progress);
+            scale = 0.5 + (0.5 * bounceT);
+          }
+        } 
+        else if (phase === 'exit') {
+          const t = easeInOutSine(progress); 
         
-        if (animType === AnimationType.FADE) {
-          alpha = 1 - t;
-          blurAmount = t * 4;
-        } else if (animType === AnimationType.SLIDE_UP) {
-          alpha = 1 - t;
-          yOffset = -fontBasedOffset * t;
-          blurAmount = t * 3;
-        } else if (animType === AnimationType.ZOOM) {
-          alpha = 1 - t;
-          scale = 1 + (0.3 * t); 
-          blurAmount = t * 2;
-        } else if (animType === AnimationType.BOUNCE) {
-          alpha = 1 - t;
-          scale = 1 - (0.3 * t);
-        }
-      } 
+          if (animType === AnimationType.FADE) {
+            alpha = 1 - t;
+            blurAmount = t * 4;
+          } else if (animType === AnimationType.SLIDE_UP) {
+            alpha = 1 - t;
+            yOffset = -fontBasedOffset * t;
+            blurAmount = t * 3;
+          } else if (animType === AnimationType.ZOOM) {
+            alpha = 1 - t;
+            scale = 1 + (0.3 * t); 
+            blurAmount = t * 2;
+          } else if (animType === AnimationType.BOUNCE) {
+            alpha = 1 - t;
+            scale = 1 - (0.3 * t);
+          }
+        } 
       
-      ctx.translate(width / 2, height / 2 + yOffset);
-      ctx.scale(scale, scale);
-      ctx.globalAlpha = Math.max(0, Math.min(1, alpha));
+        // A column block is drawn around its centre, whatever the alignment
+        const blockX = vertical ? x + (align === 'left' ? blockWidth / 2 : align === 'right' ? -blockWidth / 2 : 0) : x;
+        scale *= 1 + LYRIC_BEAT_PULSE * audio.pulse * settings.beatSensitivity;
+        ctx.translate(blockX, top + above + totalHeight / 2 + yOffset);
+        ctx.scale(scale, scale);
+        ctx.globalAlpha = Math.max(0, Math.min(1, alpha));
       
-      if (blurAmount > 0.5) {
-        ctx.filter = `blur(${blurAmount}px)`;
-      } else {
-        ctx.filter = 'none';
-      }
+        if (glow && blurAmount > 0.5) {
+          ctx.filter = `blur(${blurAmount}px)`;
+        } else {
+          ctx.filter = 'none';
+        }
 
-      // Apply neon glow effect logic
-      const isNeon = settings.style === ThemeStyle.NEON;
-      const isFiery = settings.style === ThemeStyle.FIERY;
-      const isMinimal = settings.style === ThemeStyle.MINIMAL;
+        // Apply neon glow effect logic
+        const isNeon = look.style === ThemeStyle.NEON;
+        const isMinimal = look.style === ThemeStyle.MINIMAL;
 
-      if (!isMinimal) {
-        ctx.shadowColor = isFiery ? '#ea580c' : settings.primaryColor;
+        if (glow && !isMinimal) {
+          ctx.shadowColor = resolveGlowColor(look, settings);
         
-        // Dynamic blur calculation
-        // Base blur varies by style, but added component is purely based on beat
-        const baseBlur = isNeon ? 20 : 10;
-        const dynamicBlur = baseBlur + (30 * (beatFactor - 1)); 
-        ctx.shadowBlur = Math.max(0, dynamicBlur);
-      } else {
-        ctx.shadowColor = 'transparent';
-        ctx.shadowBlur = 0;
-      }
+          // Dynamic blur calculation
+          // Base blur varies by style, but added component is purely based on beat
+          const baseBlur = isNeon ? 20 : 10;
+          const dynamicBlur = baseBlur + (30 * (beatFactor - 1)); 
+          ctx.shadowBlur = Math.max(0, dynamicBlur);
+        } else {
+          ctx.shadowColor = 'transparent';
+          ctx.shadowBlur = 0;
+        }
 
-      ctx.font = `900 ${settings.fontSize}px ${settings.fontFamily}`;
-      ctx.fillStyle = '#ffffff';
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
-      
-      const lines = line.text.split('\n');
-      const lineHeight = settings.fontSize * 1.2;
-      const totalHeight = (lines.length - 1) * lineHeight;
-      
-      lines.forEach((txt, i) => {
-          const ly = (i * lineHeight) - (totalHeight / 2);
-          
-          if (isNeon || isFiery) {
-              ctx.strokeStyle = isFiery ? '#ea580c' : settings.primaryColor;
-              ctx.lineWidth = 3;
-              ctx.strokeText(txt, 0, ly);
+        const spacing = fontSize * settings.letterSpacing;
+        const outlineColor = resolveOutlineColor(look, settings);
+        ctx.font = cssFont(look.fontWeight, fontSize, look.fontFamily);
+        ctx.letterSpacing = vertical ? '0px' : `${spacing}px`;
+        ctx.lineWidth = settings.outlineWidth;
+        ctx.lineJoin = 'round';
+        if (outlineColor) ctx.strokeStyle = outlineColor;
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+
+        // Shadow offsets and blur are in canvas pixels, not design units
+        const transform = ctx.getTransform();
+        const pixelScale = Math.hypot(transform.a, transform.b);
+        const hasDropShadow = settings.textShadowDistance > 0 || settings.textShadowBlur > 0;
+
+        // The line colour, or the palette gradient across the box (x0, y0)-(x1, y1)
+        const textFill = (x0: number, y0: number, x1: number, y1: number): string | CanvasGradient => {
+          if (settings.textGradient === 'none') return look.color;
+          const gradient = settings.textGradient === 'vertical'
+            ? ctx.createLinearGradient(0, y0, 0, y1)
+            : ctx.createLinearGradient(x0, 0, x1, 0);
+          gradient.addColorStop(0, settings.primaryColor);
+          gradient.addColorStop(1, settings.secondaryColor);
+          return gradient;
+        };
+
+        // Drop shadow first, then outline and fill (carrying the glow, if any).
+        // The shadow pass draws its glyphs off-canvas with the shadow offset
+        // pulling the shadow back, so only the shadow lands and the text itself
+        // is painted once.
+        const paintText = (txt: string, px: number, py: number, fill: string | CanvasGradient) => {
+          const strokeAndFill = (x: number, y: number) => {
+            if (outlineColor) ctx.strokeText(txt, x, y);
+            ctx.fillStyle = fill;
+            ctx.fillText(txt, x, y);
+          };
+          if (hasDropShadow) {
+            // Shadow offsets are in canvas pixels; move the glyphs the same
+            // distance in the current (rotated, scaled) coordinate space
+            const away = ctx.canvas.width * 4;
+            const inverse = ctx.getTransform().inverse();
+            if (Number.isFinite(inverse.a) && Number.isFinite(inverse.b)) {
+              ctx.save();
+              ctx.shadowColor = settings.textShadowColor;
+              ctx.shadowBlur = settings.textShadowBlur * pixelScale;
+              ctx.shadowOffsetX = settings.textShadowDistance * pixelScale - away;
+              ctx.shadowOffsetY = settings.textShadowDistance * pixelScale;
+              strokeAndFill(px + inverse.a * away, py + inverse.b * away);
+              ctx.restore();
+            }
           }
-          ctx.fillText(txt, 0, ly);
-      });
+          strokeAndFill(px, py);
+        };
+      
+        // Karaoke progress in characters of line.text (null without word timing)
+        const sungChars = getSungCharCount(line, currentTime);
 
-      if (settings.showTranslation && line.translation) {
-        ctx.shadowBlur = 0;
-        ctx.filter = 'none'; 
-        ctx.font = `500 ${settings.fontSize * 0.45}px ${settings.fontFamily}`;
-        ctx.fillStyle = '#cbd5e1'; 
-        
-        const transY = (totalHeight / 2) + settings.fontSize * 1.0;
-        ctx.fillText(line.translation, 0, transY);
-      }
+        const drawRows = () => rows.forEach(({ text: txt, start: rowStart }, i) => {
+            const ly = (i * lineHeight) - (totalHeight / 2);
+            const rowWidth = ctx.measureText(txt).width;
+            const rowLeft = align === 'left' ? 0 : align === 'right' ? -rowWidth : -rowWidth / 2;
+            paintText(txt, 0, ly, textFill(rowLeft, ly - fontSize * 0.5, rowLeft + rowWidth, ly + fontSize * 0.5));
 
-      ctx.restore();
-    };
+            if (rubyBand > 0) {
+                // Centre each reading over its character, measured in the lyric font
+                const readings: { x: number; text: string }[] = [];
+                let offset = 0;
+                for (const char of txt) {
+                    const reading = rubyAt[rowStart + offset];
+                    if (reading) {
+                        const x = rowLeft + ctx.measureText(txt.slice(0, offset)).width + ctx.measureText(char).width / 2;
+                        readings.push({ x, text: reading });
+                    }
+                    offset += char.length;
+                }
+                ctx.save();
+                ctx.font = cssFont(700, rubySize, look.fontFamily);
+                ctx.letterSpacing = '0px';
+                ctx.textAlign = 'center';
+                ctx.fillStyle = settings.rubyColor;
+                ctx.shadowBlur = 0;
+                readings.forEach(({ x, text }) => ctx.fillText(text, x, ly - fontSize * 0.6 - rubyBand / 2));
+                ctx.restore();
+            }
 
-    lyrics.forEach((line) => {
-        const timeSinceStart = currentTime - line.startTime;
+            if (sungChars !== null) {
+                const sungInRow = Math.max(0, Math.min(txt.length, sungChars - rowStart));
+                if (sungInRow > 0) {
+                    // Wipe: repaint the sung part in the primary colour, clipped at the boundary
+                    const whole = Math.floor(sungInRow);
+                    const partialChar = txt.charAt(whole);
+                    const sungWidth = ctx.measureText(txt.slice(0, whole)).width +
+                        (partialChar ? ctx.measureText(partialChar).width * (sungInRow - whole) : 0);
 
-        if (currentTime >= line.startTime && currentTime < line.endTime) {
-            if (timeSinceStart < transitionDuration) {
-                drawLine(line, 'enter', timeSinceStart / transitionDuration);
-            } else {
-                drawLine(line, 'active', 1);
+                    ctx.save();
+                    ctx.beginPath();
+                    ctx.rect(rowLeft, ly - fontSize * 0.6, sungWidth, fontSize * 1.2);
+                    ctx.clip();
+                    ctx.fillStyle = look.highlightColor;
+                    ctx.fillText(txt, 0, ly);
+                    ctx.restore();
+                }
             }
+        });
+
+        // One character of a column, centred on (gx, gy): upright, tucked into
+        // the upper right (small punctuation) or turned sideways
+        const placeGlyph = (char: string, gx: number, gy: number, paint: (px: number, py: number) => void) => {
+          const glyph = verticalGlyph(char);
+          if (glyph === 'upright') return paint(gx, gy);
+          if (glyph === 'corner') return paint(gx + fontSize * 0.3, gy - fontSize * 0.3);
+          ctx.save();
+          ctx.translate(gx, gy);
+          ctx.rotate(Math.PI / 2);
+          paint(0, 0);
+          ctx.restore();
+        };
+
+        // Columns run right to left, each with its ruby on the right
+        const drawColumns = () => rows.forEach(({ text: txt, start: rowStart }, i) => {
+            const cx = blockWidth / 2 - rubyBand - fontSize / 2 - i * lineHeight;
+            const fill = textFill(cx - fontSize / 2, -textHeight / 2, cx + fontSize / 2, textHeight / 2);
+            let cy = -textHeight / 2;
+            let offset = 0;
+            for (const char of txt) {
+                const advance = verticalAdvance(ctx, char, fontSize, spacing);
+                const glyphY = cy + (advance - spacing) / 2;
+                const index = rowStart + offset;
+                placeGlyph(char, cx, glyphY, (px, py) => paintText(char, px, py, fill));
+
+                // Wipe: the sung share of the character, from its top
+                const sung = sungChars === null ? 0 : Math.max(0, Math.min(1, sungChars - index));
+                if (sung > 0) {
+                    ctx.save();
+                    ctx.beginPath();
+                    ctx.rect(cx - fontSize * 0.6, cy, fontSize * 1.2, (advance - spacing) * sung);
+                    ctx.clip();
+                    ctx.fillStyle = look.highlightColor;
+                    placeGlyph(char, cx, glyphY, (px, py) => ctx.fillText(char, px, py));
+                    ctx.restore();
+                }
+
+                const reading = rubyAt[index];
+                if (reading) {
+                    const readingChars = Array.from(reading);
+                    ctx.save();
+                    ctx.font = cssFont(700, rubySize, look.fontFamily);
+                    ctx.fillStyle = settings.rubyColor;
+                    ctx.shadowBlur = 0;
+                    readingChars.forEach((rubyChar, k) => {
+                        ctx.fillText(rubyChar, cx + fontSize / 2 + rubyBand / 2, glyphY + (k - (readingChars.length - 1) / 2) * rubySize);
+                    });
+                    ctx.restore();
+                }
+                cy += advance;
+                offset += char.length;
+            }
+        });
+
+        if (vertical) drawColumns();
+        else drawRows();
+
+        if (translations.length > 0) {
+          ctx.shadowBlur = 0;
+          ctx.filter = 'none'; 
+          ctx.font = cssFont(500, fontSize * 0.45, look.fontFamily);
+          ctx.letterSpacing = '0px';
+          ctx.fillStyle = '#cbd5e1'; 
+        
+          translations.forEach((translation, i) => {
+            ctx.fillText(translation, 0, translationTop + i * fontSize * 0.6);
+          });
         }
-        else if (currentTime >= line.endTime && currentTime < line.endTime + transitionDuration) {
-             const exitProgress = (currentTime - line.endTime) / transitionDuration;
-             drawLine(line, 'exit', exitProgress);
-        }
-    });
 
-    requestRef.current = requestAnimationFrame(animate);
+        ctx.restore();
+      };
+
+      const regions: LyricHitRegion[] = [];
+      layout.forEach(({ metrics: lineMetrics, x, top, ...item }) => {
+          drawLine(item.line, item.look, item.align, lineMetrics, x, top, item.phase, item.progress);
+
+          if (item.phase !== 'exit') {
+            const left = item.align === 'left' ? x : item.align === 'right' ? x - lineMetrics.width : x - lineMetrics.width / 2;
+            regions.push({ lineId: item.line.id, left, top, right: left + lineMetrics.width, bottom: top + lineMetrics.height });
+          }
+      });
+      if (!offlineRenderingRef.current) hitRegionsRef.current = regions;
+    };
+
+    const layout = layoutLyrics(ctx);
+    const currentLine = lyrics.find(line => currentTime >= line.startTime && currentTime < line.endTime) || null;
+    const currentShape = lyricShape(layout, currentLine);
+
+    const compositor = settings.renderer === 'webgl' ? getCompositor() : null;
+    if (!compositor) {
+      drawScene(ctx, null, currentLine, currentShape);
+      drawLyrics(ctx, true, layout);
+      return;
+    }
+
+    // Render at the target's pixel size, whatever its design-unit transform
+    const pixelScale = ctx.getTransform().a;
+    const pixelWidth = Math.round(width * pixelScale);
+    const pixelHeight = Math.round(height * pixelScale);
+    const sceneCtx = getLayerContext(sceneLayerRef, pixelWidth, pixelHeight, pixelScale);
+    const lyricCtx = getLayerContext(lyricLayerRef, pixelWidth, pixelHeight, pixelScale);
+    const points: EffectPoint[] = [];
+    drawScene(sceneCtx, points, currentLine, currentShape);
+    drawLyrics(lyricCtx, false, layout);
+    compositor.render({
+      scene: sceneCtx.canvas,
+      lyrics: lyricCtx.canvas,
+      points,
+      sprites: getSpriteAtlas(),
+      width,
+      height,
+      time: currentTime,
+      pulse: audio.pulse,
+      post: {
+        bloom: settings.bloomStrength,
+        chromaticAberration: settings.chromaticAberration,
+        filmGrain: settings.filmGrain,
+        beatZoom: settings.beatZoom,
+      },
+    }, pixelWidth, pixelHeight);
+    ctx.drawImage(compositor.canvas, 0, 0, width, height);
   }, []); // Empty deps because we use Refs
 
+  // Stable Animate Loop
+  const animate = useCallback(() => {
+    // The offline renderer owns the frame pipeline while it runs
+    if (!canvasRef.current || offlineRenderingRef.current) {
+      requestRef.current = requestAnimationFrame(animate);
+      return;
+    }
+    const ctx = canvasRef.current.getContext('2d', { alpha: false });
+    if (!ctx) return;
+
+    const { settings, currentTime, beats } = stateRef.current;
+    
+    // Draw in design units whatever the backing resolution (preview DPR or export size)
+    const { width, height } = getDesignSize(settings.aspectRatio);
+    const scale = canvasRef.current.width / width;
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+
+    let spectrum: Uint8Array | null = null;
+    let waveform: Uint8Array | null = null;
+    if (analyserRef.current) {
+      const bufferLength = analyserRef.current.frequencyBinCount;
+      if (!spectrumRef.current || spectrumRef.current.length !== bufferLength) {
+        spectrumRef.current = new Uint8Array(bufferLength);
+      }
+      analyserRef.current.getByteFrequencyData(spectrumRef.current);
+      spectrum = spectrumRef.current;
+      if (!waveformRef.current || waveformRef.current.length !== analyserRef.current.fftSize) {
+        waveformRef.current = new Uint8Array(analyserRef.current.fftSize);
+      }
+      analyserRef.current.getByteTimeDomainData(waveformRef.current);
+      waveform = waveformRef.current;
+    }
+    const features = beats ? getBeatFeatures(beats, currentTime, lastFrameTimeRef.current) : null;
+    lastFrameTimeRef.current = currentTime;
+    const audio: FrameAudio = buildFrameAudio(spectrum, waveform, spectrum ? bassLevel(spectrum) : 0, features, settings.beatSensitivity);
+
+    drawFrame(ctx, width, height, currentTime, audio, 1, Math.random);
+
+    requestRef.current = requestAnimationFrame(animate);
+  }, [drawFrame]);
+
   useEffect(() => {
     requestRef.current = requestAnimationFrame(animate);
     return () => {
@@ -416,8 +959,14 @@ const Visualizer: React.FC<VisualizerProps> = ({
     }
   }, [isPlaying, initAudio]);
 
-  const startRecording = () => {
+  const startRecording = async () => {
     if (!canvasRef.current || !audioRef.current) return;
+    await loadExportFonts();
+
+    // Record at the chosen export resolution rather than the preview's DPR size
+    const output = getOutputSize(settings.aspectRatio, settings.resolution);
+    canvasRef.current.width = output.width;
+    canvasRef.current.height = output.height;
 
     const canvasStream = canvasRef.current.captureStream(60); 
     
@@ -427,31 +976,29 @@ const Visualizer: React.FC<VisualizerProps> = ({
     const audioTrack = dest.stream.getAudioTracks()[0];
     canvasStream.addTrack(audioTrack);
 
+    const mimeType = pickRecorderMimeType(container);
     const recorder = new MediaRecorder(canvasStream, {
-      mimeType: 'video/webm;codecs=vp9',
+      mimeType,
       videoBitsPerSecond: 8000000 
     });
+    const recordedType = recorder.mimeType || mimeType || 'video/webm';
+    const recordedContainer: ExportContainer = recordedType.startsWith('video/mp4') ? 'mp4' : 'webm';
 
     recorder.ondataavailable = (e) => {
       if (e.data.size > 0) chunksRef.current.push(e.data);
     };
 
     recorder.onstop = () => {
-      const blob = new Blob(chunksRef.current, { type: 'video/webm' });
+      const blob = new Blob(chunksRef.current, { type: recordedType.split(';')[0] });
       chunksRef.current = [];
       
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.style.display = 'none';
-      a.href = url;
-      a.download = 'willwi-noodle-experiment.webm';
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
+      downloadBlob(blob, exportFileName(recordedContainer));
+      resizeCanvas();
       setRecording(false);
       onExportProgress(false);
     };
 
+    notifyFallback(recordedContainer);
     mediaRecorderRef.current = recorder;
     recorder.start();
     setRecording(true);
@@ -461,6 +1008,78 @@ const Visualizer: React.FC<VisualizerProps> = ({
     audioRef.current.play();
   };
 
+  // The studio decodes the song once; decode here only if that is still pending
+  const getAudioBuffer = async (src: string): Promise<AudioBuffer> =>
+    audioBuffer ?? decodeAudioFromUrl(src);
+
+  const startOfflineRender = async () => {
+    const canvas = canvasRef.current;
+    const audioEl = audioRef.current;
+    if (!canvas || !audioEl) return;
+    if (!isOfflineRenderSupported()) {
+      alert('此瀏覽器不支援離線輸出 (需要 WebCodecs，建議使用 Chrome)');
+      return;
+    }
+
+    audioEl.pause();
+    const video = bgVideoRef.current;
+    video.pause();
+
+    const controller = new AbortController();
+    offlineAbortRef.current = controller;
+    offlineRenderingRef.current = true;
+    setOfflineProgress({ stage: 'analyzing', progress: 0 });
+    onExportProgress(true);
+
+    try {
+      await loadExportFonts();
+      const buffer = await getAudioBuffer(audioEl.currentSrc || audioEl.src);
+      const { aspectRatio, resolution } = stateRef.current.settings;
+      const design = getDesignSize(aspectRatio);
+      const output = getOutputSize(aspectRatio, resolution);
+      const random = createSeededRandom(OFFLINE_RANDOM_SEED);
+      effectStatesRef.current.clear();
+
+      const result = await renderOffline({
+        width: output.width,
+        height: output.height,
+        fps: offlineFps,
+        duration: buffer.duration,
+        audioBuffer: buffer,
+        beatSensitivity: stateRef.current.settings.beatSensitivity,
+        beats: stateRef.current.beats,
+        container,
+        signal: controller.signal,
+        onProgress: setOfflineProgress,
+        drawFrame: async (ctx, frame) => {
+          if (stateRef.current.settings.backgroundVideo) await seekVideo(video, frame.time);
+          const scale = ctx.canvas.width / design.width;
+          ctx.setTransform(scale, 0, 0, scale, 0, 0);
+          drawFrame(ctx, design.width, design.height, frame.time, frame.audio, frame.dt * 60, random);
+        },
+      });
+
+      notifyFallback(result.container);
+      downloadBlob(result.blob, exportFileName(result.extension));
+    } catch (e: unknown) {
+      if (!(e instanceof DOMException && e.name === 'AbortError')) {
+        console.error('Offline render error:', e);
+        alert(`離線輸出失敗：${e instanceof Error ? e.message : String(e)}`);
+      }
+    } finally {
+      offlineRenderingRef.current = false;
+      offlineAbortRef.current = null;
+      effectStatesRef.current.clear();
+      setOfflineProgress(null);
+      onExportProgress(false);
+      if (stateRef.current.settings.backgroundVideo) video.play().catch(() => {});
+    }
+  };
+
+  const cancelOfflineRender = () => {
+    offlineAbortRef.current?.abort();
+  };
+
   const stopRecording = () => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
       mediaRecorderRef.current.stop();
@@ -468,13 +1087,141 @@ const Visualizer: React.FC<VisualizerProps> = ({
     }
   };
 
+  // --- Positioning lyrics on the preview ---
+
+  const canDrag = !recording && !offlineProgress;
+  const selectedIndex = lyrics.findIndex(line => line.id === selectedLineId);
+  const selectedLine = selectedIndex >= 0 ? lyrics[selectedIndex] : null;
+
+  const toDesignPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const design = getDesignSize(settings.aspectRatio);
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * design.width,
+      y: ((e.clientY - rect.top) / rect.height) * design.height,
+      ...design,
+    };
+  };
+
+  // Topmost block under the point: later lines are drawn over earlier ones
+  const hitLyric = (x: number, y: number) =>
+    [...hitRegionsRef.current].reverse().find(r => x >= r.left && x <= r.right && y >= r.top && y <= r.bottom);
+
+  const updatePlacement = (lineId: string, patch: LinePlacement, label: string, groupKey?: string) => {
+    onLyricsChange(
+      lines => lines.map(line => line.id === lineId ? { ...line, placement: { ...line.placement, ...patch } } : line),
+      label,
+      groupKey
+    );
+  };
+
+  const resetPlacement = (lineId: string) => {
+    onLyricsChange(
+      lines => lines.map(line => line.id === lineId ? { ...line, placement: undefined } : line),
+      '重設歌詞位置'
+    );
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!canDrag || e.button !== 0) return;
+    const { x, y } = toDesignPoint(e);
+    const hit = hitLyric(x, y);
+    const start = { pointerId: e.pointerId, startX: x, startY: y };
+    if (e.shiftKey) {
+      dragRef.current = { ...start, lineId: null, originX: settings.lyricOffsetX, originY: settings.lyricOffsetY };
+    } else if (hit) {
+      const placement = lyrics.find(line => line.id === hit.lineId)?.placement;
+      dragRef.current = { ...start, lineId: hit.lineId, originX: placement?.offsetX ?? 0, originY: placement?.offsetY ?? 0 };
+    }
+    setSelectedLineId(hit ? hit.lineId : null);
+    if (dragRef.current) e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    const { x, y, width, height } = toDesignPoint(e);
+    if (!drag || drag.pointerId !== e.pointerId) {
+      e.currentTarget.style.cursor = canDrag && (e.shiftKey || hitLyric(x, y)) ? 'move' : '';
+      return;
+    }
+    const offsetX = roundOffset(drag.originX + (x - drag.startX) / width);
+    const offsetY = roundOffset(drag.originY + (y - drag.startY) / height);
+    if (drag.lineId) {
+      updatePlacement(drag.lineId, { offsetX, offsetY }, '拖曳歌詞位置', `placement-drag:${drag.lineId}`);
+    } else {
+      onSettingsChange({ lyricOffsetX: offsetX, lyricOffsetY: offsetY });
+    }
+  };
+
+  const endDrag = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragRef.current?.pointerId !== e.pointerId) return;
+    dragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
   return (
     <div className="flex flex-col gap-4 w-full h-full font-sans">
+      <div ref={containerRef} className="flex-1 min-h-0 w-full flex items-center justify-center">
       <div 
-        ref={containerRef} 
-        className="w-full relative shadow-2xl rounded-xl overflow-hidden border-2 border-brand-700 bg-brand-900 aspect-video"
+        className="relative shadow-2xl rounded-xl overflow-hidden border-2 border-brand-700 bg-brand-900"
+        style={{ width: previewSize.width, height: previewSize.height }}
       >
-        <canvas ref={canvasRef} className="w-full h-full block" />
+        <canvas
+          ref={canvasRef}
+          className="w-full h-full block touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+        />
+
+        {selectedLine && canDrag && (
+          <div className="absolute top-3 left-3 z-10 flex items-center gap-1 bg-brand-900/90 border border-brand-700 rounded-lg px-2 py-1 text-[11px] text-stone-300">
+            <span className="font-bold text-noodle mr-1">第 {selectedIndex + 1} 行</span>
+            <select
+              value={selectedLine.placement?.anchor || ''}
+              onChange={(e) => updatePlacement(selectedLine.id, { anchor: (e.target.value || undefined) as LinePlacement['anchor'] }, '調整歌詞位置')}
+              className="bg-brand-800 rounded border border-brand-700 p-1 outline-none"
+              title="此行的位置"
+            >
+              <option value="">預設位置</option>
+              {LYRIC_ANCHORS.map(a => <option key={a.anchor} value={a.anchor}>{a.label}</option>)}
+            </select>
+            <select
+              value={selectedLine.placement?.align || ''}
+              onChange={(e) => updatePlacement(selectedLine.id, { align: (e.target.value || undefined) as TrackAlign | undefined }, '調整歌詞對齊')}
+              className="bg-brand-800 rounded border border-brand-700 p-1 outline-none"
+              title="此行的對齊"
+            >
+              <option value="">預設對齊</option>
+              {TRACK_ALIGNS.map(a => <option key={a.align} value={a.align}>{a.label}</option>)}
+            </select>
+            <button
+              onClick={() => resetPlacement(selectedLine.id)}
+              disabled={!selectedLine.placement}
+              className="px-2 py-1 rounded border border-brand-700 hover:border-noodle hover:text-noodle disabled:opacity-30"
+              title="清除此行的位置與位移"
+            >
+              重設
+            </button>
+            <button onClick={() => setSelectedLineId(null)} className="px-1 text-stone-500 hover:text-white" title="關閉">✕</button>
+          </div>
+        )}
+
+        {/* Preview-only guide: never drawn into the canvas, so never recorded */}
+        {showSafeArea && (
+          <div
+            className="absolute border border-dashed border-noodle/70 pointer-events-none"
+            style={{
+              left: `${settings.safeMarginX * 100}%`,
+              right: `${settings.safeMarginX * 100}%`,
+              top: `${settings.safeMarginY * 100}%`,
+              bottom: `${settings.safeMarginY * 100}%`,
+            }}
+          >
+            <span className="absolute top-1 left-1 text-[10px] text-noodle/80 font-bold">安全區域</span>
+          </div>
+        )}
         
         {recording && (
            <div className="absolute top-4 right-4 flex items-center gap-2 bg-red-600/80 px-3 py-1 rounded-full animate-pulse z-20">
@@ -483,12 +1230,71 @@ const Visualizer: React.FC<VisualizerProps> = ({
            </div>
         )}
       </div>
+      </div>
 
       <div className="flex justify-between items-center bg-brand-800 p-4 rounded-xl border border-brand-700">
-        <div className="text-sm text-stone-400">
+        {offlineProgress ? (
+          <div className="flex-1 flex items-center gap-4">
+            <div className="flex-1">
+              <div className="flex justify-between text-xs text-stone-400 mb-1">
+                <span>離線輸出中 · {OFFLINE_STAGE_LABELS[offlineProgress.stage]}</span>
+                <span className="font-mono">{Math.round(overallOfflineProgress(offlineProgress) * 100)}%</span>
+              </div>
+              <div className="h-2 bg-brand-900 rounded-full overflow-hidden border border-brand-700">
+                <div
+                  className="h-full bg-gradient-to-r from-noodle to-soup transition-[width] duration-150"
+                  style={{ width: `${overallOfflineProgress(offlineProgress) * 100}%` }}
+                />
+              </div>
+            </div>
+            <button
+              onClick={cancelOfflineRender}
+              className="px-4 py-2 border border-red-500 text-red-400 rounded-lg text-sm font-bold hover:bg-red-900/30 transition-all"
+            >
+              取消
+            </button>
+          </div>
+        ) : (
+        <>
+        <div className="flex items-center gap-3 text-sm text-stone-400">
             {recording ? "錄製中... 請讓歌曲播放完畢，按停止以儲存" : "預覽模式 (建議使用 Chrome)"}
+            <button
+              onClick={() => setShowSafeArea(v => !v)}
+              className={`px-2 py-1 rounded border text-xs transition-colors ${showSafeArea ? 'border-noodle text-noodle' : 'border-brand-700 text-stone-500 hover:text-white'}`}
+              title="顯示字幕安全區域 (僅預覽)"
+            >
+              安全框
+            </button>
         </div>
         {!recording ? (
+          <div className="flex items-center gap-2">
+             <select
+               value={container}
+               onChange={(e) => setContainer(e.target.value as ExportContainer)}
+               className="bg-brand-900 text-stone-300 text-xs rounded-md border border-brand-700 p-2 outline-none focus:border-noodle"
+               title="輸出格式"
+             >
+               {(Object.keys(CONTAINER_LABELS) as ExportContainer[]).map(c => (
+                 <option key={c} value={c}>{CONTAINER_LABELS[c]}</option>
+               ))}
+             </select>
+             <select
+               value={offlineFps}
+               onChange={(e) => setOfflineFps(Number(e.target.value))}
+               className="bg-brand-900 text-stone-300 text-xs rounded-md border border-brand-700 p-2 outline-none focus:border-noodle"
+               title="離線輸出影格率"
+             >
+               {OFFLINE_FPS_OPTIONS.map(fps => (
+                 <option key={fps} value={fps}>{fps} fps</option>
+               ))}
+             </select>
+             <button
+               onClick={startOfflineRender}
+               className="px-4 py-2 border border-noodle text-noodle rounded-lg font-bold hover:bg-brand-700 transition-all"
+               title="逐格渲染，比即時錄製更快且不掉格"
+             >
+               離線輸出 (快速)
+             </button>
              <button 
              onClick={startRecording}
              className="px-6 py-2 bg-gradient-to-r from-noodle to-soup rounded-lg text-brand-900 font-bold hover:brightness-110 transition-all flex items-center gap-2"
@@ -496,8 +1302,9 @@ const Visualizer: React.FC<VisualizerProps> = ({
              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
              </svg>
-             開始錄製 (MP4/WebM)
+             即時錄製
            </button>
+          </div>
         ) : (
             <button 
             onClick={stopRecording}
@@ -506,7 +1313,8 @@ const Visualizer: React.FC<VisualizerProps> = ({
             停止並下載
           </button>
         )}
-       
+        </>
+        )}
       </div>
     </div>
   );
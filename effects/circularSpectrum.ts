@@ -0,0 +1,51 @@
+import { defineEffect } from './effectPlugin';
+
+// Only the lower bins carry much energy in music; the top of the range stays flat
+const USED_BINS_SHARE = 0.7;
+
+// Frequency bars standing on a ring around the centre, mirrored left and
+// right so the lows meet at the top. The ring swells on beats.
+export const circularSpectrumEffect = defineEffect<null>({
+  id: 'circular-spectrum',
+  label: '環形頻譜',
+  createState: () => null,
+  draw: (_state, { ctx, width, height, time, audio, settings, opacity }) => {
+    if (!audio.spectrum) return;
+    const bins = Math.floor(audio.spectrum.length * USED_BINS_SHARE);
+    const shortEdge = Math.min(width, height);
+    const radius = shortEdge * 0.22 * (1 + audio.pulse * 0.08);
+    const maxBar = shortEdge * 0.16 * audio.beatFactor;
+    const barWidth = Math.max(2, (Math.PI * radius) / bins * 0.6);
+
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(time * 0.05);
+    ctx.lineCap = 'round';
+    ctx.lineWidth = barWidth;
+    ctx.globalAlpha = 0.55 * opacity;
+
+    for (let i = 0; i < bins; i++) {
+      const level = audio.spectrum[i] / 255;
+      const length = 4 + level * maxBar;
+      ctx.strokeStyle = i % 2 === 0 ? settings.primaryColor : settings.secondaryColor;
+      // Same bin on both sides, starting from the top
+      [1, -1].forEach(side => {
+        const angle = -Math.PI / 2 + side * (i + 0.5) / bins * Math.PI;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        ctx.beginPath();
+        ctx.moveTo(cos * radius, sin * radius);
+        ctx.lineTo(cos * (radius + length), sin * (radius + length));
+        ctx.stroke();
+      });
+    }
+
+    ctx.globalAlpha = 0.3 * opacity;
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = settings.primaryColor;
+    ctx.beginPath();
+    ctx.arc(0, 0, radius - 6, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  },
+});
\ No newline at end of file
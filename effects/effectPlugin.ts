@@ -0,0 +1,58 @@
+import { LyricLine, VisualSettings } from '../types';
+import { FrameAudio } from '../services/audioAnalysis';
+
+// Everything an effect sees for one frame. Sizes are in design units.
+export interface EffectFrame {
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  time: number; // song position in seconds
+  step: number; // time since the last frame, in 60fps frames
+  audio: FrameAudio;
+  settings: VisualSettings;
+  random: () => number; // seeded during offline export; use it instead of Math.random
+  opacity: number; // the layer's opacity, to multiply into any alpha the effect sets
+  currentLine: LyricLine | null; // the line being sung, if any
+  currentShape: TextShape | null; // how and where that line is set
+}
+
+// A lyric line as the renderer sets it at rest: its fitted rows (columns in
+// vertical writing) and font. Horizontal rows are anchored at their middle
+// baseline with `align`; a column gives its centre x and top y.
+export interface TextShape {
+  font: string; // CSS shorthand
+  fontSize: number;
+  letterSpacing: number;
+  vertical: boolean;
+  align: CanvasTextAlign;
+  rows: { text: string; x: number; y: number }[];
+}
+
+// A sprite for the GPU path, in design units
+export interface EffectPoint {
+  x: number;
+  y: number;
+  size: number; // radius
+  rotation: number; // radians
+  sprite: number; // cell in the sprite atlas, see spriteIndex
+  color: string; // '#rrggbb'
+  alpha: number;
+}
+
+// A layer drawn between the background and the lyrics. Whatever the effect
+// keeps between frames (particles, raindrops...) lives in the state from
+// `createState`, which is thrown away when the layer is removed or an export
+// starts.
+export interface EffectPlugin<State = unknown> {
+  id: string;
+  label: string;
+  createState: () => State;
+  draw: (state: State, frame: EffectFrame) => void;
+  // Optional GPU path: advance the effect and return its dots instead of
+  // drawing them, so the WebGL renderer can draw them in one instanced call
+  simulate?: (state: State, frame: EffectFrame) => EffectPoint[];
+}
+
+// Erases the state type so plugins with different states fit in one registry
+export const defineEffect = <State>(plugin: EffectPlugin<State>): EffectPlugin =>
+  plugin as unknown as EffectPlugin;
\ No newline at end of file
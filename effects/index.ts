@@ -0,0 +1,40 @@
+import { EffectLayer } from '../types';
+import { EffectPlugin } from './effectPlugin';
+import { particlesEffect } from './particles';
+import { spectrumBarsEffect } from './spectrumBars';
+import { circularSpectrumEffect } from './circularSpectrum';
+import { waveformRibbonEffect } from './waveformRibbon';
+import { steamEffect } from './steam';
+import { noodlesEffect } from './noodles';
+import { rainEffect } from './rain';
+
+export type { EffectPlugin, EffectFrame, EffectPoint, TextShape } from './effectPlugin';
+export { PARTICLE_SHAPES, SPRITE_FILL, getSpriteAtlas } from './sprites';
+export { PARTICLE_PRESETS, getParticlePreset } from './particlePresets';
+
+// Every effect the studio offers, in the order the layer picker lists them
+export const EFFECT_PLUGINS: EffectPlugin[] = [
+  particlesEffect,
+  spectrumBarsEffect,
+  circularSpectrumEffect,
+  waveformRibbonEffect,
+  steamEffect,
+  noodlesEffect,
+  rainEffect,
+];
+
+export const getEffectPlugin = (id: string): EffectPlugin | undefined =>
+  EFFECT_PLUGINS.find(plugin => plugin.id === id);
+
+export const createEffectLayer = (effect: string): EffectLayer => ({
+  id: `layer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  effect,
+  enabled: true,
+  opacity: 1,
+});
+
+// The original pipeline: particles, then spectrum bars along the bottom
+export const DEFAULT_EFFECT_LAYERS: EffectLayer[] = [
+  { id: 'particles', effect: particlesEffect.id, enabled: true, opacity: 1 },
+  { id: 'spectrum-bars', effect: spectrumBarsEffect.id, enabled: true, opacity: 1 },
+];
\ No newline at end of file
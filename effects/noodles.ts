@@ -0,0 +1,46 @@
+import { defineEffect } from './effectPlugin';
+
+const STRANDS = 7;
+const STRAND_SEGMENTS = 40;
+
+// Wavy noodle strands lifted out of the bottom of the frame, swaying with
+// the music. Stateless: every strand is a function of time.
+export const noodlesEffect = defineEffect<null>({
+  id: 'noodles',
+  label: '麵條',
+  createState: () => null,
+  draw: (_state, { ctx, width, height, time, audio, settings, opacity }) => {
+    const shortEdge = Math.min(width, height);
+    const amplitude = shortEdge * (0.025 + audio.pulse * 0.02);
+    const thickness = shortEdge * 0.009;
+
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    for (let s = 0; s < STRANDS; s++) {
+      const baseX = width * (0.5 + (s - (STRANDS - 1) / 2) * 0.035);
+      const phase = s * 1.7;
+      const top = height * (0.38 + (s % 3) * 0.05);
+
+      ctx.beginPath();
+      for (let i = 0; i <= STRAND_SEGMENTS; i++) {
+        const t = i / STRAND_SEGMENTS; // 0 at the bottom edge, 1 at the lifted end
+        const y = height - (height - top) * t;
+        // The lifted end swings more than the part still in the bowl
+        const x = baseX + Math.sin(t * 9 + time * 2 + phase) * amplitude * (0.3 + t);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.globalAlpha = 0.45 * opacity;
+      ctx.strokeStyle = settings.primaryColor;
+      ctx.lineWidth = thickness;
+      ctx.stroke();
+      // Sheen along the strand
+      ctx.globalAlpha = 0.25 * opacity;
+      ctx.strokeStyle = '#fff7d6';
+      ctx.lineWidth = thickness * 0.3;
+      ctx.stroke();
+    }
+    ctx.restore();
+  },
+});
\ No newline at end of file
@@ -0,0 +1,66 @@
+// Fixed-capacity particle storage in flat arrays. The live particles always
+// occupy slots 0..count-1; removing one moves the last live particle into its
+// slot, so nothing is allocated or shifted while the effect runs.
+export class ParticlePool {
+  readonly capacity: number;
+  count = 0;
+  readonly x: Float32Array;
+  readonly y: Float32Array;
+  readonly vx: Float32Array;
+  readonly vy: Float32Array;
+  readonly life: Float32Array;
+  readonly maxLife: Float32Array;
+  readonly size: Float32Array;
+  readonly rotation: Float32Array;
+  readonly spin: Float32Array;
+  readonly target: Int32Array; // index into the text shape, -1 for none
+  readonly color: string[];
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.x = new Float32Array(capacity);
+    this.y = new Float32Array(capacity);
+    this.vx = new Float32Array(capacity);
+    this.vy = new Float32Array(capacity);
+    this.life = new Float32Array(capacity);
+    this.maxLife = new Float32Array(capacity);
+    this.size = new Float32Array(capacity);
+    this.rotation = new Float32Array(capacity);
+    this.spin = new Float32Array(capacity);
+    this.target = new Int32Array(capacity);
+    this.color = new Array<string>(capacity).fill('#ffffff');
+  }
+
+  // Index of a fresh slot (life 0, no target), or -1 when the pool is full
+  spawn(): number {
+    if (this.count >= this.capacity) return -1;
+    const i = this.count++;
+    this.life[i] = 0;
+    this.rotation[i] = 0;
+    this.spin[i] = 0;
+    this.target[i] = -1;
+    return i;
+  }
+
+  // Iterate from the end when removing inside a loop: the particle moved into
+  // slot i has then already been visited
+  remove(i: number) {
+    const last = --this.count;
+    if (i === last) return;
+    this.x[i] = this.x[last];
+    this.y[i] = this.y[last];
+    this.vx[i] = this.vx[last];
+    this.vy[i] = this.vy[last];
+    this.life[i] = this.life[last];
+    this.maxLife[i] = this.maxLife[last];
+    this.size[i] = this.size[last];
+    this.rotation[i] = this.rotation[last];
+    this.spin[i] = this.spin[last];
+    this.target[i] = this.target[last];
+    this.color[i] = this.color[last];
+  }
+
+  alpha(i: number): number {
+    return Math.max(0, 1 - this.life[i] / this.maxLife[i]);
+  }
+}
\ No newline at end of file
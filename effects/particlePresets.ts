@@ -0,0 +1,36 @@
+import { ParticleShape } from '../types';
+
+// Where new particles appear:
+// field  - anywhere, drifting slowly (bouncing off the edges)
+// bottom - along the bottom edge, heading up
+// top    - along the top edge, heading down
+// center - from the centre, flying outwards
+// text   - anywhere, then drawn into the shape of the current lyric line
+export type EmitterKind = 'field' | 'bottom' | 'top' | 'center' | 'text';
+
+export interface EmitterPreset {
+  id: string;
+  label: string;
+  emitter: EmitterKind;
+  shape: ParticleShape;
+  gravity: number;
+  wind: number;
+  speed: number; // initial speed, design units per 60fps frame
+  drag: number; // share of velocity lost per frame
+  life: [number, number]; // lifetime range in 60fps frames
+  size: [number, number]; // radius range in design units
+  spin: number; // largest rotation speed, radians per frame
+  burst: number; // extra particles on each beat at sensitivity 1 (doubled on downbeats)
+}
+
+export const PARTICLE_PRESETS: EmitterPreset[] = [
+  { id: 'float', label: '漂浮光點', emitter: 'field', shape: 'circle', gravity: 0, wind: 0, speed: 0.5, drag: 0, life: [100, 200], size: [1, 4], spin: 0, burst: 12 },
+  { id: 'embers', label: '餘燼', emitter: 'bottom', shape: 'spark', gravity: -0.02, wind: 0.01, speed: 1.5, drag: 0.005, life: [120, 240], size: [3, 7], spin: 0, burst: 20 },
+  { id: 'snow', label: '飄雪', emitter: 'top', shape: 'circle', gravity: 0.01, wind: 0.02, speed: 0.6, drag: 0.01, life: [400, 600], size: [2, 5], spin: 0, burst: 0 },
+  { id: 'petals', label: '花瓣', emitter: 'top', shape: 'heart', gravity: 0.015, wind: 0.04, speed: 0.8, drag: 0.01, life: [400, 600], size: [5, 10], spin: 0.05, burst: 4 },
+  { id: 'fireworks', label: '煙火', emitter: 'center', shape: 'star', gravity: 0.05, wind: 0, speed: 5, drag: 0.02, life: [60, 110], size: [3, 7], spin: 0.1, burst: 40 },
+  { id: 'lyric', label: '文字粒子', emitter: 'text', shape: 'circle', gravity: 0, wind: 0, speed: 0.5, drag: 0, life: [200, 400], size: [1.5, 3.5], spin: 0, burst: 10 },
+];
+
+export const getParticlePreset = (id: string): EmitterPreset =>
+  PARTICLE_PRESETS.find(preset => preset.id === id) || PARTICLE_PRESETS[0];
\ No newline at end of file
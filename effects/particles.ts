@@ -0,0 +1,187 @@
+import { defineEffect, EffectFrame, EffectPoint } from './effectPlugin';
+import { ParticlePool } from './particlePool';
+import { getParticlePreset, EmitterPreset } from './particlePresets';
+import { drawShape, spriteIndex } from './sprites';
+import { textShapePoints } from './textShape';
+
+// Room for the steady population plus beat bursts at the highest settings
+const POOL_CAPACITY = 3000;
+// Particles outside the canvas by more than this are retired
+const OFFSCREEN_MARGIN = 60;
+// Pull towards a text point and the damping that lets particles settle there
+const HOMING_PULL = 0.015;
+const HOMING_DAMPING = 0.9;
+
+interface ParticleState {
+  pool: ParticlePool;
+  pending: number; // fractional particles carried to the next frame
+  shape: Float32Array | null; // the text points targets were assigned for
+}
+
+const between = ([min, max]: [number, number], random: () => number) => min + random() * (max - min);
+
+// Spawns `count` particles from the preset's emitter. Bursts leave faster,
+// and field and text bursts come out of the centre.
+const emit = (state: ParticleState, preset: EmitterPreset, frame: EffectFrame, count: number, burst: number) => {
+  const { pool, shape } = state;
+  const { width, height, settings, random } = frame;
+  for (let n = 0; n < count; n++) {
+    const i = pool.spawn();
+    if (i < 0) return;
+    const angle = random() * Math.PI * 2;
+    const speed = preset.speed * (0.5 + random()) * (burst > 0 ? 2 + burst * 2 : 1);
+    const fromCentre = preset.emitter === 'center' || (burst > 0 && (preset.emitter === 'field' || preset.emitter === 'text'));
+
+    if (fromCentre) {
+      pool.x[i] = width / 2;
+      pool.y[i] = height / 2;
+      pool.vx[i] = Math.cos(angle) * speed;
+      pool.vy[i] = Math.sin(angle) * speed;
+    } else if (preset.emitter === 'bottom' || preset.emitter === 'top') {
+      const down = preset.emitter === 'top' ? 1 : -1;
+      pool.x[i] = random() * width;
+      pool.y[i] = preset.emitter === 'top' ? -10 : height + 10;
+      pool.vx[i] = (random() - 0.5) * speed * 0.5;
+      pool.vy[i] = down * speed;
+    } else {
+      pool.x[i] = random() * width;
+      pool.y[i] = random() * height;
+      pool.vx[i] = Math.cos(angle) * speed * 0.5;
+      pool.vy[i] = Math.sin(angle) * speed * 0.5;
+    }
+
+    pool.maxLife[i] = burst > 0 ? between(preset.life, random) * 0.5 : between(preset.life, random);
+    pool.size[i] = between(preset.size, random);
+    pool.rotation[i] = random() * Math.PI * 2;
+    pool.spin[i] = (random() - 0.5) * 2 * preset.spin;
+    pool.color[i] = random() > 0.5 ? settings.primaryColor : settings.secondaryColor;
+    if (shape && shape.length > 0) pool.target[i] = Math.floor(random() * (shape.length / 2));
+  }
+};
+
+// Keeps the text targets in step with the current line
+const updateShape = (state: ParticleState, preset: EmitterPreset, frame: EffectFrame) => {
+  const { width, height, currentShape, random } = frame;
+  // Points are cached per shape, so an unchanged line returns the same array
+  const shape = preset.emitter === 'text' && currentShape ? textShapePoints(currentShape, width, height) : null;
+  if (shape === state.shape) return;
+  state.shape = shape;
+  const targets = state.shape ? state.shape.length / 2 : 0;
+  for (let i = 0; i < state.pool.count; i++) {
+    state.pool.target[i] = targets > 0 ? Math.floor(random() * targets) : -1;
+  }
+};
+
+// Emit, apply forces and retire dead particles for one step
+const advance = (state: ParticleState, frame: EffectFrame) => {
+  const { pool } = state;
+  const { width, height, step, audio, settings } = frame;
+  const preset = getParticlePreset(settings.particlePreset);
+  updateShape(state, preset, frame);
+
+  // Steady emission keeps about particleCount alive
+  const meanLife = (preset.life[0] + preset.life[1]) / 2;
+  state.pending += (settings.particleCount / meanLife) * step;
+  const steady = Math.floor(state.pending);
+  state.pending -= steady;
+  emit(state, preset, frame, Math.min(steady, Math.max(0, settings.particleCount - pool.count)), 0);
+
+  if (audio.beat && settings.particleCount > 0 && preset.burst > 0) {
+    const strength = audio.downbeat ? 1.5 : 1;
+    const count = Math.round(preset.burst * (audio.downbeat ? 2 : 1) * settings.beatSensitivity);
+    emit(state, preset, frame, count, strength);
+  }
+
+  const drag = Math.pow(1 - preset.drag, step);
+  const damping = Math.pow(HOMING_DAMPING, step);
+  const { shape } = state;
+  for (let i = pool.count - 1; i >= 0; i--) {
+    pool.life[i] += step;
+    if (pool.life[i] >= pool.maxLife[i]) {
+      pool.remove(i);
+      continue;
+    }
+
+    const target = pool.target[i];
+    if (shape && target >= 0) {
+      pool.vx[i] = (pool.vx[i] + (shape[target * 2] - pool.x[i]) * HOMING_PULL * step) * damping;
+      pool.vy[i] = (pool.vy[i] + (shape[target * 2 + 1] - pool.y[i]) * HOMING_PULL * step) * damping;
+    } else {
+      pool.vx[i] = (pool.vx[i] + settings.particleWind * step) * drag;
+      pool.vy[i] = (pool.vy[i] + settings.particleGravity * step) * drag;
+    }
+    pool.x[i] += pool.vx[i] * audio.beatFactor * step;
+    pool.y[i] += pool.vy[i] * audio.beatFactor * step;
+    pool.rotation[i] += pool.spin[i] * step;
+
+    if (preset.emitter === 'field' || preset.emitter === 'text') {
+      if (pool.x[i] < 0 || pool.x[i] > width) pool.vx[i] *= -1;
+      if (pool.y[i] < 0 || pool.y[i] > height) pool.vy[i] *= -1;
+    } else if (
+      pool.x[i] < -OFFSCREEN_MARGIN || pool.x[i] > width + OFFSCREEN_MARGIN ||
+      pool.y[i] < -OFFSCREEN_MARGIN || pool.y[i] > height + OFFSCREEN_MARGIN
+    ) {
+      pool.remove(i);
+    }
+  }
+};
+
+// Settled text particles fade in and out instead of only fading out
+const particleAlpha = (state: ParticleState, i: number): number => {
+  const { pool } = state;
+  if (state.shape && pool.target[i] >= 0) return Math.sin(Math.PI * Math.min(1, pool.life[i] / pool.maxLife[i]));
+  return pool.alpha(i);
+};
+
+// Sparks point along their velocity; other shapes use their own rotation
+const particleRotation = (state: ParticleState, i: number, shape: string): number =>
+  shape === 'spark' ? Math.atan2(state.pool.vy[i], state.pool.vx[i]) : state.pool.rotation[i];
+
+// Pooled physics particles: emitter presets, gravity and wind, beat bursts and
+// particles that gather into the current lyric line
+export const particlesEffect = defineEffect<ParticleState>({
+  id: 'particles',
+  label: '粒子',
+  createState: () => ({ pool: new ParticlePool(POOL_CAPACITY), pending: 0, shape: null }),
+  draw: (state, frame) => {
+    advance(state, frame);
+    const { ctx, settings, opacity } = frame;
+    const { pool } = state;
+    const shape = settings.particleShape;
+    for (let i = 0; i < pool.count; i++) {
+      ctx.globalAlpha = particleAlpha(state, i) * opacity;
+      ctx.fillStyle = pool.color[i];
+      if (shape === 'circle') {
+        ctx.beginPath();
+        ctx.arc(pool.x[i], pool.y[i], pool.size[i], 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        ctx.save();
+        ctx.translate(pool.x[i], pool.y[i]);
+        ctx.rotate(particleRotation(state, i, shape));
+        drawShape(ctx, shape, pool.size[i]);
+        ctx.restore();
+      }
+    }
+    ctx.globalAlpha = 1.0;
+  },
+  simulate: (state, frame) => {
+    advance(state, frame);
+    const { pool } = state;
+    const shape = frame.settings.particleShape;
+    const sprite = spriteIndex(shape);
+    const points: EffectPoint[] = new Array(pool.count);
+    for (let i = 0; i < pool.count; i++) {
+      points[i] = {
+        x: pool.x[i],
+        y: pool.y[i],
+        size: pool.size[i],
+        rotation: particleRotation(state, i, shape),
+        sprite,
+        color: pool.color[i],
+        alpha: particleAlpha(state, i) * frame.opacity,
+      };
+    }
+    return points;
+  },
+});
\ No newline at end of file
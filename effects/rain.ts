@@ -0,0 +1,49 @@
+import { defineEffect } from './effectPlugin';
+
+interface Drop {
+  x: number;
+  y: number;
+  length: number;
+  speed: number; // design units per 60fps frame
+}
+
+const DROPS = 160;
+// Horizontal drift per unit of fall
+const WIND_SLANT = 0.15;
+
+const spawnDrop = (width: number, height: number, random: () => number, y: number): Drop => ({
+  x: random() * width * (1 + WIND_SLANT) - width * WIND_SLANT,
+  y,
+  length: 20 + random() * 30,
+  speed: 10 + random() * 8,
+});
+
+// Slanted streaks falling over the whole frame, faster on beats
+export const rainEffect = defineEffect<Drop[]>({
+  id: 'rain',
+  label: '雨',
+  createState: () => [],
+  draw: (drops, { ctx, width, height, step, audio, random, opacity }) => {
+    // Fill the sky at once the first time, then recycle drops that land
+    while (drops.length < DROPS) drops.push(spawnDrop(width, height, random, random() * height));
+
+    ctx.save();
+    ctx.strokeStyle = '#cbd5e1';
+    ctx.lineWidth = 1.5;
+    ctx.globalAlpha = 0.35 * opacity;
+    ctx.beginPath();
+    drops.forEach((drop, i) => {
+      const fall = drop.speed * audio.beatFactor * step;
+      drop.y += fall;
+      drop.x += fall * WIND_SLANT;
+      if (drop.y - drop.length > height) {
+        drops[i] = spawnDrop(width, height, random, -random() * 60);
+        return;
+      }
+      ctx.moveTo(drop.x, drop.y);
+      ctx.lineTo(drop.x - drop.length * WIND_SLANT, drop.y - drop.length);
+    });
+    ctx.stroke();
+    ctx.restore();
+  },
+});
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { defineEffect } from './effectPlugin';
+
+// Translucent frequency bars along the bottom edge
+export const spectrumBarsEffect = defineEffect<null>({
+  id: 'spectrum-bars',
+  label: '頻譜長條',
+  createState: () => null,
+  draw: (_state, { ctx, width, height, audio, settings, opacity }) => {
+    if (!audio.spectrum) return;
+    const dataArray = audio.spectrum;
+    const bufferLength = dataArray.length;
+
+    const barWidth = (width / bufferLength) * 2.5;
+    // Based on the short edge so tall (9:16) canvases don't get towering bars
+    const maxBarHeight = Math.min(width, height) / 3;
+    let barX = 0;
+
+    ctx.fillStyle = settings.secondaryColor;
+    ctx.globalAlpha = 0.3 * opacity;
+    for (let i = 0; i < bufferLength; i++) {
+      const barHeight = (dataArray[i] / 255) * maxBarHeight * audio.beatFactor;
+      ctx.fillRect(barX, height - barHeight, barWidth, barHeight);
+      barX += barWidth + 1;
+    }
+    ctx.globalAlpha = 1.0;
+  },
+});
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { ParticleShape } from '../types';
+
+export const PARTICLE_SHAPES: { shape: ParticleShape; label: string }[] = [
+  { shape: 'circle', label: '圓點' },
+  { shape: 'square', label: '方塊' },
+  { shape: 'star', label: '星星' },
+  { shape: 'heart', label: '愛心' },
+  { shape: 'spark', label: '火花' },
+  { shape: 'noodle', label: '麵條' },
+];
+
+// Each atlas cell is a square this many pixels wide
+const SPRITE_CELL = 64;
+// Shape radius as a share of half a cell, leaving room for the noodle's round caps
+export const SPRITE_FILL = 0.8;
+
+export const spriteIndex = (shape: ParticleShape): number =>
+  Math.max(0, PARTICLE_SHAPES.findIndex(s => s.shape === shape));
+
+// Draws a shape of radius r centred on the origin in the current fill style.
+// Sparks point along +x, so rotating them to the velocity makes streaks.
+export const drawShape = (ctx: CanvasRenderingContext2D, shape: ParticleShape, r: number) => {
+  ctx.beginPath();
+  switch (shape) {
+    case 'square':
+      ctx.rect(-r * 0.8, -r * 0.8, r * 1.6, r * 1.6);
+      break;
+    case 'star':
+      for (let i = 0; i < 10; i++) {
+        const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+        const radius = i % 2 === 0 ? r : r * 0.45;
+        ctx.lineTo(Math.cos(angle) * radius, Math.sin(angle) * radius);
+      }
+      ctx.closePath();
+      break;
+    case 'heart':
+      ctx.moveTo(0, r * 0.9);
+      ctx.bezierCurveTo(-r * 1.3, -r * 0.1, -r * 0.6, -r * 1.1, 0, -r * 0.4);
+      ctx.bezierCurveTo(r * 0.6, -r * 1.1, r * 1.3, -r * 0.1, 0, r * 0.9);
+      break;
+    case 'spark':
+      ctx.moveTo(r, 0);
+      ctx.lineTo(0, r * 0.25);
+      ctx.lineTo(-r, 0);
+      ctx.lineTo(0, -r * 0.25);
+      ctx.closePath();
+      break;
+    case 'noodle': {
+      // A short wavy strand, stroked rather than filled
+      ctx.moveTo(-r, 0);
+      for (let i = 1; i <= 12; i++) {
+        const t = i / 12;
+        ctx.lineTo(-r + t * r * 2, Math.sin(t * Math.PI * 3) * r * 0.3);
+      }
+      ctx.save();
+      ctx.strokeStyle = ctx.fillStyle;
+      ctx.lineWidth = r * 0.3;
+      ctx.lineCap = 'round';
+      ctx.stroke();
+      ctx.restore();
+      return;
+    }
+    default:
+      ctx.arc(0, 0, r, 0, Math.PI * 2);
+  }
+  ctx.fill();
+};
+
+let atlas: HTMLCanvasElement | null = null;
+
+// Every shape in white, one cell each in PARTICLE_SHAPES order, for the GPU path
+export const getSpriteAtlas = (): HTMLCanvasElement => {
+  if (!atlas) {
+    atlas = document.createElement('canvas');
+    atlas.width = SPRITE_CELL * PARTICLE_SHAPES.length;
+    atlas.height = SPRITE_CELL;
+    const ctx = atlas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    PARTICLE_SHAPES.forEach(({ shape }, i) => {
+      ctx.save();
+      ctx.translate(SPRITE_CELL * (i + 0.5), SPRITE_CELL / 2);
+      drawShape(ctx, shape, (SPRITE_CELL / 2) * SPRITE_FILL);
+      ctx.restore();
+    });
+  }
+  return atlas;
+};
\ No newline at end of file
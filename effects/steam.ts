@@ -0,0 +1,56 @@
+import { defineEffect } from './effectPlugin';
+
+interface Puff {
+  x: number;
+  y: number;
+  radius: number;
+  life: number;
+  maxLife: number;
+  sway: number; // phase of the sideways drift
+}
+
+const MAX_PUFFS = 90;
+// New puffs per 60fps frame, plus a handful on each beat
+const PUFF_RATE = 0.5;
+const BEAT_PUFFS = 4;
+
+// Soft wisps rising from the bottom edge like steam off a bowl of soup
+export const steamEffect = defineEffect<{ puffs: Puff[]; pending: number }>({
+  id: 'steam',
+  label: '熱湯蒸氣',
+  createState: () => ({ puffs: [], pending: 0 }),
+  draw: (state, { ctx, width, height, time, step, audio, random, opacity }) => {
+    state.pending += PUFF_RATE * step + (audio.beat ? BEAT_PUFFS : 0);
+    while (state.pending >= 1 && state.puffs.length < MAX_PUFFS) {
+      state.pending -= 1;
+      state.puffs.push({
+        x: width * (0.2 + random() * 0.6),
+        y: height + 40,
+        radius: 30 + random() * 40,
+        life: 0,
+        maxLife: 180 + random() * 120,
+        sway: random() * Math.PI * 2,
+      });
+    }
+    state.pending = Math.min(state.pending, 1);
+
+    state.puffs = state.puffs.filter(puff => puff.life < puff.maxLife);
+    state.puffs.forEach(puff => {
+      puff.life += step;
+      puff.y -= (0.9 + audio.beatFactor * 0.4) * step;
+      puff.x += Math.sin(time * 0.8 + puff.sway) * 0.5 * step;
+      puff.radius += 0.25 * step;
+
+      // Fade in quickly, fade out slowly
+      const t = puff.life / puff.maxLife;
+      const alpha = Math.min(1, t * 6) * (1 - t) * 0.12 * opacity;
+      const gradient = ctx.createRadialGradient(puff.x, puff.y, 0, puff.x, puff.y, puff.radius);
+      gradient.addColorStop(0, `rgba(255, 255, 255, ${alpha})`);
+      gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+      ctx.fillStyle = gradient;
+      ctx.beginPath();
+      ctx.arc(puff.x, puff.y, puff.radius, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  },
+});
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { verticalAdvance, verticalGlyph } from '../utils/textLayout';
+import { TextShape } from './effectPlugin';
+
+// The lyric is rasterised at a fraction of the design size and sampled on a
+// grid; each covered sample becomes a point particles can settle on
+const RASTER_SCALE = 0.25;
+const SAMPLE_STEP = 2; // raster pixels, so a point every 8 design units
+
+let raster: HTMLCanvasElement | null = null;
+let cached: { key: string; points: Float32Array } | null = null;
+
+// x, y pairs in design units covering the line exactly where the renderer
+// sets it. The last result is cached: the line changes rarely.
+export const textShapePoints = (shape: TextShape, width: number, height: number): Float32Array => {
+  const key = JSON.stringify([shape, width, height]);
+  if (cached?.key === key) return cached.points;
+
+  if (!raster) raster = document.createElement('canvas');
+  raster.width = Math.ceil(width * RASTER_SCALE);
+  raster.height = Math.ceil(height * RASTER_SCALE);
+  const ctx = raster.getContext('2d', { willReadFrequently: true })!;
+  ctx.scale(RASTER_SCALE, RASTER_SCALE);
+  ctx.font = shape.font;
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#ffffff';
+  if (shape.vertical) {
+    // Columns as drawColumns sets them, one character at a time
+    const { fontSize, letterSpacing } = shape;
+    ctx.textAlign = 'center';
+    shape.rows.forEach(({ text, x, y }) => {
+      let cy = y;
+      for (const char of text) {
+        const advance = verticalAdvance(ctx, char, fontSize, letterSpacing);
+        const glyphY = cy + (advance - letterSpacing) / 2;
+        const glyph = verticalGlyph(char);
+        if (glyph === 'upright') ctx.fillText(char, x, glyphY);
+        else if (glyph === 'corner') ctx.fillText(char, x + fontSize * 0.3, glyphY - fontSize * 0.3);
+        else {
+          ctx.save();
+          ctx.translate(x, glyphY);
+          ctx.rotate(Math.PI / 2);
+          ctx.fillText(char, 0, 0);
+          ctx.restore();
+        }
+        cy += advance;
+      }
+    });
+  } else {
+    ctx.textAlign = shape.align;
+    ctx.letterSpacing = `${shape.letterSpacing}px`;
+    shape.rows.forEach(({ text, x, y }) => ctx.fillText(text, x, y));
+  }
+
+  const { data } = ctx.getImageData(0, 0, raster.width, raster.height);
+  const points: number[] = [];
+  for (let y = 0; y < raster.height; y += SAMPLE_STEP) {
+    for (let x = 0; x < raster.width; x += SAMPLE_STEP) {
+      if (data[(y * raster.width + x) * 4 + 3] > 128) points.push(x / RASTER_SCALE, y / RASTER_SCALE);
+    }
+  }
+  cached = { key, points: new Float32Array(points) };
+  return cached.points;
+};
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { defineEffect } from './effectPlugin';
+
+const RIBBON_POINTS = 96;
+
+// Level of the waveform at t (0..1 across the width), -1..1. Without audio
+// data the ribbon idles on a slow sine.
+const sampleWave = (waveform: Uint8Array | null, t: number, time: number): number => {
+  if (!waveform) return Math.sin(t * Math.PI * 4 + time * 1.5) * 0.15;
+  const position = t * (waveform.length - 1);
+  const i = Math.floor(position);
+  const next = waveform[Math.min(waveform.length - 1, i + 1)];
+  return ((waveform[i] + (next - waveform[i]) * (position - i)) - 128) / 128;
+};
+
+// A filled ribbon tracing the live waveform across the lower third, with a
+// thinner echo behind it
+export const waveformRibbonEffect = defineEffect<null>({
+  id: 'waveform-ribbon',
+  label: '波形緞帶',
+  createState: () => null,
+  draw: (_state, { ctx, width, height, time, audio, settings, opacity }) => {
+    const centerY = height * 0.72;
+    const amplitude = Math.min(width, height) * 0.18 * audio.beatFactor;
+
+    const drawRibbon = (thickness: number, phase: number, color: string, alpha: number) => {
+      const points = Array.from({ length: RIBBON_POINTS + 1 }, (_, i) => {
+        const t = i / RIBBON_POINTS;
+        // Taper the ends so the ribbon fades into the edges
+        const envelope = Math.sin(t * Math.PI);
+        const y = centerY + sampleWave(audio.waveform, (t + phase) % 1, time) * amplitude * envelope;
+        return { x: t * width, y, half: thickness * (0.3 + envelope * 0.7) / 2 };
+      });
+      ctx.beginPath();
+      points.forEach(({ x, y, half }, i) => (i === 0 ? ctx.moveTo(x, y - half) : ctx.lineTo(x, y - half)));
+      for (let i = points.length - 1; i >= 0; i--) ctx.lineTo(points[i].x, points[i].y + points[i].half);
+      ctx.closePath();
+      ctx.fillStyle = color;
+      ctx.globalAlpha = alpha * opacity;
+      ctx.fill();
+    };
+
+    drawRibbon(6, 0.25, settings.secondaryColor, 0.35);
+    drawRibbon(14, 0, settings.primaryColor, 0.5);
+    ctx.globalAlpha = 1.0;
+  },
+});
\ No newline at end of file
@@ -0,0 +1,64 @@
+// Typed failures for AI calls, so the studio can tell the user what went wrong
+// (and whether trying again could help) instead of silently falling back.
+
+export type AIErrorKind =
+  | 'aborted'
+  | 'not-configured'
+  | 'timeout'
+  | 'network'
+  | 'auth'
+  | 'rate-limit'
+  | 'provider'
+  | 'invalid-response';
+
+export class AIError extends Error {
+  constructor(
+    public readonly kind: AIErrorKind,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'AIError';
+  }
+
+  // Worth another attempt: transient transport problems and malformed output
+  get retryable(): boolean {
+    return this.kind === 'timeout' || this.kind === 'network' || this.kind === 'rate-limit'
+      || this.kind === 'invalid-response'
+      || (this.kind === 'provider' && (this.status === undefined || this.status >= 500));
+  }
+}
+
+export type AIResult<T> = { ok: true; value: T } | { ok: false; error: AIError };
+
+export const AI_ERROR_MESSAGES: Record<AIErrorKind, string> = {
+  'aborted': '已取消',
+  'not-configured': '尚未設定 AI 服務，請在 AI 設定中選擇服務並填入金鑰',
+  'timeout': 'AI 回應逾時',
+  'network': '無法連線到 AI 服務',
+  'auth': 'API 金鑰無效或沒有權限，請檢查 AI 設定',
+  'rate-limit': 'AI 服務請求過於頻繁，請稍後再試',
+  'provider': 'AI 服務發生錯誤',
+  'invalid-response': 'AI 回傳的資料格式不正確',
+};
+
+export const httpError = (status: number, endpoint: string): AIError => {
+  if (status === 401 || status === 403) return new AIError('auth', `HTTP ${status} from ${endpoint}`, status);
+  if (status === 429) return new AIError('rate-limit', `HTTP ${status} from ${endpoint}`, status);
+  return new AIError('provider', `HTTP ${status} from ${endpoint}`, status);
+};
+
+// SDK errors carry the HTTP status as a `status` field
+const hasStatus = (error: unknown): error is { status: number } =>
+  typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number';
+
+// Normalise anything thrown by fetch, SDKs or validators into an AIError
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') return new AIError('aborted', 'Request aborted');
+  if (error instanceof DOMException && error.name === 'TimeoutError') return new AIError('timeout', error.message);
+  if (error instanceof TypeError) return new AIError('network', error.message);
+  if (error instanceof SyntaxError) return new AIError('invalid-response', error.message);
+  if (hasStatus(error)) return httpError(error.status, 'AI provider');
+  return new AIError('provider', error instanceof Error ? error.message : String(error));
+};
\ No newline at end of file
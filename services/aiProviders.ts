@@ -0,0 +1,253 @@
+import { GoogleGenAI } from "@google/genai";
+import { VisualSettings, ThemeStyle } from "../types";
+import { AISettings } from "./aiSettings";
+import { AIError, httpError } from "./aiErrors";
+import { validateTheme, validateTranslations, validateTiming } from "./aiValidation";
+
+// The studio asks AI for three things. LLM backends answer them with a prompt
+// plus a JSON schema and their replies are validated; the mock answers them
+// deterministically without a network. Every call takes an AbortSignal.
+
+export interface TranslationItem {
+  id: string;
+  translation: string;
+}
+
+// Neighbouring lines sent along with a translation chunk but not translated
+export interface TranslationContext {
+  before: { text: string; translation: string }[]; // already translated, for consistent wording
+  after: string[];
+}
+
+export interface TimedText {
+  text: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface AIProvider {
+  suggestTheme(lyrics: string, signal: AbortSignal): Promise<Partial<VisualSettings>>;
+  translate(lines: { id: string; text: string }[], targetLang: string, context: TranslationContext, signal: AbortSignal): Promise<TranslationItem[]>;
+  distributeTiming(text: string, totalDuration: number, signal: AbortSignal): Promise<TimedText[]>;
+}
+
+// Sends a prompt and resolves with the parsed (not yet validated) JSON reply
+type GenerateJSON = (prompt: string, schema: object, signal: AbortSignal) => Promise<unknown>;
+
+const THEME_SCHEMA = {
+  type: 'object',
+  properties: {
+    primaryColor: { type: 'string', description: 'Main accent color hex code' },
+    secondaryColor: { type: 'string', description: 'Secondary accent color hex code' },
+    backgroundColor: { type: 'string', description: 'Dark background color hex code' },
+    style: {
+      type: 'string',
+      enum: [ThemeStyle.NEON, ThemeStyle.MINIMAL, ThemeStyle.NATURE, ThemeStyle.FIERY],
+      description: 'The visual style category'
+    },
+    moodDescription: { type: 'string', description: "Short description of the song's mood" }
+  },
+  required: ['primaryColor', 'secondaryColor', 'backgroundColor', 'style']
+};
+
+const TRANSLATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    translations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          translation: { type: 'string' }
+        },
+        required: ['id', 'translation']
+      }
+    }
+  },
+  required: ['translations']
+};
+
+const TIMING_SCHEMA = {
+  type: 'object',
+  properties: {
+    lines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          startTime: { type: 'number' },
+          endTime: { type: 'number' }
+        },
+        required: ['text', 'startTime', 'endTime']
+      }
+    }
+  },
+  required: ['lines']
+};
+
+// Models sometimes wrap JSON in a markdown fence even when asked not to
+const parseJSONText = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : text);
+  } catch {
+    throw new AIError('invalid-response', 'Reply is not valid JSON');
+  }
+};
+
+const field = (data: unknown, key: string): unknown =>
+  typeof data === 'object' && data !== null ? (data as Record<string, unknown>)[key] : undefined;
+
+const withoutTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+const createLLMProvider = (generate: GenerateJSON): AIProvider => ({
+  async suggestTheme(lyrics, signal) {
+    const data = await generate(
+      `Analyze the following song lyrics (which may be in Chinese or English) and suggest a visual theme.
+      Determine the best color palette (hex codes), and the overall mood style.
+
+      Lyrics Sample:
+      ${lyrics.substring(0, 1000)}...
+      `,
+      THEME_SCHEMA,
+      signal
+    );
+    return validateTheme(data);
+  },
+
+  async translate(lines, targetLang, context, signal) {
+    const data = await generate(
+      `Translate the following lyric lines into ${targetLang}.
+      Keep the meaning poetic and suitable for a song.
+      Return a JSON object where keys are the IDs and values are the translations.
+      The lines are an excerpt of a longer song. Use the surrounding lines only as context:
+      keep wording consistent with the earlier translations and do not translate the context.
+
+      Earlier lines (already translated):
+      ${JSON.stringify(context.before)}
+
+      Input:
+      ${JSON.stringify(lines)}
+
+      Following lines:
+      ${JSON.stringify(context.after)}
+      `,
+      TRANSLATION_SCHEMA,
+      signal
+    );
+    return validateTranslations(field(data, 'translations'), lines.map(l => l.id));
+  },
+
+  async distributeTiming(text, totalDuration, signal) {
+    const data = await generate(
+      `I have a song lyric text and a total duration of ${totalDuration} seconds.
+      Please distribute the timestamps for each line.
+      Analyze the structure (verses usually faster, choruses might be slower or more emphatic).
+      Assign a start and end time for each line so they flow consecutively filling the ${totalDuration} seconds.
+
+      Lyrics:
+      ${text}
+      `,
+      TIMING_SCHEMA,
+      signal
+    );
+    return validateTiming(field(data, 'lines'), totalDuration);
+  },
+});
+
+const geminiBackend = (settings: AISettings): GenerateJSON => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+  return async (prompt, schema, signal) => {
+    const response = await ai.models.generateContent({
+      model: settings.model,
+      contents: prompt,
+      config: { responseMimeType: "application/json", responseJsonSchema: schema, abortSignal: signal },
+    });
+    if (!response.text) throw new AIError('invalid-response', 'Empty response from Gemini');
+    return parseJSONText(response.text);
+  };
+};
+
+// Any server implementing the OpenAI chat completions API (OpenAI, LM Studio, vLLM, ...)
+const openAIBackend = (settings: AISettings): GenerateJSON => async (prompt, schema, signal) => {
+  const response = await fetch(`${withoutTrailingSlash(settings.endpoint)}/chat/completions`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: settings.model,
+      messages: [
+        { role: 'system', content: `Reply with a single JSON object that matches this JSON Schema:\n${JSON.stringify(schema)}` },
+        { role: 'user', content: prompt },
+      ],
+      response_format: { type: 'json_object' },
+    }),
+  });
+  if (!response.ok) throw httpError(response.status, settings.endpoint);
+  const data = await response.json();
+  return parseJSONText(data.choices?.[0]?.message?.content ?? '');
+};
+
+const ollamaBackend = (settings: AISettings): GenerateJSON => async (prompt, schema, signal) => {
+  const response = await fetch(`${withoutTrailingSlash(settings.endpoint)}/api/chat`, {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: settings.model,
+      messages: [{ role: 'user', content: prompt }],
+      format: schema,
+      stream: false,
+    }),
+  });
+  if (!response.ok) throw httpError(response.status, settings.endpoint);
+  const data = await response.json();
+  return parseJSONText(data.message?.content ?? '');
+};
+
+// --- Mock ---
+
+const MOCK_THEMES: { keywords: RegExp; theme: Partial<VisualSettings> }[] = [
+  { keywords: /火|燃|熱|燒|fire|burn|heat/i, theme: { primaryColor: '#f97316', secondaryColor: '#facc15', backgroundColor: '#1c0a00', style: ThemeStyle.FIERY } },
+  { keywords: /夜|霓虹|城市|星|night|neon|city|star/i, theme: { primaryColor: '#6366f1', secondaryColor: '#c084fc', backgroundColor: '#0f172a', style: ThemeStyle.NEON } },
+  { keywords: /風|花|樹|海|山|雨|wind|flower|tree|sea|rain/i, theme: { primaryColor: '#4ade80', secondaryColor: '#a3e635', backgroundColor: '#052e16', style: ThemeStyle.NATURE } },
+];
+const MOCK_DEFAULT_THEME: Partial<VisualSettings> = { primaryColor: '#e7e5e4', secondaryColor: '#a8a29e', backgroundColor: '#0c0a09', style: ThemeStyle.MINIMAL };
+
+// Same input, same output: for tests and offline demos
+export const mockProvider: AIProvider = {
+  async suggestTheme(lyrics) {
+    return { ...(MOCK_THEMES.find(t => t.keywords.test(lyrics))?.theme || MOCK_DEFAULT_THEME) };
+  },
+
+  async translate(lines, targetLang) {
+    return lines.map(line => ({ id: line.id, translation: line.text ? `[模擬 ${targetLang}] ${line.text}` : '' }));
+  },
+
+  async distributeTiming(text, totalDuration) {
+    const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+    const weights = lines.map(l => Math.max(1, l.length));
+    const total = weights.reduce((a, b) => a + b, 0);
+    let cursor = 0;
+    return lines.map((line, i) => {
+      const length = (weights[i] / total) * totalDuration;
+      const timed = { text: line, startTime: cursor, endTime: cursor + length };
+      cursor += length;
+      return timed;
+    });
+  },
+};
+
+export const createAIProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'gemini': return createLLMProvider(geminiBackend(settings));
+    case 'openai': return createLLMProvider(openAIBackend(settings));
+    case 'ollama': return createLLMProvider(ollamaBackend(settings));
+    default: return mockProvider;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { VisualSettings, LyricLine } from "../types";
+import { loadAISettings, isAIConfigured } from "./aiSettings";
+import { AIProvider, TranslationContext, createAIProvider } from "./aiProviders";
+import { AIError, AIResult, toAIError } from "./aiErrors";
+import { withRetry } from "../utils/retry";
+import { TranslationLanguage, setTranslation } from "../utils/translations";
+import { retimeLine } from "../utils/wordTiming";
+
+// Entry points used by the studio. The provider is resolved on every call so
+// changes made in the AI settings panel apply immediately. Calls never throw:
+// they resolve with an AIResult so the caller can report the failure.
+
+const RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 800;
+const ATTEMPT_TIMEOUT_MS = 30000;
+const TRANSLATION_CHUNK_LINES = 16;
+const TRANSLATION_CONTEXT_LINES = 3;
+
+const runAI = async <T>(
+  task: (provider: AIProvider, signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<AIResult<T>> => {
+  const settings = loadAISettings();
+  if (!isAIConfigured(settings)) return { ok: false, error: new AIError('not-configured', `${settings.provider} is not configured`) };
+  const provider = createAIProvider(settings);
+  try {
+    const value = await withRetry(attemptSignal => task(provider, attemptSignal).catch(error => { throw toAIError(error); }), {
+      retries: RETRIES,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      timeoutMs: ATTEMPT_TIMEOUT_MS,
+      signal,
+      shouldRetry: error => error instanceof AIError && error.retryable,
+    });
+    return { ok: true, value };
+  } catch (error) {
+    const aiError = toAIError(error);
+    if (aiError.kind !== 'aborted') console.error("AI request failed:", aiError);
+    return { ok: false, error: aiError };
+  }
+};
+
+export const analyzeLyricsForTheme = (lyrics: string, signal?: AbortSignal): Promise<AIResult<Partial<VisualSettings>>> =>
+  runAI((provider, attemptSignal) => provider.suggestTheme(lyrics, attemptSignal), signal);
+
+export interface TranslateOptions {
+  signal?: AbortSignal;
+  onProgress?: (doneChunks: number, totalChunks: number) => void;
+}
+
+// Long songs are sent in chunks; each chunk sees a few lines on either side so
+// wording stays consistent across chunk boundaries.
+export const translateLyricsAI = async (
+  lyrics: LyricLine[],
+  language: TranslationLanguage,
+  { signal, onProgress }: TranslateOptions = {}
+): Promise<AIResult<LyricLine[]>> => {
+    // Only send text to save tokens and reduce complexity
+    const textLines = lyrics.filter(l => l.text.trim()).map(l => ({ id: l.id, text: l.text }));
+    const translated = new Map<string, string>();
+    const chunkCount = Math.ceil(textLines.length / TRANSLATION_CHUNK_LINES);
+    onProgress?.(0, chunkCount);
+
+    for (let chunk = 0; chunk < chunkCount; chunk++) {
+        const from = chunk * TRANSLATION_CHUNK_LINES;
+        const to = from + TRANSLATION_CHUNK_LINES;
+        const context: TranslationContext = {
+            before: textLines.slice(Math.max(0, from - TRANSLATION_CONTEXT_LINES), from)
+                .map(l => ({ text: l.text, translation: translated.get(l.id) || '' })),
+            after: textLines.slice(to, to + TRANSLATION_CONTEXT_LINES).map(l => l.text),
+        };
+        const lines = textLines.slice(from, to);
+        const result = await runAI((provider, attemptSignal) => provider.translate(lines, language.prompt, context, attemptSignal), signal);
+        if (result.ok === false) return result;
+        result.value.forEach(t => translated.set(t.id, t.translation));
+        onProgress?.(chunk + 1, chunkCount);
+    }
+
+    return {
+        ok: true,
+        value: lyrics.map(line => translated.has(line.id) ? setTranslation(line, language.code, translated.get(line.id)!) : line)
+    };
+};
+
+// Only the times change: lines keep their ids and everything attached to them,
+// and karaoke segments move with their line. Blank lines are not sent and keep
+// their times.
+export const smartTimingAI = async (lyrics: LyricLine[], totalDuration: number, signal?: AbortSignal): Promise<AIResult<LyricLine[]>> => {
+    const sung = lyrics.filter(line => line.text.trim());
+    const text = sung.map(line => line.text.trim()).join('\n');
+    const result = await runAI((provider, attemptSignal) => provider.distributeTiming(text, totalDuration, attemptSignal), signal);
+    if (result.ok === false) return result;
+    if (result.value.length !== sung.length) {
+        return { ok: false, error: new AIError('invalid-response', `Expected ${sung.length} timed lines, got ${result.value.length}`) };
+    }
+
+    const timed = new Map(sung.map((line, i) => [line.id, result.value[i]]));
+    return {
+        ok: true,
+        value: lyrics.map(line => {
+            const times = timed.get(line.id);
+            return times ? retimeLine(line, times.startTime, times.endTime) : line;
+        })
+    };
+};
\ No newline at end of file
@@ -0,0 +1,63 @@
+// Which AI backend the studio talks to. Chosen at runtime in the AI settings
+// panel and kept in this browser's localStorage, never baked into the build.
+
+export type AIProviderKind = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface AISettings {
+  provider: AIProviderKind;
+  model: string;
+  endpoint: string; // base URL; unused by Gemini and the mock
+  apiKey: string;
+}
+
+export interface AIProviderInfo {
+  provider: AIProviderKind;
+  label: string;
+  defaultModel: string;
+  defaultEndpoint: string;
+  needsApiKey: boolean;
+  needsEndpoint: boolean;
+}
+
+export const AI_PROVIDERS: AIProviderInfo[] = [
+  { provider: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash', defaultEndpoint: '', needsApiKey: true, needsEndpoint: false },
+  { provider: 'openai', label: 'OpenAI 相容 API', defaultModel: 'gpt-4o-mini', defaultEndpoint: 'https://api.openai.com/v1', needsApiKey: true, needsEndpoint: true },
+  { provider: 'ollama', label: 'Ollama (本機)', defaultModel: 'llama3.1', defaultEndpoint: 'http://localhost:11434', needsApiKey: false, needsEndpoint: true },
+  { provider: 'mock', label: '模擬 (離線示範)', defaultModel: 'mock', defaultEndpoint: '', needsApiKey: false, needsEndpoint: false },
+];
+
+const STORAGE_KEY = 'willwi-ai-settings';
+
+export const getProviderInfo = (provider: AIProviderKind): AIProviderInfo =>
+  AI_PROVIDERS.find(p => p.provider === provider) || AI_PROVIDERS[0];
+
+// The mock is never a default: it has to be picked in the settings panel
+export const defaultAISettings = (provider: AIProviderKind = 'gemini'): AISettings => {
+  const info = getProviderInfo(provider);
+  return { provider, model: info.defaultModel, endpoint: info.defaultEndpoint, apiKey: '' };
+};
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && AI_PROVIDERS.some(p => p.provider === stored.provider)) {
+      return { ...defaultAISettings(stored.provider), ...stored };
+    }
+  } catch {
+    // Corrupt entry: fall through to defaults
+  }
+  return defaultAISettings();
+};
+
+// True once the provider has the key and endpoint it needs
+export const isAIConfigured = (settings: AISettings): boolean => {
+  const info = getProviderInfo(settings.provider);
+  return (!info.needsApiKey || settings.apiKey.trim() !== '') && (!info.needsEndpoint || settings.endpoint.trim() !== '');
+};
+
+// Mock results are canned, so the studio labels them as such
+export const isMockAI = (): boolean => loadAISettings().provider === 'mock';
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
\ No newline at end of file
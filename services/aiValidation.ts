@@ -0,0 +1,65 @@
+import { VisualSettings, ThemeStyle } from "../types";
+import { AIError } from "./aiErrors";
+import { TranslationItem, TimedText } from "./aiProviders";
+
+// Model output is untrusted: check its shape before any of it reaches the studio.
+// Every validator either returns clean data or throws an 'invalid-response' AIError.
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const THEME_STYLES = Object.values(ThemeStyle) as string[];
+// Allowed overshoot past the song's end before timestamps are rejected
+const DURATION_TOLERANCE_SECONDS = 1;
+
+const invalid = (message: string) => new AIError('invalid-response', message);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const validateTheme = (data: unknown): Partial<VisualSettings> => {
+  if (!isObject(data)) throw invalid('Theme is not an object');
+  const { primaryColor, secondaryColor, backgroundColor, style } = data;
+  for (const [name, value] of Object.entries({ primaryColor, secondaryColor, backgroundColor })) {
+    if (typeof value !== 'string' || !HEX_COLOR.test(value.trim())) throw invalid(`${name} is not a hex colour: ${String(value)}`);
+  }
+  if (typeof style !== 'string' || !THEME_STYLES.includes(style)) throw invalid(`Unknown theme style: ${String(style)}`);
+  return {
+    primaryColor: (primaryColor as string).trim(),
+    secondaryColor: (secondaryColor as string).trim(),
+    backgroundColor: (backgroundColor as string).trim(),
+    style: style as ThemeStyle,
+  };
+};
+
+export const validateTranslations = (data: unknown, expectedIds: string[]): TranslationItem[] => {
+  if (!Array.isArray(data)) throw invalid('Translations are not an array');
+  const expected = new Set(expectedIds);
+  const items = data.map((item, i) => {
+    if (!isObject(item) || typeof item.id !== 'string' || typeof item.translation !== 'string') {
+      throw invalid(`Translation ${i} is malformed`);
+    }
+    if (!expected.has(item.id)) throw invalid(`Translation for unknown line id ${item.id}`);
+    return { id: item.id, translation: item.translation };
+  });
+  if (expectedIds.length > 0 && items.length === 0) throw invalid('No translations returned');
+  return items;
+};
+
+export const validateTiming = (data: unknown, totalDuration: number): TimedText[] => {
+  if (!Array.isArray(data) || data.length === 0) throw invalid('Timed lines are missing');
+  const limit = totalDuration + DURATION_TOLERANCE_SECONDS;
+  let previousStart = -Infinity;
+  return data.map((line, i) => {
+    if (!isObject(line) || typeof line.text !== 'string' || !isFiniteNumber(line.startTime) || !isFiniteNumber(line.endTime)) {
+      throw invalid(`Timed line ${i} is malformed`);
+    }
+    const { text, startTime, endTime } = line;
+    if (startTime < 0 || endTime > limit) throw invalid(`Line ${i} lies outside the song (${startTime}–${endTime}s)`);
+    if (endTime < startTime) throw invalid(`Line ${i} ends before it starts`);
+    if (startTime < previousStart) throw invalid(`Line ${i} starts before the previous line`);
+    previousStart = startTime;
+    return { text, startTime, endTime: Math.min(endTime, totalDuration) };
+  });
+};
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { BeatAnalysis, BeatFeatures, getBeatFeatures } from './beatTracking';
+
+// Offline audio helpers: decoding the uploaded file and pre-computing the
+// per-frame features the renderer needs, so export does not depend on
+// real-time playback.
+
+// Same FFT size and bass window as the live AnalyserNode in the Visualizer
+export const ANALYSER_FFT_SIZE = 256;
+export const BASS_BINS = 20;
+export const EXPORT_SAMPLE_RATE = 48000;
+
+export interface FrameAudio {
+  beatFactor: number;
+  spectrum: Uint8Array | null;
+  waveform: Uint8Array | null; // time-domain samples, 128 is silence
+  onset: number; // 0..1 onset strength from the beat tracker
+  pulse: number; // 0..1, peaks on each tracked beat
+  beat: boolean; // a beat falls inside this frame
+  downbeat: boolean;
+}
+
+export interface OfflineAudioAnalysis {
+  fps: number;
+  frameCount: number;
+  spectrum: Uint8Array[]; // one frequency snapshot per video frame
+  waveform: Uint8Array[]; // one time-domain snapshot per video frame
+  bass: Float32Array; // average of the lowest bins, 0..1
+  audio: AudioBuffer; // resampled to EXPORT_SAMPLE_RATE for encoding
+}
+
+let decodeContext: AudioContext | null = null;
+
+export const decodeAudioFromUrl = async (url: string): Promise<AudioBuffer> => {
+  const response = await fetch(url);
+  const data = await response.arrayBuffer();
+  if (!decodeContext) {
+    const AudioCtor = window.AudioContext || (window as any).webkitAudioContext;
+    decodeContext = new AudioCtor();
+  }
+  return decodeContext!.decodeAudioData(data);
+};
+
+export const bassLevel = (spectrum: Uint8Array): number => {
+  let sum = 0;
+  for (let i = 0; i < BASS_BINS; i++) sum += spectrum[i];
+  return sum / BASS_BINS / 255;
+};
+
+// Render the song through an AnalyserNode in an OfflineAudioContext, pausing
+// at every frame boundary to snapshot the spectrum and waveform. The same
+// render doubles as the 48kHz resample used for audio encoding.
+export const analyzeAudioOffline = async (
+  buffer: AudioBuffer,
+  fps: number,
+  duration: number = buffer.duration,
+  onProgress?: (progress: number) => void
+): Promise<OfflineAudioAnalysis> => {
+  const length = Math.ceil(duration * EXPORT_SAMPLE_RATE);
+  const channels = Math.min(2, buffer.numberOfChannels);
+  const ctx = new OfflineAudioContext(channels, length, EXPORT_SAMPLE_RATE);
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = ANALYSER_FFT_SIZE;
+  source.connect(analyser);
+  source.connect(ctx.destination);
+
+  const frameCount = Math.floor(duration * fps);
+  const spectrum: Uint8Array[] = new Array(frameCount);
+  const waveform: Uint8Array[] = new Array(frameCount);
+  const bass = new Float32Array(frameCount);
+
+  for (let i = 0; i < frameCount; i++) {
+    const frameIndex = i;
+    ctx.suspend(frameIndex / fps).then(() => {
+      const data = new Uint8Array(analyser.frequencyBinCount);
+      analyser.getByteFrequencyData(data);
+      spectrum[frameIndex] = data;
+      const samples = new Uint8Array(analyser.fftSize);
+      analyser.getByteTimeDomainData(samples);
+      waveform[frameIndex] = samples;
+      bass[frameIndex] = bassLevel(data);
+      if (onProgress && frameIndex % fps === 0) onProgress(frameIndex / frameCount);
+      ctx.resume();
+    });
+  }
+
+  source.start(0);
+  const audio = await ctx.startRendering();
+  onProgress?.(1);
+
+  return { fps, frameCount, spectrum, waveform, bass, audio };
+};
+
+// Drive the beat factor from tracked beats when available; otherwise fall back to bass loudness
+export const buildFrameAudio = (
+  spectrum: Uint8Array | null,
+  waveform: Uint8Array | null,
+  bass: number,
+  beats: BeatFeatures | null,
+  beatSensitivity: number
+): FrameAudio => {
+  if (!beats) {
+    return { beatFactor: 1 + bass * beatSensitivity, spectrum, waveform, onset: 0, pulse: 0, beat: false, downbeat: false };
+  }
+  return { beatFactor: 1 + (beats.pulse * 0.7 + beats.onset * 0.3) * beatSensitivity, spectrum, waveform, ...beats };
+};
+
+export const getFrameAudio = (
+  analysis: OfflineAudioAnalysis,
+  frameIndex: number,
+  beatSensitivity: number,
+  beats: BeatAnalysis | null = null
+): FrameAudio => {
+  const i = Math.max(0, Math.min(analysis.frameCount - 1, frameIndex));
+  const features = beats ? getBeatFeatures(beats, i / analysis.fps, (i - 1) / analysis.fps) : null;
+  return buildFrameAudio(analysis.spectrum[i] || null, analysis.waveform[i] || null, analysis.bass[i] || 0, features, beatSensitivity);
+};
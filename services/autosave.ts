@@ -0,0 +1,88 @@
+import { LyricLine, VisualSettings, SongMetadata } from '../types';
+import { STORE_SESSION, STORE_MEDIA, STORE_SNAPSHOTS, idbGet, idbGetAll, idbGetAllKeys, idbPut, idbDelete, idbClear } from './storage';
+import { ProjectData, withoutMedia } from './projectFile';
+
+// Crash recovery: the editor state is mirrored into IndexedDB while the user
+// works. Media blobs live in their own store and are only rewritten when the
+// file changes, so frequent lyric edits stay cheap. Snapshots keep a rolling
+// history of the text/settings state (media is shared with the session).
+
+export const AUTOSAVE_DELAY_MS = 1500;
+export const SNAPSHOT_INTERVAL_MS = 60 * 1000;
+const MAX_SNAPSHOTS = 30;
+const SESSION_KEY = 'current';
+
+export type MediaSlot = 'audio' | 'backgroundImage' | 'backgroundVideo';
+const MEDIA_SLOTS: MediaSlot[] = ['audio', 'backgroundImage', 'backgroundVideo'];
+
+export interface SessionState {
+  lyrics: LyricLine[];
+  settings: Partial<VisualSettings>;
+  metadata: SongMetadata;
+}
+
+interface StoredSession extends SessionState {
+  id: string;
+  savedAt: number;
+}
+
+export interface Snapshot extends SessionState {
+  id: number;
+  savedAt: number;
+}
+
+interface StoredMedia {
+  id: MediaSlot;
+  blob: Blob;
+}
+
+export const saveSession = (state: SessionState): Promise<IDBValidKey> =>
+  idbPut<StoredSession>(STORE_SESSION, {
+    id: SESSION_KEY,
+    savedAt: Date.now(),
+    lyrics: state.lyrics,
+    settings: withoutMedia(state.settings),
+    metadata: state.metadata,
+  });
+
+export const saveSessionMedia = async (slot: MediaSlot, blob?: Blob): Promise<void> => {
+  if (blob) await idbPut<StoredMedia>(STORE_MEDIA, { id: slot, blob });
+  else await idbDelete(STORE_MEDIA, slot);
+};
+
+// Returns the last autosaved session with its media, or null if there is none
+export const loadSession = async (): Promise<(ProjectData & { savedAt: number }) | null> => {
+  const session = await idbGet<StoredSession>(STORE_SESSION, SESSION_KEY);
+  if (!session) return null;
+
+  const media: Partial<Record<MediaSlot, Blob>> = {};
+  for (const slot of MEDIA_SLOTS) {
+    const stored = await idbGet<StoredMedia>(STORE_MEDIA, slot);
+    if (stored) media[slot] = stored.blob;
+  }
+  return { ...session, ...media };
+};
+
+export const clearSession = async (): Promise<void> => {
+  await idbClear(STORE_SESSION);
+  await idbClear(STORE_MEDIA);
+};
+
+// --- Version history ---
+
+export const addSnapshot = async (state: SessionState): Promise<void> => {
+  await idbPut<Omit<Snapshot, 'id'>>(STORE_SNAPSHOTS, {
+    savedAt: Date.now(),
+    lyrics: state.lyrics,
+    settings: withoutMedia(state.settings),
+    metadata: state.metadata,
+  });
+  // Keys are auto-incremented, so the oldest snapshots come first
+  const keys = await idbGetAllKeys(STORE_SNAPSHOTS);
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_SNAPSHOTS)).map(key => idbDelete(STORE_SNAPSHOTS, key)));
+};
+
+export const listSnapshots = async (): Promise<Snapshot[]> => {
+  const all = await idbGetAll<Snapshot>(STORE_SNAPSHOTS);
+  return all.sort((a, b) => b.savedAt - a.savedAt);
+};
\ No newline at end of file
@@ -0,0 +1,264 @@
+import { fft, hannWindow } from '../utils/fft';
+import { downmixToMono } from '../utils/pcm';
+
+// Beat tracking over the decoded song:
+//  1. spectral-flux onset envelope (log-magnitude STFT, half-wave rectified)
+//  2. tempo from the autocorrelation of that envelope, biased towards ~120 BPM
+//  3. beat times by dynamic programming (Ellis 2007): each beat is rewarded for
+//     onset strength and penalised for straying from the estimated period
+//  4. downbeats by picking the bar phase with the strongest low-frequency onsets
+
+const ANALYSIS_RATE = 22050; // songs are downmixed and decimated to about this rate
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 256;
+const LOW_BAND_HZ = 200; // kick/bass region used to find downbeats
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120;
+const TEMPO_OCTAVE_WIDTH = 1.0;
+const TIGHTNESS = 100;
+const BEATS_PER_BAR = 4;
+const PULSE_DECAY = 0.15; // seconds for the beat pulse to fall to 1/e
+const YIELD_EVERY_FRAMES = 400;
+
+export interface BeatAnalysis {
+  bpm: number;
+  beats: number[]; // seconds
+  downbeats: number[]; // seconds, subset of `beats`
+  onsetRate: number; // envelope frames per second
+  onsetEnvelope: Float32Array; // 0..1
+}
+
+export interface BeatFeatures {
+  onset: number; // onset strength at this time, 0..1
+  pulse: number; // decays from 1 after every beat, stronger on downbeats
+  beat: boolean; // a beat fell inside the frame
+  downbeat: boolean;
+}
+
+const nextTick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Remove the slowly varying part so only sudden increases remain
+const highPass = (values: Float32Array, radius: number): Float32Array => {
+  const out = new Float32Array(values.length);
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < Math.min(radius, values.length); i++) { sum += values[i]; count++; }
+  for (let i = 0; i < values.length; i++) {
+    if (i + radius < values.length) { sum += values[i + radius]; count++; }
+    if (i - radius - 1 >= 0) { sum -= values[i - radius - 1]; count--; }
+    out[i] = Math.max(0, values[i] - sum / count);
+  }
+  return out;
+};
+
+const normalize = (values: Float32Array): Float32Array => {
+  let max = 0;
+  for (let i = 0; i < values.length; i++) if (values[i] > max) max = values[i];
+  if (max > 0) for (let i = 0; i < values.length; i++) values[i] /= max;
+  return values;
+};
+
+const estimatePeriod = (envelope: Float32Array, rate: number): number => {
+  const minLag = Math.max(1, Math.floor((rate * 60) / MAX_BPM));
+  const maxLag = Math.min(envelope.length - 1, Math.ceil((rate * 60) / MIN_BPM));
+  const scores = new Float32Array(maxLag + 2);
+
+  for (let lag = minLag; lag <= maxLag + 1 && lag < envelope.length; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+    const bpm = (rate * 60) / lag;
+    const weight = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM) / TEMPO_OCTAVE_WIDTH, 2));
+    scores[lag] = (sum / (envelope.length - lag)) * weight;
+  }
+
+  let best = minLag;
+  for (let lag = minLag; lag <= maxLag; lag++) if (scores[lag] > scores[best]) best = lag;
+
+  // Parabolic interpolation for a sub-frame period
+  const a = scores[best - 1] || 0;
+  const b = scores[best];
+  const c = scores[best + 1] || 0;
+  const denominator = a - 2 * b + c;
+  const offset = denominator !== 0 ? 0.5 * (a - c) / denominator : 0;
+  return best + Math.max(-0.5, Math.min(0.5, offset));
+};
+
+const trackBeats = (envelope: Float32Array, period: number): number[] => {
+  const n = envelope.length;
+  const score = new Float32Array(n);
+  const backlink = new Int32Array(n).fill(-1);
+  const minGap = Math.max(1, Math.round(period / 2));
+  const maxGap = Math.round(period * 2);
+
+  for (let t = 0; t < n; t++) {
+    let best = 0;
+    let bestPrev = -1;
+    for (let prev = Math.max(0, t - maxGap); prev <= t - minGap; prev++) {
+      const deviation = Math.log((t - prev) / period);
+      const candidate = score[prev] - TIGHTNESS * deviation * deviation;
+      if (bestPrev < 0 || candidate > best) {
+        best = candidate;
+        bestPrev = prev;
+      }
+    }
+    score[t] = envelope[t] + (bestPrev >= 0 ? Math.max(0, best) : 0);
+    if (bestPrev >= 0 && best > 0) backlink[t] = bestPrev;
+  }
+
+  // Start from the best-scoring frame within the final period and walk back
+  let last = Math.max(0, n - Math.round(period));
+  for (let t = last; t < n; t++) if (score[t] > score[last]) last = t;
+
+  const frames: number[] = [];
+  for (let t = last; t >= 0; t = backlink[t]) frames.push(t);
+  return frames.reverse();
+};
+
+const pickDownbeats = (beatFrames: number[], lowEnvelope: Float32Array): number[] => {
+  let bestPhase = 0;
+  let bestStrength = -1;
+  for (let phase = 0; phase < BEATS_PER_BAR; phase++) {
+    let strength = 0;
+    for (let i = phase; i < beatFrames.length; i += BEATS_PER_BAR) strength += lowEnvelope[beatFrames[i]];
+    if (strength > bestStrength) {
+      bestStrength = strength;
+      bestPhase = phase;
+    }
+  }
+  return beatFrames.filter((_, i) => i % BEATS_PER_BAR === bestPhase);
+};
+
+export const analyzeBeats = async (
+  buffer: AudioBuffer,
+  onProgress?: (progress: number) => void
+): Promise<BeatAnalysis> => {
+  const { samples, sampleRate } = downmixToMono(buffer, ANALYSIS_RATE);
+  const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const onsetRate = sampleRate / HOP_SIZE;
+  const bins = FRAME_SIZE / 2;
+  const lowBins = Math.max(2, Math.round((LOW_BAND_HZ / sampleRate) * FRAME_SIZE));
+
+  const window = hannWindow(FRAME_SIZE);
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+  let previous = new Float32Array(bins);
+  let current = new Float32Array(bins);
+  const flux = new Float32Array(frameCount);
+  const lowFlux = new Float32Array(frameCount);
+
+  for (let f = 0; f < frameCount; f++) {
+    const offset = f * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = samples[offset + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    let total = 0;
+    let low = 0;
+    for (let k = 1; k < bins; k++) {
+      current[k] = Math.log1p(100 * Math.hypot(re[k], im[k]));
+      const rise = current[k] - previous[k];
+      if (rise > 0) {
+        total += rise;
+        if (k < lowBins) low += rise;
+      }
+    }
+    flux[f] = f > 0 ? total : 0;
+    lowFlux[f] = f > 0 ? low : 0;
+    [previous, current] = [current, previous];
+
+    if (f % YIELD_EVERY_FRAMES === 0) {
+      onProgress?.(f / frameCount * 0.8);
+      await nextTick();
+    }
+  }
+
+  const smoothingRadius = Math.round(onsetRate * 0.1);
+  const onsetEnvelope = normalize(highPass(flux, smoothingRadius));
+  const lowEnvelope = normalize(highPass(lowFlux, smoothingRadius));
+
+  if (frameCount < 2) {
+    onProgress?.(1);
+    return { bpm: 0, beats: [], downbeats: [], onsetRate, onsetEnvelope };
+  }
+
+  const period = estimatePeriod(onsetEnvelope, onsetRate);
+  onProgress?.(0.9);
+  await nextTick();
+
+  // Frame f covers samples centred on f * HOP + FRAME / 2
+  const frameTime = (f: number) => (f * HOP_SIZE + FRAME_SIZE / 2) / sampleRate;
+  const beatFrames = trackBeats(onsetEnvelope, period);
+  onProgress?.(1);
+
+  return {
+    bpm: (onsetRate * 60) / period,
+    beats: beatFrames.map(frameTime),
+    downbeats: pickDownbeats(beatFrames, lowEnvelope).map(frameTime),
+    onsetRate,
+    onsetEnvelope,
+  };
+};
+
+// Index of the last beat at or before `time`, or -1
+const lastBeatIndex = (beats: number[], time: number): number => {
+  let lo = 0;
+  let hi = beats.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (beats[mid] <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+export const onsetStrengthAt = (analysis: BeatAnalysis, time: number): number => {
+  const position = (time * analysis.onsetRate) - (FRAME_SIZE / 2) / HOP_SIZE;
+  const i = Math.floor(position);
+  if (i < 0 || i >= analysis.onsetEnvelope.length) return 0;
+  const next = analysis.onsetEnvelope[Math.min(i + 1, analysis.onsetEnvelope.length - 1)];
+  return analysis.onsetEnvelope[i] + (next - analysis.onsetEnvelope[i]) * (position - i);
+};
+
+const isDownbeat = (analysis: BeatAnalysis, beatTime: number): boolean => {
+  const i = lastBeatIndex(analysis.downbeats, beatTime);
+  return i >= 0 && analysis.downbeats[i] === beatTime;
+};
+
+// Beat features for the frame covering (previousTime, time]
+export const getBeatFeatures = (analysis: BeatAnalysis, time: number, previousTime: number): BeatFeatures => {
+  const index = lastBeatIndex(analysis.beats, time);
+  if (index < 0) return { onset: onsetStrengthAt(analysis, time), pulse: 0, beat: false, downbeat: false };
+
+  const beatTime = analysis.beats[index];
+  const downbeat = isDownbeat(analysis, beatTime);
+  const inFrame = beatTime > previousTime && time >= previousTime;
+  return {
+    onset: onsetStrengthAt(analysis, time),
+    pulse: Math.exp(-(time - beatTime) / PULSE_DECAY) * (downbeat ? 1 : 0.7),
+    beat: inFrame,
+    downbeat: inFrame && downbeat,
+  };
+};
+
+// Nearest beat to `time`, or `time` itself if none is within `maxDistance` seconds
+export const snapToBeat = (analysis: BeatAnalysis, time: number, maxDistance = Infinity): number => {
+  const index = lastBeatIndex(analysis.beats, time);
+  const candidates = [analysis.beats[index], analysis.beats[index + 1]].filter((t): t is number => t !== undefined);
+  let best = time;
+  let bestDistance = maxDistance;
+  candidates.forEach(t => {
+    if (Math.abs(t - time) <= bestDistance) {
+      best = t;
+      bestDistance = Math.abs(t - time);
+    }
+  });
+  return best;
+};
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { STORE_FONTS, idbGet, idbGetAll, idbPut, idbDelete } from './storage';
+
+// Uploaded fonts are kept in IndexedDB, so they stay available to every
+// project, and registered with the page through the FontFace API. Projects
+// carry copies of the fonts they use (see projectFile).
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+const FONT_FILE_PATTERN = /\.(ttf|otf|woff2?)$/i;
+// Longest wait for web fonts before an export starts without them
+const FONT_LOAD_TIMEOUT_MS = 10000;
+
+export interface CustomFont {
+  id: string;
+  family: string; // the name it is registered and referenced under
+  fileName: string;
+}
+
+interface StoredFont extends CustomFont {
+  blob: Blob;
+}
+
+// A font file that travels inside a project
+export interface FontFile {
+  family: string;
+  fileName: string;
+  blob: Blob;
+}
+
+const faces = new Map<string, FontFace>(); // by font id
+
+const registerFont = async (font: StoredFont) => {
+  if (faces.has(font.id)) return;
+  const face = new FontFace(font.family, await font.blob.arrayBuffer());
+  await face.load();
+  document.fonts.add(face);
+  faces.set(font.id, face);
+};
+
+const toCustomFont = ({ id, family, fileName }: StoredFont): CustomFont => ({ id, family, fileName });
+
+const storeFont = async (family: string, fileName: string, blob: Blob): Promise<CustomFont> => {
+  const font: StoredFont = {
+    id: `font-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    family,
+    fileName,
+    blob,
+  };
+  try {
+    await registerFont(font);
+  } catch {
+    throw new Error(`無法讀取字型檔 ${fileName}`);
+  }
+  await idbPut<StoredFont>(STORE_FONTS, font);
+  return toCustomFont(font);
+};
+
+// Registers every stored font; files the browser can no longer read are skipped
+export const loadStoredFonts = async (): Promise<CustomFont[]> => {
+  const stored = await idbGetAll<StoredFont>(STORE_FONTS);
+  const loaded: CustomFont[] = [];
+  for (const font of stored.sort((a, b) => a.id.localeCompare(b.id))) {
+    try {
+      await registerFont(font);
+      loaded.push(toCustomFont(font));
+    } catch (e) {
+      console.error(`Font ${font.fileName} failed to load`, e);
+    }
+  }
+  return loaded;
+};
+
+// The family is the file name; a clash with a font already offered gets a number
+export const uploadFont = async (file: File, takenFamilies: string[]): Promise<CustomFont> => {
+  if (!FONT_FILE_PATTERN.test(file.name)) throw new Error('只支援 TTF、OTF、WOFF、WOFF2 字型檔');
+  const base = file.name.replace(FONT_FILE_PATTERN, '').trim() || '自訂字型';
+  let family = base;
+  for (let n = 2; takenFamilies.includes(family); n++) family = `${base} ${n}`;
+  return storeFont(family, file.name, file);
+};
+
+export const removeFont = async (id: string): Promise<void> => {
+  const face = faces.get(id);
+  if (face) document.fonts.delete(face);
+  faces.delete(id);
+  await idbDelete(STORE_FONTS, id);
+};
+
+export const getFontFiles = async (fonts: CustomFont[]): Promise<FontFile[]> => {
+  const files: FontFile[] = [];
+  for (const font of fonts) {
+    const stored = await idbGet<StoredFont>(STORE_FONTS, font.id);
+    if (stored) files.push({ family: stored.family, fileName: stored.fileName, blob: stored.blob });
+  }
+  return files;
+};
+
+// Adds a project's fonts to the library under their original family names,
+// skipping families the library already has. Returns the fonts added.
+export const importFonts = async (files: FontFile[], library: CustomFont[]): Promise<CustomFont[]> => {
+  const added: CustomFont[] = [];
+  for (const file of files) {
+    if (library.some(font => font.family === file.family) || added.some(font => font.family === file.family)) continue;
+    try {
+      added.push(await storeFont(file.family, file.fileName, file.blob));
+    } catch (e) {
+      console.error(`Project font ${file.fileName} failed to load`, e);
+    }
+  }
+  return added;
+};
+
+// Waits until the given fonts (CSS shorthands) are ready for `text`, so the
+// canvas does not draw fallback glyphs. Web fonts split by unicode-range only
+// fetch the subsets the text needs. Gives up quietly after a timeout.
+export const ensureFontsLoaded = async (fonts: string[], text: string): Promise<void> => {
+  const sample = text || ' ';
+  const loads = Promise.all(fonts.map(font => document.fonts.load(font, sample).catch(() => [])));
+  await Promise.race([loads, new Promise(resolve => setTimeout(resolve, FONT_LOAD_TIMEOUT_MS))]);
+};
\ No newline at end of file
@@ -0,0 +1,344 @@
+import { LyricLine } from '../types';
+import { fft, hannWindow } from '../utils/fft';
+import { downmixToMono } from '../utils/pcm';
+import { isCJKChar, retimeLine } from '../utils/wordTiming';
+
+// Local lyric alignment, no network involved:
+//  1. per-frame voice activity from vocal-band energy, spectral flatness and
+//     vocal-band dominance, smoothed and thresholded with hysteresis
+//  2. pauses between voiced regions (and energy dips inside long ones) become
+//     candidate line boundaries
+//  3. dynamic programming picks one boundary per line break so each line gets
+//     voiced time in proportion to how much there is to sing, preferring clear pauses
+//  4. each line's confidence combines that fit with how clear its boundaries were
+
+export type TimingProvider = 'local' | 'ai';
+
+export const TIMING_PROVIDERS: { provider: TimingProvider; label: string }[] = [
+  { provider: 'local', label: '本機音訊分析 (離線)' },
+  { provider: 'ai', label: 'AI 模型 (純文字估算)' },
+];
+
+// Lines below this confidence are flagged for review in the editor
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+const ANALYSIS_RATE = 16000;
+const FRAME_SIZE = 512;
+const HOP_SIZE = 320; // 20ms
+const VOICE_LOW_HZ = 250;
+const VOICE_HIGH_HZ = 3500;
+const SMOOTHING_SECONDS = 0.15;
+const HYSTERESIS = 0.05;
+const MIN_GAP_SECONDS = 0.15;
+const MIN_VOICED_SECONDS = 0.12;
+const FULL_STRENGTH_GAP_SECONDS = 0.8;
+const DIP_MIN_SEGMENT_SECONDS = 2;
+const DIP_RADIUS_SECONDS = 0.3;
+const BOUNDARY_BONUS = 0.6;
+const MAX_LINE_STRETCH = 4; // a line may take at most this multiple of its expected voiced time
+const LEAD_IN_SECONDS = 0.05;
+const TAIL_SECONDS = 0.15;
+const YIELD_EVERY_FRAMES = 1000;
+
+interface Boundary {
+  voiceEnd: number; // the previous line's singing stops here
+  voiceStart: number; // the next line's singing starts here
+  strength: number; // 0..1, how clearly this is a pause
+}
+
+const nextTick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Lets the page breathe, then stops if the caller cancelled meanwhile
+const yieldUnlessAborted = async (signal?: AbortSignal) => {
+  await nextTick();
+  if (signal?.aborted) throw new DOMException('Alignment cancelled', 'AbortError');
+};
+
+const percentile = (values: Float32Array, p: number): number => {
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(p * (sorted.length - 1))))] ?? 0;
+};
+
+const movingAverage = (values: Float32Array, radius: number): Float32Array => {
+  const out = new Float32Array(values.length);
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < Math.min(radius, values.length); i++) { sum += values[i]; count++; }
+  for (let i = 0; i < values.length; i++) {
+    if (i + radius < values.length) { sum += values[i + radius]; count++; }
+    if (i - radius - 1 >= 0) { sum -= values[i - radius - 1]; count--; }
+    out[i] = sum / count;
+  }
+  return out;
+};
+
+// Otsu's method on a 0..1 signal: the split that best separates two clusters
+const otsuThreshold = (values: Float32Array): number => {
+  const bins = 64;
+  const histogram = new Float64Array(bins);
+  values.forEach(v => histogram[Math.min(bins - 1, Math.max(0, Math.floor(v * bins)))]++);
+
+  let total = 0;
+  for (let i = 0; i < bins; i++) total += i * histogram[i];
+  let backgroundWeight = 0;
+  let backgroundSum = 0;
+  let best = 0.5;
+  let bestVariance = -1;
+  for (let i = 0; i < bins; i++) {
+    backgroundWeight += histogram[i];
+    if (backgroundWeight === 0) continue;
+    const foregroundWeight = values.length - backgroundWeight;
+    if (foregroundWeight === 0) break;
+    backgroundSum += i * histogram[i];
+    const meanB = backgroundSum / backgroundWeight;
+    const meanF = (total - backgroundSum) / foregroundWeight;
+    const variance = backgroundWeight * foregroundWeight * (meanB - meanF) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = (i + 1) / bins;
+    }
+  }
+  return best;
+};
+
+// Rough amount of singing in a line: CJK characters plus Latin syllables
+const lineWeight = (text: string): number => {
+  let weight = 0;
+  for (const char of text) if (isCJKChar(char)) weight++;
+  const latinWords = text.match(/[A-Za-zÀ-ɏ']+/g) || [];
+  latinWords.forEach(word => {
+    weight += Math.max(1, (word.match(/[aeiouyà-ÿ]+/gi) || []).length);
+  });
+  return Math.max(1, weight);
+};
+
+// Per-frame probability-like voice score, 0..1
+const voiceActivity = async (
+  samples: Float32Array,
+  sampleRate: number,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Float32Array> => {
+  const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const binHz = sampleRate / FRAME_SIZE;
+  const lowBin = Math.max(1, Math.floor(VOICE_LOW_HZ / binHz));
+  const highBin = Math.min(FRAME_SIZE / 2 - 1, Math.ceil(VOICE_HIGH_HZ / binHz));
+  const window = hannWindow(FRAME_SIZE);
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+
+  const bandDb = new Float32Array(frameCount);
+  const tonality = new Float32Array(frameCount);
+  const dominance = new Float32Array(frameCount);
+
+  for (let f = 0; f < frameCount; f++) {
+    const offset = f * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = samples[offset + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    let total = 0;
+    let band = 0;
+    let logSum = 0;
+    for (let k = 1; k < FRAME_SIZE / 2; k++) {
+      const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+      total += power;
+      if (k >= lowBin && k <= highBin) {
+        band += power;
+        logSum += Math.log(power);
+      }
+    }
+    const bandBins = highBin - lowBin + 1;
+    const flatness = Math.exp(logSum / bandBins) / (band / bandBins);
+    bandDb[f] = 10 * Math.log10(band);
+    tonality[f] = 1 - Math.min(1, flatness);
+    dominance[f] = band / total;
+
+    if (f % YIELD_EVERY_FRAMES === 0) {
+      onProgress?.(f / frameCount);
+      await yieldUnlessAborted(signal);
+    }
+  }
+
+  // Loudness relative to the song's own noise floor and peaks
+  const floor = percentile(bandDb, 0.1);
+  const peak = percentile(bandDb, 0.95);
+  const range = Math.max(1, peak - floor);
+  const score = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    const loudness = Math.max(0, Math.min(1, (bandDb[f] - floor) / range));
+    score[f] = loudness * 0.6 + tonality[f] * 0.25 + dominance[f] * 0.15;
+  }
+  return movingAverage(score, Math.round((SMOOTHING_SECONDS * sampleRate) / HOP_SIZE / 2));
+};
+
+const findVoicedSegments = (score: Float32Array, frameSeconds: number): [number, number][] => {
+  const threshold = otsuThreshold(score);
+  const segments: [number, number][] = [];
+  let startFrame = -1;
+  for (let f = 0; f < score.length; f++) {
+    if (startFrame < 0 && score[f] > threshold + HYSTERESIS) startFrame = f;
+    else if (startFrame >= 0 && score[f] < threshold - HYSTERESIS) {
+      segments.push([startFrame * frameSeconds, f * frameSeconds]);
+      startFrame = -1;
+    }
+  }
+  if (startFrame >= 0) segments.push([startFrame * frameSeconds, score.length * frameSeconds]);
+
+  // Bridge breaths shorter than a real pause, then drop clicks
+  const merged: [number, number][] = [];
+  segments.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start - last[1] < MIN_GAP_SECONDS) last[1] = end;
+    else merged.push([start, end]);
+  });
+  return merged.filter(([start, end]) => end - start >= MIN_VOICED_SECONDS);
+};
+
+// Energy dips inside long voiced stretches, for lines sung without a clear pause
+const findDips = (score: Float32Array, segments: [number, number][], frameSeconds: number): Boundary[] => {
+  const radius = Math.round(DIP_RADIUS_SECONDS / frameSeconds);
+  const dips: Boundary[] = [];
+  segments.forEach(([start, end]) => {
+    if (end - start < DIP_MIN_SEGMENT_SECONDS) return;
+    const from = Math.round(start / frameSeconds) + radius;
+    const to = Math.round(end / frameSeconds) - radius;
+    for (let f = from; f < to; f++) {
+      let isMinimum = true;
+      let surroundingMax = 0;
+      for (let k = f - radius; k <= f + radius; k++) {
+        if (score[k] < score[f]) { isMinimum = false; break; }
+        surroundingMax = Math.max(surroundingMax, score[k]);
+      }
+      if (!isMinimum) continue;
+      const time = f * frameSeconds;
+      dips.push({ voiceEnd: time, voiceStart: time, strength: Math.min(0.5, (surroundingMax - score[f]) * 2) });
+      f += radius;
+    }
+  });
+  return dips;
+};
+
+export const alignLyrics = async (
+  buffer: AudioBuffer,
+  lyrics: LyricLine[],
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<LyricLine[]> => {
+  if (lyrics.length === 0) return lyrics;
+
+  const { samples, sampleRate } = downmixToMono(buffer, ANALYSIS_RATE);
+  const frameSeconds = HOP_SIZE / sampleRate;
+  const score = await voiceActivity(samples, sampleRate, p => onProgress?.(p * 0.8), signal);
+  const segments = findVoicedSegments(score, frameSeconds);
+  if (segments.length === 0) throw new Error('找不到人聲段落');
+
+  // Cumulative voiced time, so any span's singing time is a subtraction
+  const voicedBefore = (time: number): number => {
+    let total = 0;
+    for (const [start, end] of segments) {
+      if (start >= time) break;
+      total += Math.min(end, time) - start;
+    }
+    return total;
+  };
+  const totalVoiced = voicedBefore(Infinity);
+
+  // Position at which `amount` seconds of singing have passed
+  const timeAtVoiced = (amount: number): number => {
+    let remaining = amount;
+    for (const [start, end] of segments) {
+      if (remaining <= end - start) return start + remaining;
+      remaining -= end - start;
+    }
+    return segments[segments.length - 1][1];
+  };
+
+  const weights = lyrics.map(l => lineWeight(l.text));
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  const expected = weights.map(w => (w / totalWeight) * totalVoiced);
+
+  // Candidate boundaries: real pauses, dips, and the proportional split points
+  // (strength 0) which guarantee there are always enough candidates
+  const candidates: Boundary[] = [];
+  for (let i = 1; i < segments.length; i++) {
+    const gap = segments[i][0] - segments[i - 1][1];
+    candidates.push({
+      voiceEnd: segments[i - 1][1],
+      voiceStart: segments[i][0],
+      strength: 0.3 + 0.7 * Math.min(1, gap / FULL_STRENGTH_GAP_SECONDS),
+    });
+  }
+  candidates.push(...findDips(score, segments, frameSeconds));
+  let cumulative = 0;
+  for (let i = 0; i < lyrics.length - 1; i++) {
+    cumulative += expected[i];
+    const time = timeAtVoiced(cumulative);
+    candidates.push({ voiceEnd: time, voiceStart: time, strength: 0 });
+  }
+  candidates.sort((a, b) => a.voiceStart - b.voiceStart);
+
+  const boundaries: Boundary[] = [
+    { voiceEnd: segments[0][0], voiceStart: segments[0][0], strength: 1 },
+    ...candidates,
+    { voiceEnd: segments[segments.length - 1][1], voiceStart: segments[segments.length - 1][1], strength: 1 },
+  ];
+  const m = boundaries.length - 1;
+  const startVoiced = boundaries.map(b => voicedBefore(b.voiceStart));
+  const endVoiced = boundaries.map(b => voicedBefore(b.voiceEnd));
+
+  const lineCost = (line: number, from: number, to: number): number => {
+    const voiced = endVoiced[to] - startVoiced[from];
+    if (voiced <= 0) return Infinity;
+    const deviation = (voiced - expected[line]) / expected[line];
+    return deviation * deviation - (to < m ? BOUNDARY_BONUS * boundaries[to].strength : 0);
+  };
+
+  // cost[i][b]: best cost of placing lines 0..i-1 so that line i-1 ends at boundary b
+  const n = lyrics.length;
+  const cost: Float64Array[] = Array.from({ length: n + 1 }, () => new Float64Array(m + 1).fill(Infinity));
+  const from: Int32Array[] = Array.from({ length: n + 1 }, () => new Int32Array(m + 1).fill(-1));
+  cost[0][0] = 0;
+  for (let i = 1; i <= n; i++) {
+    for (let b = i; b <= m - (n - i); b++) {
+      for (let a = b - 1; a >= i - 1; a--) {
+        if (cost[i - 1][a] === Infinity) continue;
+        if (endVoiced[b] - startVoiced[a] > expected[i - 1] * MAX_LINE_STRETCH) break;
+        const candidate = cost[i - 1][a] + lineCost(i - 1, a, b);
+        if (candidate < cost[i][b]) {
+          cost[i][b] = candidate;
+          from[i][b] = a;
+        }
+      }
+    }
+    if (i % 10 === 0) {
+      onProgress?.(0.8 + (i / n) * 0.2);
+      await yieldUnlessAborted(signal);
+    }
+  }
+  if (cost[n][m] === Infinity) throw new Error('無法對齊歌詞與音訊');
+
+  const chosen = new Array<number>(n + 1);
+  chosen[n] = m;
+  for (let i = n; i > 0; i--) chosen[i - 1] = from[i][chosen[i]];
+  onProgress?.(1);
+
+  return lyrics.map((line, i) => {
+    const startBoundary = boundaries[chosen[i]];
+    const endBoundary = boundaries[chosen[i + 1]];
+    const voiced = endVoiced[chosen[i + 1]] - startVoiced[chosen[i]];
+    const span = Math.max(1e-3, endBoundary.voiceEnd - startBoundary.voiceStart);
+
+    const fit = Math.exp(-Math.abs(Math.log(voiced / expected[i])) * 1.5);
+    const clarity = (startBoundary.strength + endBoundary.strength) / 2;
+    const density = Math.min(1, voiced / span);
+    const confidence = Math.max(0, Math.min(1, fit * 0.45 + clarity * 0.4 + density * 0.15));
+
+    const startTime = Math.max(0, startBoundary.voiceStart - LEAD_IN_SECONDS);
+    const nextStart = i + 1 < n ? boundaries[chosen[i + 1]].voiceStart - LEAD_IN_SECONDS : Infinity;
+    const endTime = Math.max(startTime + 0.1, Math.min(endBoundary.voiceEnd + TAIL_SECONDS, nextStart));
+    return { ...retimeLine(line, startTime, endTime), confidence };
+  });
+};
\ No newline at end of file
@@ -0,0 +1,253 @@
+import { analyzeAudioOffline, getFrameAudio, FrameAudio } from './audioAnalysis';
+import { BeatAnalysis } from './beatTracking';
+import { MediaMuxer } from '../utils/muxer';
+import { WebMMuxer } from '../utils/webmMuxer';
+import { MP4Muxer } from '../utils/mp4Muxer';
+
+// Deterministic export: frames are drawn at fixed time steps and fed straight to
+// WebCodecs encoders, so the result does not depend on playback speed or dropped frames.
+
+export interface OfflineFrame {
+  index: number;
+  time: number; // seconds
+  dt: number; // seconds per frame
+  audio: FrameAudio;
+}
+
+export type ExportContainer = 'mp4' | 'webm';
+
+export type OfflineRenderStage = 'analyzing' | 'rendering' | 'finalizing';
+
+export interface OfflineRenderProgress {
+  stage: OfflineRenderStage;
+  progress: number; // 0..1 within the stage
+}
+
+export interface OfflineRenderOptions {
+  width: number;
+  height: number;
+  fps: number;
+  duration: number; // seconds
+  audioBuffer: AudioBuffer;
+  beatSensitivity: number;
+  beats?: BeatAnalysis | null; // tracked beats of `audioBuffer`; bass loudness is used without them
+  container: ExportContainer; // preferred; falls back to WebM if MP4 encoders are missing
+  drawFrame: (ctx: CanvasRenderingContext2D, frame: OfflineFrame) => void | Promise<void>;
+  onProgress?: (progress: OfflineRenderProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface OfflineRenderResult {
+  blob: Blob;
+  extension: string;
+  container: ExportContainer;
+}
+
+const VIDEO_BITRATE = 8_000_000;
+const AUDIO_BITRATE = 160_000;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const AUDIO_CHUNK_FRAMES = 4800;
+const MAX_ENCODE_QUEUE = 8;
+// Hand control back to the browser this often so the progress bar can repaint
+const YIELD_INTERVAL_MS = 50;
+
+const WEBM_VIDEO_CODECS = ['vp09.00.10.08', 'vp8'];
+const AAC_CODEC = 'mp4a.40.2';
+
+// H.264 levels as [level_idc in hex, max frame size, max macroblocks per second];
+// e.g. 1080p60 needs 4.2 and 4K60 needs 5.2
+const H264_LEVELS: [string, number, number][] = [
+  ['28', 8192, 245760], // 4.0
+  ['2a', 8704, 522240], // 4.2
+  ['32', 22080, 589824], // 5.0
+  ['33', 36864, 983040], // 5.1
+  ['34', 36864, 2073600], // 5.2
+  ['3c', 139264, 4177920], // 6.0
+  ['3d', 139264, 8355840], // 6.1
+  ['3e', 139264, 16711680], // 6.2
+];
+
+// H.264 High, then Main, then Baseline, at the lowest level that fits the
+// frame size and macroblock rate
+const h264Codecs = (width: number, height: number, fps: number): string[] => {
+  const frameSize = Math.ceil(width / 16) * Math.ceil(height / 16);
+  const rate = frameSize * fps;
+  const fit = H264_LEVELS.find(([, maxFrameSize, maxRate]) => frameSize <= maxFrameSize && rate <= maxRate);
+  const level = (fit || H264_LEVELS[H264_LEVELS.length - 1])[0];
+  return [`avc1.6400${level}`, `avc1.4d00${level}`, `avc1.4200${level}`];
+};
+
+export const isOfflineRenderSupported = (): boolean =>
+  typeof VideoEncoder !== 'undefined' &&
+  typeof VideoFrame !== 'undefined' &&
+  typeof OfflineAudioContext !== 'undefined';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Render cancelled', 'AbortError');
+};
+
+const nextTick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const waitForQueue = async (encoder: VideoEncoder | AudioEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise<void>(resolve => {
+      if ('ondequeue' in encoder) encoder.addEventListener('dequeue', () => resolve(), { once: true });
+      else setTimeout(resolve, 1);
+    });
+  }
+};
+
+const pickVideoConfig = async (codecs: string[], width: number, height: number, fps: number): Promise<VideoEncoderConfig | null> => {
+  for (const codec of codecs) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate: VIDEO_BITRATE, framerate: fps };
+    // Ask for length-prefixed NAL units plus an avcC record, which is what MP4 stores
+    if (codec.startsWith('avc1')) config.avc = { format: 'avc' };
+    const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+    if (support?.supported) return config;
+  }
+  return null;
+};
+
+const pickAudioConfig = async (codec: string, sampleRate: number, numberOfChannels: number): Promise<AudioEncoderConfig | null> => {
+  if (typeof AudioEncoder === 'undefined') return null;
+  const config: AudioEncoderConfig = { codec, sampleRate, numberOfChannels, bitrate: AUDIO_BITRATE };
+  const support = await AudioEncoder.isConfigSupported(config).catch(() => null);
+  return support?.supported ? config : null;
+};
+
+const encodeAudioBuffer = async (encoder: AudioEncoder, audio: AudioBuffer, signal?: AbortSignal) => {
+  const channels = audio.numberOfChannels;
+  for (let offset = 0; offset < audio.length; offset += AUDIO_CHUNK_FRAMES) {
+    throwIfAborted(signal);
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, audio.length - offset);
+    const planar = new Float32Array(frames * channels);
+    for (let c = 0; c < channels; c++) {
+      planar.set(audio.getChannelData(c).subarray(offset, offset + frames), c * frames);
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: audio.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round((offset / audio.sampleRate) * 1e6),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+    await waitForQueue(encoder);
+  }
+};
+
+export const renderOffline = async (options: OfflineRenderOptions): Promise<OfflineRenderResult> => {
+  const { fps, duration, audioBuffer, beatSensitivity, beats = null, container, drawFrame, onProgress, signal } = options;
+  // Most encoders require even dimensions
+  const width = Math.floor(options.width / 2) * 2;
+  const height = Math.floor(options.height / 2) * 2;
+
+  onProgress?.({ stage: 'analyzing', progress: 0 });
+  const analysis = await analyzeAudioOffline(audioBuffer, fps, duration, p => onProgress?.({ stage: 'analyzing', progress: p }));
+  throwIfAborted(signal);
+
+  const { sampleRate, numberOfChannels } = analysis.audio;
+  let videoConfig: VideoEncoderConfig | null = null;
+  let audioConfig: AudioEncoderConfig | null = null;
+  let usedContainer: ExportContainer = 'webm';
+
+  // MP4 needs both H.264 and AAC; otherwise fall back to VP9/Opus in WebM
+  if (container === 'mp4') {
+    videoConfig = await pickVideoConfig(h264Codecs(width, height, fps), width, height, fps);
+    audioConfig = await pickAudioConfig(AAC_CODEC, sampleRate, numberOfChannels);
+    if (videoConfig && audioConfig) usedContainer = 'mp4';
+    else console.warn('MP4 encoders unavailable, falling back to WebM');
+  }
+  if (usedContainer === 'webm') {
+    videoConfig = await pickVideoConfig(WEBM_VIDEO_CODECS, width, height, fps);
+    audioConfig = await pickAudioConfig('opus', sampleRate, numberOfChannels);
+  }
+  if (!videoConfig) throw new Error('此瀏覽器不支援 WebCodecs 影像編碼');
+
+  const muxerVideo = { codec: videoConfig.codec, width, height, frameRate: fps };
+  const muxerAudio = audioConfig
+    ? { codec: audioConfig.codec, sampleRate: audioConfig.sampleRate, numberOfChannels: audioConfig.numberOfChannels }
+    : undefined;
+  const muxer: MediaMuxer = usedContainer === 'mp4'
+    ? new MP4Muxer(muxerVideo, muxerAudio)
+    : new WebMMuxer(muxerVideo, muxerAudio);
+
+  let encoderError: Error | null = null;
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: e => { encoderError = e; },
+  });
+  videoEncoder.configure(videoConfig);
+
+  let audioEncoder: AudioEncoder | null = null;
+  if (audioConfig) {
+    const config = audioConfig;
+    audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: e => { encoderError = e; },
+    });
+    audioEncoder.configure(config);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { alpha: false })!;
+
+  try {
+    if (audioEncoder) await encodeAudioBuffer(audioEncoder, analysis.audio, signal);
+
+    const frameDuration = 1e6 / fps;
+    const keyInterval = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL_SECONDS));
+    let lastYield = performance.now();
+
+    for (let i = 0; i < analysis.frameCount; i++) {
+      throwIfAborted(signal);
+      if (encoderError) throw encoderError;
+
+      await drawFrame(ctx, {
+        index: i,
+        time: i / fps,
+        dt: 1 / fps,
+        audio: getFrameAudio(analysis, i, beatSensitivity, beats),
+      });
+
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(i * frameDuration), duration: Math.round(frameDuration) });
+      videoEncoder.encode(frame, { keyFrame: i % keyInterval === 0 });
+      frame.close();
+      await waitForQueue(videoEncoder);
+
+      if (performance.now() - lastYield > YIELD_INTERVAL_MS) {
+        onProgress?.({ stage: 'rendering', progress: (i + 1) / analysis.frameCount });
+        await nextTick();
+        lastYield = performance.now();
+      }
+    }
+
+    onProgress?.({ stage: 'finalizing', progress: 0 });
+    await videoEncoder.flush();
+    if (audioEncoder) await audioEncoder.flush();
+    if (encoderError) throw encoderError;
+
+    const blob = muxer.finalize();
+    onProgress?.({ stage: 'finalizing', progress: 1 });
+    return { blob, extension: muxer.extension, container: usedContainer };
+  } finally {
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+  }
+};
+
+// MediaRecorder MIME types for live capture, most preferred first
+const RECORDER_TYPES: Record<ExportContainer, string[]> = {
+  mp4: ['video/mp4;codecs=avc1.640028,mp4a.40.2', 'video/mp4;codecs=avc1,mp4a', 'video/mp4'],
+  webm: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+};
+
+export const pickRecorderMimeType = (container: ExportContainer): string | undefined => {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  const order = container === 'mp4' ? [...RECORDER_TYPES.mp4, ...RECORDER_TYPES.webm] : RECORDER_TYPES.webm;
+  return order.find(type => MediaRecorder.isTypeSupported(type));
+};
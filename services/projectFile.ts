@@ -0,0 +1,248 @@
+import { LyricLine, VisualSettings, SongMetadata } from '../types';
+import { createZip, readZip, zipText, unzipText, ZipEntry } from '../utils/zip';
+import { STORE_RECENT_PROJECTS, idbGetAll, idbGet, idbPut, idbDelete } from './storage';
+import { FontFile } from './fonts';
+
+// A project is a ZIP bundle: project.json (lyrics, settings, metadata) plus the
+// audio, background media and uploaded fonts under assets/. The manifest carries a schema
+// version; older files are upgraded through MIGRATIONS when opened.
+
+export const PROJECT_SCHEMA_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = 'willwi';
+export const PROJECT_FILE_ACCEPT = '.willwi,.zip';
+
+const MANIFEST_PATH = 'project.json';
+const MAX_RECENT_PROJECTS = 5;
+// Recent projects carry their media, so the list is also capped by total size
+const MAX_RECENT_TOTAL_BYTES = 500 * 1024 * 1024;
+
+export interface ProjectAsset {
+  path: string;
+  mimeType: string;
+}
+
+export interface ProjectFontAsset extends ProjectAsset {
+  family: string;
+  fileName: string;
+}
+
+export interface ProjectManifest {
+  app: 'willwi-studio';
+  schemaVersion: number;
+  savedAt: string;
+  projectId?: string; // stable across saves and renames; absent in older files
+  lyrics: LyricLine[];
+  settings: Partial<VisualSettings>; // media fields are stored as assets instead
+  metadata: SongMetadata;
+  assets: {
+    audio?: ProjectAsset;
+    backgroundImage?: ProjectAsset;
+    backgroundVideo?: ProjectAsset;
+    fonts?: ProjectFontAsset[];
+  };
+}
+
+export interface ProjectData {
+  projectId?: string;
+  lyrics: LyricLine[];
+  settings: Partial<VisualSettings>;
+  metadata: SongMetadata;
+  audio?: Blob;
+  backgroundImage?: Blob;
+  backgroundVideo?: Blob;
+  fonts?: FontFile[];
+}
+
+export interface RecentProject {
+  id: string;
+  name: string;
+  savedAt: number;
+  size: number;
+  file: Blob;
+}
+
+type RawManifest = Record<string, unknown>;
+
+// Each entry upgrades a manifest from `version` to `version + 1`
+const MIGRATIONS: Record<number, (manifest: RawManifest) => RawManifest> = {};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAsset = (value: unknown): value is ProjectAsset =>
+  isObject(value) && typeof value.path === 'string' && typeof value.mimeType === 'string';
+
+const isFontAsset = (value: unknown): value is ProjectFontAsset =>
+  isAsset(value) && isObject(value) && typeof value.family === 'string' && typeof value.fileName === 'string';
+
+const isLyricLine = (value: unknown): value is LyricLine =>
+  isObject(value) && typeof value.id === 'string' && typeof value.text === 'string' &&
+  Number.isFinite(value.startTime) && Number.isFinite(value.endTime);
+
+// The file is untrusted: check the parts the studio relies on before using it
+const validateManifest = (manifest: RawManifest): ProjectManifest => {
+  const { lyrics, settings, metadata, assets, projectId } = manifest;
+  if (!Array.isArray(lyrics) || !lyrics.every(isLyricLine)) throw new Error('專案檔的歌詞資料損毀');
+  if (!isObject(settings) || !isObject(metadata) || !isObject(assets)) throw new Error('專案檔內容不完整');
+  if (projectId !== undefined && typeof projectId !== 'string') throw new Error('專案檔的識別碼無效');
+  const media = [assets.audio, assets.backgroundImage, assets.backgroundVideo];
+  const fontsValid = assets.fonts === undefined || (Array.isArray(assets.fonts) && assets.fonts.every(isFontAsset));
+  if (!media.every(asset => asset === undefined || isAsset(asset)) || !fontsValid) throw new Error('專案檔的素材清單損毀');
+  return manifest as unknown as ProjectManifest;
+};
+
+export const migrateManifest = (raw: unknown): ProjectManifest => {
+  if (!isObject(raw) || raw.app !== 'willwi-studio') throw new Error('不是 Willwi 專案檔');
+  let manifest = raw;
+  let version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (version > PROJECT_SCHEMA_VERSION) throw new Error('專案檔版本較新，請更新程式後再開啟');
+
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`無法升級專案檔版本 ${version}`);
+    manifest = migrate(manifest);
+    version++;
+    manifest.schemaVersion = version;
+  }
+  return validateManifest(manifest);
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/flac': 'flac',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'aac',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+};
+
+const assetEntry = async (name: string, blob: Blob): Promise<{ asset: ProjectAsset; entry: ZipEntry }> => {
+  const mimeType = blob.type || 'application/octet-stream';
+  const path = `assets/${name}.${EXTENSIONS[mimeType] || 'bin'}`;
+  return { asset: { path, mimeType }, entry: { name: path, data: new Uint8Array(await blob.arrayBuffer()) } };
+};
+
+export const saveProject = async (project: ProjectData): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const assets: ProjectManifest['assets'] = {};
+
+  const media: [Exclude<keyof ProjectManifest['assets'], 'fonts'>, Blob | undefined][] = [
+    ['audio', project.audio],
+    ['backgroundImage', project.backgroundImage],
+    ['backgroundVideo', project.backgroundVideo],
+  ];
+  for (const [key, blob] of media) {
+    if (!blob) continue;
+    const { asset, entry } = await assetEntry(key, blob);
+    assets[key] = asset;
+    entries.push(entry);
+  }
+
+  // Font files keep their own extension; their MIME types are too unreliable to map
+  assets.fonts = [];
+  for (const [i, font] of (project.fonts || []).entries()) {
+    const extension = font.fileName.split('.').pop()?.toLowerCase() || 'bin';
+    const path = `assets/fonts/${i}.${extension}`;
+    assets.fonts.push({ path, mimeType: font.blob.type || 'application/octet-stream', family: font.family, fileName: font.fileName });
+    entries.push({ name: path, data: new Uint8Array(await font.blob.arrayBuffer()) });
+  }
+
+  const settings = withoutMedia(project.settings);
+  const manifest: ProjectManifest = {
+    app: 'willwi-studio',
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    projectId: project.projectId,
+    lyrics: project.lyrics,
+    settings,
+    metadata: project.metadata,
+    assets,
+  };
+
+  return createZip([zipText(MANIFEST_PATH, JSON.stringify(manifest, null, 2)), ...entries]);
+};
+
+export const openProject = async (file: Blob): Promise<ProjectData> => {
+  const files = await readZip(file);
+  const manifestBytes = files.get(MANIFEST_PATH);
+  if (!manifestBytes) throw new Error('專案檔缺少 project.json');
+
+  const manifest = migrateManifest(JSON.parse(unzipText(manifestBytes)));
+  const loadAsset = (asset?: ProjectAsset): Blob | undefined => {
+    if (!asset) return undefined;
+    const data = files.get(asset.path);
+    return data ? new Blob([data], { type: asset.mimeType }) : undefined;
+  };
+
+  return {
+    projectId: manifest.projectId,
+    lyrics: manifest.lyrics,
+    settings: manifest.settings,
+    metadata: manifest.metadata,
+    audio: loadAsset(manifest.assets.audio),
+    backgroundImage: loadAsset(manifest.assets.backgroundImage),
+    backgroundVideo: loadAsset(manifest.assets.backgroundVideo),
+    fonts: (manifest.assets.fonts || []).flatMap(({ family, fileName, ...asset }) => {
+      const blob = loadAsset(asset);
+      return blob ? [{ family, fileName, blob }] : [];
+    }),
+  };
+};
+
+// --- Recent projects (kept in IndexedDB) ---
+
+export const listRecentProjects = async (): Promise<RecentProject[]> => {
+  const all = await idbGetAll<RecentProject>(STORE_RECENT_PROJECTS);
+  return all.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const getRecentProject = (id: string) => idbGet<RecentProject>(STORE_RECENT_PROJECTS, id);
+
+export const createProjectId = () => `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Remember a saved/opened project under its id, keeping only the newest few
+// that fit within the size cap. A file larger than the whole cap is not kept.
+export const rememberRecentProject = async (id: string, name: string, file: Blob): Promise<RecentProject[]> => {
+  if (file.size <= MAX_RECENT_TOTAL_BYTES) {
+    await idbPut<RecentProject>(STORE_RECENT_PROJECTS, { id, name, savedAt: Date.now(), size: file.size, file });
+  }
+  const recent = await listRecentProjects();
+  let total = 0;
+  const kept = recent.filter((project, i) => {
+    total += project.size;
+    return i < MAX_RECENT_PROJECTS && total <= MAX_RECENT_TOTAL_BYTES;
+  });
+  await Promise.all(recent.filter(p => !kept.includes(p)).map(p => idbDelete(STORE_RECENT_PROJECTS, p.id)));
+  return kept;
+};
+
+// Media URLs only make sense in the current page, so stored settings drop them
+export const withoutMedia = (settings: Partial<VisualSettings>): Partial<VisualSettings> => {
+  const { backgroundImage, backgroundVideo, ...rest } = settings;
+  return rest;
+};
+
+// Helpers for moving media between the studio's URL-based state and Blobs
+export const blobFromUrl = async (url?: string | null): Promise<Blob | undefined> => {
+  if (!url) return undefined;
+  const response = await fetch(url);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
@@ -0,0 +1,73 @@
+// Thin promise wrapper around the studio's IndexedDB database
+
+const DB_NAME = 'willwi-studio';
+const DB_VERSION = 3;
+
+export const STORE_RECENT_PROJECTS = 'recentProjects';
+export const STORE_SESSION = 'session'; // autosaved editor state, keyed by name
+export const STORE_MEDIA = 'media'; // autosaved media blobs, keyed by slot
+export const STORE_SNAPSHOTS = 'snapshots'; // rolling version history
+export const STORE_FONTS = 'fonts'; // uploaded font files, keyed by font id
+
+const STORES: [string, IDBObjectStoreParameters][] = [
+  [STORE_RECENT_PROJECTS, { keyPath: 'id' }],
+  [STORE_SESSION, { keyPath: 'id' }],
+  [STORE_MEDIA, { keyPath: 'id' }],
+  [STORE_SNAPSHOTS, { keyPath: 'id', autoIncrement: true }],
+  [STORE_FONTS, { keyPath: 'id' }],
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const [name, options] of STORES) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, options);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return requestToPromise(fn(tx.objectStore(storeName)));
+};
+
+export const idbGet = <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(storeName, 'readonly', store => store.get(key));
+
+export const idbGetAll = <T>(storeName: string): Promise<T[]> =>
+  withStore(storeName, 'readonly', store => store.getAll());
+
+export const idbPut = <T>(storeName: string, value: T): Promise<IDBValidKey> =>
+  withStore(storeName, 'readwrite', store => store.put(value));
+
+export const idbDelete = (storeName: string, key: IDBValidKey): Promise<undefined> =>
+  withStore(storeName, 'readwrite', store => store.delete(key));
+
+export const idbGetAllKeys = (storeName: string): Promise<IDBValidKey[]> =>
+  withStore(storeName, 'readonly', store => store.getAllKeys());
+
+export const idbClear = (storeName: string): Promise<undefined> =>
+  withStore(storeName, 'readwrite', store => store.clear());
\ No newline at end of file
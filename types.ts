@@ -1,10 +1,26 @@
 
+// A timed piece of a lyric line: one character for CJK text, one word for Latin text
+export interface LyricSegment {
+  text: string;
+  startTime: number; // in seconds
+  endTime: number; // in seconds
+}
+
 export interface LyricLine {
   id: string;
   startTime: number; // in seconds
   endTime: number; // in seconds
   text: string;
-  translation?: string;
+  translation?: string; // untagged: typed by hand or imported
+  translations?: Record<string, string>; // AI translations keyed by language code
+  words?: LyricSegment[]; // karaoke timing; segment texts concatenate to `text`
+  confidence?: number; // 0..1 from automatic alignment; cleared once timing is edited by hand
+  trackId?: string; // LyricTrack id; lines without one belong to the main track
+  ruby?: string[]; // hand-authored reading per code point of `text` ('' for none)
+  placement?: LinePlacement; // overrides the track and global placement
+  section?: string; // tag shared by the lines of one section, e.g. "chorus"
+  lineStyle?: LineStyle; // overrides the section style, then the track and global settings
+  styleKeyframes?: StyleKeyframe[]; // blended over lineStyle as the line plays, sorted by `at`
 }
 
 export enum ThemeStyle {
@@ -21,21 +37,125 @@ export enum AnimationType {
   BOUNCE = 'BOUNCE'
 }
 
+export enum AspectRatio {
+  LANDSCAPE = 'LANDSCAPE', // 16:9
+  PORTRAIT = 'PORTRAIT', // 9:16 (Reels / Shorts / TikTok)
+  SQUARE = 'SQUARE' // 1:1 (IG feed)
+}
+
+export type RubySystem = 'pinyin' | 'zhuyin' | 'kana';
+
+export type TrackPosition = 'top' | 'center' | 'bottom';
+export type TrackAlign = 'left' | 'center' | 'right';
+// 'custom' lines leave the bands and the safe area: they centre on the canvas centre plus their offsets
+export type LyricAnchor = TrackPosition | 'custom';
+
+// Unset fields fall back to the line's track, then to the global settings.
+// Offsets add to the global offset.
+export interface LinePlacement {
+  anchor?: LyricAnchor;
+  align?: TrackAlign;
+  offsetX?: number; // share of the width
+  offsetY?: number; // share of the height
+}
+
+// A named lyric layer: a singer in a duet, backing vocals, romanization...
+export interface LyricTrack {
+  id: string;
+  name: string;
+  position?: TrackPosition; // vertical band; tracks sharing a band stack in list order. Falls back to the global anchor
+  align?: TrackAlign; // falls back to the global alignment
+  color: string; // text fill
+  scale: number; // relative to fontSize
+  animationType?: AnimationType; // falls back to the global animation
+}
+
+// Partial look of a line or a tagged section; unset fields fall through
+export interface LineStyle {
+  fontFamily?: string;
+  fontWeight?: number;
+  sizeScale?: number; // multiplies the track size
+  color?: string; // text fill, in place of the track colour
+  highlightColor?: string; // karaoke wipe and glow, in place of the primary colour
+  animationType?: AnimationType;
+  style?: ThemeStyle;
+}
+
+// A style a line reaches part-way through; `at` is a share of the line's
+// duration, 0 at its start and 1 at its end
+export interface StyleKeyframe {
+  at: number;
+  style: LineStyle;
+}
+
+// One entry in the stack of effects drawn between the background and the lyrics
+export interface EffectLayer {
+  id: string;
+  effect: string; // EffectPlugin id (see effects/)
+  enabled: boolean;
+  opacity: number; // 0..1
+}
+
+export type ParticleShape = 'circle' | 'square' | 'star' | 'heart' | 'spark' | 'noodle';
+
+export type RendererKind = 'canvas2d' | 'webgl';
+
+// Direction of the primary → secondary colour fill, or 'none' for the line colour
+export type TextGradient = 'none' | 'vertical' | 'horizontal';
+
+export type WritingMode = 'horizontal' | 'vertical';
+
 export interface VisualSettings {
   primaryColor: string;
   secondaryColor: string;
   backgroundColor: string;
   fontFamily: string;
+  fontWeight: number; // CSS weight of the lyric text
   fontSize: number;
-  particleCount: number;
+  textGradient: TextGradient;
+  outlineWidth: number; // design units
+  outlineColor: string; // '' follows the theme: neon and fiery only
+  textShadowDistance: number; // design units, down and to the right; 0 with no blur is off
+  textShadowBlur: number; // design units
+  textShadowColor: string;
+  letterSpacing: number; // share of the font size
+  lineHeight: number; // row (or column) pitch as a multiple of the font size
+  writingMode: WritingMode; // vertical stacks CJK top to bottom, columns right to left
+  particleCount: number; // particles kept alive, beat bursts come on top
+  particlePreset: string; // emitter preset id (see effects/particlePresets)
+  particleShape: ParticleShape;
+  particleGravity: number; // design units per 60fps frame², negative rises
+  particleWind: number; // same units, positive blows right
+  effectLayers: EffectLayer[]; // drawn in order, the first at the back
   beatSensitivity: number; // 0.0 to 2.0
   style: ThemeStyle;
   backgroundImage?: string;
+  backgroundVideo?: string; // object URL of a looping background clip
   animationType: AnimationType;
   animationSpeed: number; // 0.5 to 2.0
   transitionDuration: number; // 0.1 to 1.0 seconds
   showTranslation: boolean;
+  translationLanguages: string[]; // up to two codes drawn under each line (see utils/translations)
+  tracks: LyricTrack[]; // never empty
+  showRuby: boolean;
+  rubySystem: RubySystem; // dictionary used for lines without hand-authored readings
+  rubyScale: number; // relative to the line's font size
+  rubyColor: string;
   driveFolderUrl?: string;
+  aspectRatio: AspectRatio;
+  resolution: number; // export size of the short edge in px (720, 1080, 2160)
+  safeMarginX: number; // title-safe margin per side, share of the width
+  safeMarginY: number; // title-safe margin per side, share of the height
+  renderer: RendererKind; // 'webgl' falls back to canvas2d where WebGL2 is unavailable
+  bloomStrength: number; // 0..1; this and the next three are WebGL post effects
+  chromaticAberration: number; // 0..1
+  filmGrain: number; // 0..1
+  beatZoom: number; // 0..1
+  lyricAnchor: LyricAnchor;
+  lyricAlign: TrackAlign;
+  lyricOffsetX: number; // moves every lyric, share of the width
+  lyricOffsetY: number; // share of the height
+  sectionStyles: Record<string, LineStyle>; // keyed by LyricLine.section
 }
 
 export interface SongMetadata {
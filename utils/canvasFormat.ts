@@ -0,0 +1,50 @@
+import { AspectRatio } from '../types';
+
+// All drawing happens in "design units": a canvas whose short edge is 1080.
+// Font sizes and offsets in VisualSettings are expressed in these units, so a
+// layout looks the same in the preview and at every export resolution.
+export const DESIGN_SHORT_EDGE = 1080;
+
+export const RESOLUTION_OPTIONS = [720, 1080, 2160];
+
+export const ASPECT_RATIO_LABELS: Record<AspectRatio, string> = {
+  [AspectRatio.LANDSCAPE]: '16:9 橫式',
+  [AspectRatio.PORTRAIT]: '9:16 直式 (Reels)',
+  [AspectRatio.SQUARE]: '1:1 方形 (IG)',
+};
+
+// width / height
+export const aspectRatioValue = (aspect: AspectRatio): number => {
+  switch (aspect) {
+    case AspectRatio.PORTRAIT: return 9 / 16;
+    case AspectRatio.SQUARE: return 1;
+    default: return 16 / 9;
+  }
+};
+
+const sizeForShortEdge = (aspect: AspectRatio, shortEdge: number) => {
+  const ratio = aspectRatioValue(aspect);
+  return ratio >= 1
+    ? { width: Math.round(shortEdge * ratio), height: shortEdge }
+    : { width: shortEdge, height: Math.round(shortEdge / ratio) };
+};
+
+export const getDesignSize = (aspect: AspectRatio) => sizeForShortEdge(aspect, DESIGN_SHORT_EDGE);
+
+// Absolute pixel size used for export, rounded to even numbers for the encoders
+export const getOutputSize = (aspect: AspectRatio, resolution: number) => {
+  const { width, height } = sizeForShortEdge(aspect, resolution);
+  return { width: Math.round(width / 2) * 2, height: Math.round(height / 2) * 2 };
+};
+
+// Largest box with the given aspect ratio that fits inside the available area
+export const fitToArea = (aspect: AspectRatio, areaWidth: number, areaHeight: number) => {
+  const ratio = aspectRatioValue(aspect);
+  let width = areaWidth;
+  let height = width / ratio;
+  if (height > areaHeight) {
+    height = areaHeight;
+    width = height * ratio;
+  }
+  return { width: Math.max(0, Math.floor(width)), height: Math.max(0, Math.floor(height)) };
+};
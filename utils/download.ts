@@ -0,0 +1,19 @@
+// Trigger a browser download for an in-memory blob
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.style.display = 'none';
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Strip characters that are not allowed in file names on common platforms
+export const toSafeFileName = (name: string, fallback: string): string => {
+  const cleaned = name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '').trim();
+  return cleaned || fallback;
+};
@@ -0,0 +1,183 @@
+import { LineStyle, StyleKeyframe, LyricLine, LyricTrack, VisualSettings, ThemeStyle, AnimationType, TextGradient, WritingMode } from '../types';
+import { resolveTrack } from './lyricTracks';
+
+export const FONTS = [
+  { name: 'Noto Serif TC', label: 'Noto Serif (文青)' },
+  { name: 'Montserrat', label: 'Montserrat (現代)' },
+  { name: 'Inter', label: 'Inter (簡約)' },
+  { name: 'Times New Roman', label: 'Serif (經典)' },
+  { name: 'Courier New', label: 'Mono (代碼)' },
+];
+
+export const FONT_WEIGHTS = [
+  { weight: 300, label: '細' },
+  { weight: 400, label: '標準' },
+  { weight: 500, label: '中等' },
+  { weight: 700, label: '粗體' },
+  { weight: 900, label: '特粗' },
+];
+
+export const ANIMATION_LABELS: Record<AnimationType, string> = {
+  [AnimationType.FADE]: '淡入 (Fade)',
+  [AnimationType.SLIDE_UP]: '上滑 (Slide Up)',
+  [AnimationType.ZOOM]: '縮放 (Zoom)',
+  [AnimationType.BOUNCE]: '彈跳 (Bounce)',
+};
+
+export const THEME_LABELS: Record<ThemeStyle, string> = {
+  [ThemeStyle.NEON]: '霓虹 (Neon)',
+  [ThemeStyle.MINIMAL]: '極簡 (Minimal)',
+  [ThemeStyle.NATURE]: '自然 (Nature)',
+  [ThemeStyle.FIERY]: '熾熱 (Fiery)',
+};
+
+export const TEXT_GRADIENTS: { gradient: TextGradient; label: string }[] = [
+  { gradient: 'none', label: '單色' },
+  { gradient: 'vertical', label: '上下漸層' },
+  { gradient: 'horizontal', label: '左右漸層' },
+];
+
+export const WRITING_MODES: { mode: WritingMode; label: string }[] = [
+  { mode: 'horizontal', label: '橫書' },
+  { mode: 'vertical', label: '直書' },
+];
+
+export const SIZE_SCALE_OPTIONS = [0.6, 0.8, 1.2, 1.5];
+
+// Everything drawLine needs to know about a line's look
+export interface ResolvedLineStyle {
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+  color: string;
+  highlightColor: string;
+  animationType: AnimationType;
+  style: ThemeStyle;
+}
+
+// Later styles win; unset fields never clear earlier ones
+export const mergeLineStyles = (...styles: (LineStyle | undefined)[]): LineStyle =>
+  styles.reduce<LineStyle>((merged, style) => {
+    Object.entries(style || {}).forEach(([key, value]) => {
+      if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+    });
+    return merged;
+  }, {});
+
+export const isEmptyLineStyle = (style?: LineStyle): boolean =>
+  !style || Object.values(style).every(value => value === undefined);
+
+const HEX_COLOR = /^#([0-9a-f]{6})$/i;
+
+// Blends two '#rrggbb' colours; anything else switches over halfway
+const mixColors = (from: string, to: string, t: number): string => {
+  const a = HEX_COLOR.exec(from);
+  const b = HEX_COLOR.exec(to);
+  if (!a || !b) return t < 0.5 ? from : to;
+  const channel = (shift: number) => {
+    const start = (parseInt(a[1], 16) >> shift) & 0xff;
+    const end = (parseInt(b[1], 16) >> shift) & 0xff;
+    return Math.round(start + (end - start) * t).toString(16).padStart(2, '0');
+  };
+  return `#${channel(16)}${channel(8)}${channel(0)}`;
+};
+
+// The keyframed style `progress` (0..1) through a line. Before the first
+// keyframe and after the last their style holds. In between, size and colours
+// set on both neighbours blend; the other fields keep the earlier keyframe's.
+export const keyframedStyle = (keyframes: StyleKeyframe[] | undefined, progress: number): LineStyle => {
+  if (!keyframes?.length) return {};
+  const next = keyframes.findIndex(keyframe => keyframe.at > progress);
+  if (next === 0) return keyframes[0].style;
+  if (next < 0) return keyframes[keyframes.length - 1].style;
+  const { at: fromAt, style: from } = keyframes[next - 1];
+  const { at: toAt, style: to } = keyframes[next];
+  const t = (progress - fromAt) / (toAt - fromAt);
+  const style: LineStyle = { ...from };
+  if (from.sizeScale !== undefined && to.sizeScale !== undefined) {
+    style.sizeScale = from.sizeScale + (to.sizeScale - from.sizeScale) * t;
+  }
+  if (from.color && to.color) style.color = mixColors(from.color, to.color, t);
+  if (from.highlightColor && to.highlightColor) style.highlightColor = mixColors(from.highlightColor, to.highlightColor, t);
+  return style;
+};
+
+// Adds `style` at `at`, merged into a keyframe already there
+export const addStyleKeyframe = (keyframes: StyleKeyframe[] | undefined, at: number, style: LineStyle): StyleKeyframe[] => {
+  const existing = (keyframes || []).find(keyframe => keyframe.at === at);
+  return [
+    ...(keyframes || []).filter(keyframe => keyframe !== existing),
+    { at, style: mergeLineStyles(existing?.style, style) },
+  ].sort((a, b) => a.at - b.at);
+};
+
+// Where a song time falls within a line, 0..1
+const lineProgress = (line: LyricLine, time: number): number => {
+  const duration = line.endTime - line.startTime;
+  return duration > 0 ? Math.max(0, Math.min(1, (time - line.startTime) / duration)) : 0;
+};
+
+// Global settings → track → section style → the line's own override → its
+// keyframes at `time` (the line's start when omitted)
+export const resolveLineStyle = (line: LyricLine, track: LyricTrack, settings: VisualSettings, time = line.startTime): ResolvedLineStyle => {
+  const override = mergeLineStyles(
+    line.section ? settings.sectionStyles[line.section] : undefined,
+    line.lineStyle,
+    keyframedStyle(line.styleKeyframes, lineProgress(line, time))
+  );
+  return {
+    fontFamily: override.fontFamily ?? settings.fontFamily,
+    fontWeight: override.fontWeight ?? settings.fontWeight,
+    fontSize: settings.fontSize * track.scale * (override.sizeScale ?? 1),
+    color: override.color ?? track.color,
+    highlightColor: override.highlightColor ?? settings.primaryColor,
+    animationType: override.animationType ?? track.animationType ?? settings.animationType,
+    style: override.style ?? settings.style,
+  };
+};
+
+// The outline's colour, or null for none. Without a chosen colour the theme
+// decides: neon outlines in the highlight colour, fiery in the secondary one.
+export const resolveOutlineColor = (look: ResolvedLineStyle, settings: VisualSettings): string | null => {
+  if (settings.outlineWidth <= 0) return null;
+  if (settings.outlineColor) return settings.outlineColor;
+  if (look.style === ThemeStyle.NEON) return look.highlightColor;
+  if (look.style === ThemeStyle.FIERY) return settings.secondaryColor;
+  return null;
+};
+
+// Fiery glows in the palette's secondary colour, everything else in the highlight
+export const resolveGlowColor = (look: ResolvedLineStyle, settings: VisualSettings): string =>
+  look.style === ThemeStyle.FIERY ? settings.secondaryColor : look.highlightColor;
+
+// Section tags in first-use order
+export const listSections = (lyrics: LyricLine[]): string[] =>
+  Array.from(new Set(lyrics.map(line => line.section).filter((tag): tag is string => !!tag)));
+
+// A canvas font shorthand. The family is quoted, so uploaded fonts may have any name.
+export const cssFont = (weight: number, size: number, family: string): string =>
+  `${weight} ${size}px "${family.replace(/["\\]/g, '')}"`;
+
+// A line's look at its start and at each of its keyframes
+const lineLooks = (line: LyricLine, settings: VisualSettings): ResolvedLineStyle[] => {
+  const track = resolveTrack(settings.tracks, line.trackId);
+  const times = (line.styleKeyframes || []).map(({ at }) => line.startTime + (line.endTime - line.startTime) * at);
+  return [line.startTime, ...times].map(time => resolveLineStyle(line, track, settings, time));
+};
+
+// Every family the lyrics are drawn in
+export const usedFontFamilies = (lyrics: LyricLine[], settings: VisualSettings): string[] =>
+  Array.from(new Set([
+    settings.fontFamily,
+    ...lyrics.flatMap(line => lineLooks(line, settings).map(look => look.fontFamily)),
+  ]));
+
+// Font shorthands for everything the renderer draws: lyrics in their own
+// weight, translations at 500 and ruby at 700
+export const usedFonts = (lyrics: LyricLine[], settings: VisualSettings): string[] => {
+  const fonts = new Set<string>();
+  const add = (weight: number, family: string) => [weight, 500, 700].forEach(w => fonts.add(cssFont(w, 16, family)));
+  add(settings.fontWeight, settings.fontFamily);
+  lyrics.forEach(line => lineLooks(line, settings).forEach(look => add(look.fontWeight, look.fontFamily)));
+  return Array.from(fonts);
+};
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { LyricLine, LyricTrack, TrackPosition, TrackAlign, LyricAnchor, VisualSettings } from '../types';
+
+export const DEFAULT_TRACK: LyricTrack = {
+  id: 'main',
+  name: '主唱',
+  color: '#ffffff',
+  scale: 1,
+};
+
+export const TRACK_POSITIONS: { position: TrackPosition; label: string }[] = [
+  { position: 'top', label: '上方' },
+  { position: 'center', label: '中央' },
+  { position: 'bottom', label: '下方' },
+];
+
+export const LYRIC_ANCHORS: { anchor: LyricAnchor; label: string }[] = [
+  ...TRACK_POSITIONS.map(({ position, label }) => ({ anchor: position, label })),
+  { anchor: 'custom', label: '自訂' },
+];
+
+export const TRACK_ALIGNS: { align: TrackAlign; label: string }[] = [
+  { align: 'left', label: '靠左' },
+  { align: 'center', label: '置中' },
+  { align: 'right', label: '靠右' },
+];
+
+export interface TrackPreset {
+  label: string;
+  track: Omit<LyricTrack, 'id'>;
+  aboveMain?: boolean; // added before the main track, so it stacks above it
+}
+
+// Starting points for new tracks
+export const TRACK_PRESETS: TrackPreset[] = [
+  { label: '對唱', track: { name: '對唱', color: '#fbbf24', scale: 1 } },
+  { label: '和聲', track: { name: '和聲', position: 'bottom', color: '#cbd5e1', scale: 0.6 } },
+  { label: '拼音 / 羅馬拼音', track: { name: '拼音', color: '#e7e5e4', scale: 0.45 }, aboveMain: true },
+];
+
+export const createTrack = (preset: Omit<LyricTrack, 'id'>): LyricTrack => ({
+  ...preset,
+  id: `track-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+});
+
+// Tracks sharing a position stack in list order
+export const addPresetTrack = (tracks: LyricTrack[], preset: TrackPreset): LyricTrack[] => {
+  const track = createTrack(preset.track);
+  const main = tracks.indexOf(mainTrack(tracks));
+  if (!preset.aboveMain || main < 0) return [...tracks, track];
+  return [...tracks.slice(0, main), track, ...tracks.slice(main)];
+};
+
+// Before the global anchor and alignment existed every track stored
+// position 'center' and align 'center' explicitly, which would now override
+// the global controls. Settings saved back then (no lyricAnchor yet) drop
+// those defaults so their tracks follow the global values.
+export const migrateTrackPlacement = (settings: Partial<VisualSettings>): Partial<VisualSettings> => {
+  if (settings.lyricAnchor !== undefined || !settings.tracks) return settings;
+  return {
+    ...settings,
+    tracks: settings.tracks.map(({ position, align, ...track }) => ({
+      ...track,
+      ...(position && position !== 'center' ? { position } : {}),
+      ...(align && align !== 'center' ? { align } : {}),
+    })),
+  };
+};
+
+// The track with the default id, or the first one once that has been removed
+export const mainTrack = (tracks: LyricTrack[]): LyricTrack =>
+  tracks.find(t => t.id === DEFAULT_TRACK.id) || tracks[0] || DEFAULT_TRACK;
+
+// Lines without a track, or pointing at a missing one, belong to the main track
+export const resolveTrack = (tracks: LyricTrack[], trackId?: string): LyricTrack =>
+  tracks.find(t => t.id === trackId) || mainTrack(tracks);
+
+export const trackIndex = (tracks: LyricTrack[], line: LyricLine): number =>
+  Math.max(0, tracks.indexOf(resolveTrack(tracks, line.trackId)));
+
+// Placement resolves line override → track → global setting
+export const resolveAnchor = (line: LyricLine, track: LyricTrack, settings: VisualSettings): LyricAnchor =>
+  line.placement?.anchor ?? track.position ?? settings.lyricAnchor;
+
+export const resolveAlign = (line: LyricLine, track: LyricTrack, settings: VisualSettings): TrackAlign =>
+  line.placement?.align ?? track.align ?? settings.lyricAlign;
+
+// Total offset of a line as shares of the canvas size
+export const resolveOffset = (line: LyricLine, settings: VisualSettings) => ({
+  x: settings.lyricOffsetX + (line.placement?.offsetX ?? 0),
+  y: settings.lyricOffsetY + (line.placement?.offsetY ?? 0),
+});
+
+export interface TrackBlock {
+  position: TrackPosition;
+  height: number;
+}
+
+// Lays out blocks (given in track order) without overlaps: blocks sharing a
+// band stack in order, the top band hangs from the top safe margin, the bottom
+// band sits on the bottom one, the centre band is centred. Bands that would
+// overlap are pushed apart, downwards first, then back up if the bottom band
+// leaves the safe area. `margin` is the safe margin as a share of the height.
+// Returns the top y of every block.
+export const layoutTrackBlocks = (blocks: TrackBlock[], canvasHeight: number, gap: number, margin: number): number[] => {
+  const stacks = TRACK_POSITIONS
+    .map(({ position }) => {
+      const indices = blocks.map((_, i) => i).filter(i => blocks[i].position === position);
+      const height = indices.reduce((sum, i) => sum + blocks[i].height, 0) + gap * Math.max(0, indices.length - 1);
+      const top = position === 'top' ? canvasHeight * margin
+        : position === 'bottom' ? canvasHeight * (1 - margin) - height
+        : (canvasHeight - height) / 2;
+      return { indices, height, top };
+    })
+    .filter(stack => stack.indices.length > 0);
+
+  for (let i = 1; i < stacks.length; i++) {
+    stacks[i].top = Math.max(stacks[i].top, stacks[i - 1].top + stacks[i - 1].height + gap);
+  }
+  let limit = canvasHeight * (1 - margin);
+  for (let i = stacks.length - 1; i >= 0; i--) {
+    stacks[i].top = Math.min(stacks[i].top, limit - stacks[i].height);
+    limit = stacks[i].top - gap;
+  }
+
+  const tops = new Array<number>(blocks.length).fill(0);
+  stacks.forEach(stack => {
+    let y = stack.top;
+    stack.indices.forEach(i => {
+      tops[i] = y;
+      y += blocks[i].height + gap;
+    });
+  });
+  return tops;
+};
\ No newline at end of file
@@ -0,0 +1,305 @@
+import { MediaMuxer, MuxerAudioConfig, MuxerVideoConfig, MuxedSample, chunkToSample, descriptionToBytes } from './muxer';
+
+// Minimal ISO-BMFF (MP4) writer for one H.264 track and an optional AAC track.
+// The moov box is written before mdat ("fast start") so players and upload
+// services can begin reading without fetching the whole file.
+
+const MOVIE_TIMESCALE = 1000;
+const VIDEO_TIMESCALE = 90000;
+const VIDEO_TRACK_ID = 1;
+const AUDIO_TRACK_ID = 2;
+
+const UNITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+class ByteWriter {
+  private parts: number[] = [];
+
+  u8(v: number) { this.parts.push(v & 0xff); return this; }
+  u16(v: number) { return this.u8(v >> 8).u8(v); }
+  u24(v: number) { return this.u8(v >> 16).u8(v >> 8).u8(v); }
+  u32(v: number) { return this.u16(Math.floor(v / 0x10000)).u16(v & 0xffff); }
+  u64(v: number) { return this.u32(Math.floor(v / 0x100000000)).u32(v % 0x100000000); }
+  ascii(s: string) { for (let i = 0; i < s.length; i++) this.u8(s.charCodeAt(i)); return this; }
+  bytes(b: Uint8Array | number[]) { b.forEach(v => this.parts.push(v)); return this; }
+  zeros(n: number) { for (let i = 0; i < n; i++) this.parts.push(0); return this; }
+  toBytes() { return new Uint8Array(this.parts); }
+}
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+const box = (type: string, ...children: Uint8Array[]): Uint8Array => {
+  const payload = concatBytes(children);
+  const header = new ByteWriter().u32(payload.length + 8).ascii(type).toBytes();
+  return concatBytes([header, payload]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...children: Uint8Array[]): Uint8Array =>
+  box(type, new ByteWriter().u8(version).u24(flags).toBytes(), ...children);
+
+const write = (fn: (w: ByteWriter) => void): Uint8Array => {
+  const w = new ByteWriter();
+  fn(w);
+  return w.toBytes();
+};
+
+// MPEG-4 descriptor with the variable-length size used inside esds
+const descriptor = (tag: number, payload: Uint8Array): Uint8Array => {
+  const sizeBytes: number[] = [];
+  let size = payload.length;
+  do {
+    sizeBytes.unshift(size & 0x7f);
+    size >>= 7;
+  } while (size > 0);
+  for (let i = 0; i < sizeBytes.length - 1; i++) sizeBytes[i] |= 0x80;
+  return concatBytes([new Uint8Array([tag, ...sizeBytes]), payload]);
+};
+
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// AudioSpecificConfig for AAC-LC, used when the encoder does not supply one
+const buildAudioSpecificConfig = (sampleRate: number, channels: number): Uint8Array => {
+  const freqIndex = Math.max(0, AAC_SAMPLE_RATES.indexOf(sampleRate));
+  const objectType = 2; // AAC LC
+  return new Uint8Array([
+    (objectType << 3) | (freqIndex >> 1),
+    ((freqIndex & 1) << 7) | (channels << 3),
+  ]);
+};
+
+interface TrackTable {
+  id: number;
+  timescale: number;
+  samples: MuxedSample[];
+  durations: number[]; // per sample, in track timescale
+  offsets: number[]; // per sample, relative to the start of mdat payload
+  totalDuration: number; // in track timescale
+}
+
+// Convert microsecond timestamps to whole timescale ticks without drift
+const buildDurations = (samples: MuxedSample[], timescale: number): number[] => {
+  const ticks = samples.map(s => Math.round((s.timestamp * timescale) / 1e6));
+  return samples.map((s, i) => {
+    if (i < samples.length - 1) return Math.max(0, ticks[i + 1] - ticks[i]);
+    return Math.max(1, Math.round((s.duration * timescale) / 1e6));
+  });
+};
+
+export class MP4Muxer implements MediaMuxer {
+  readonly mimeType = 'video/mp4';
+  readonly extension = 'mp4';
+
+  private videoSamples: MuxedSample[] = [];
+  private audioSamples: MuxedSample[] = [];
+  private avcConfig?: Uint8Array;
+  private audioConfigBytes?: Uint8Array;
+
+  constructor(private video: MuxerVideoConfig, private audio?: MuxerAudioConfig) {}
+
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) {
+    if (!this.avcConfig) this.avcConfig = descriptionToBytes(meta?.decoderConfig?.description);
+    this.videoSamples.push(chunkToSample(chunk));
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) {
+    if (!this.audioConfigBytes) this.audioConfigBytes = descriptionToBytes(meta?.decoderConfig?.description);
+    this.audioSamples.push(chunkToSample(chunk));
+  }
+
+  finalize(): Blob {
+    if (!this.avcConfig) throw new Error('MP4Muxer: missing avcC decoder configuration (encode with avc.format = "avc")');
+
+    const tracks: TrackTable[] = [this.table(VIDEO_TRACK_ID, VIDEO_TIMESCALE, this.videoSamples)];
+    if (this.audio && this.audioSamples.length > 0) {
+      tracks.push(this.table(AUDIO_TRACK_ID, this.audio.sampleRate, this.audioSamples));
+    }
+
+    // Lay samples out in mdat interleaved by time
+    const ordered = tracks
+      .flatMap(track => track.samples.map((sample, index) => ({ track, sample, index })))
+      .sort((a, b) => a.sample.timestamp - b.sample.timestamp || a.track.id - b.track.id);
+    let cursor = 0;
+    ordered.forEach(({ track, sample, index }) => {
+      track.offsets[index] = cursor;
+      cursor += sample.data.length;
+    });
+    const mdatPayloadSize = cursor;
+    const useLargeMdat = mdatPayloadSize + 8 > 0xffffffff;
+    const useCo64 = mdatPayloadSize > 0xffffffff - 1_000_000;
+    const mdatHeaderSize = useLargeMdat ? 16 : 8;
+
+    const ftyp = box('ftyp', write(w => w.ascii('isom').u32(0x200).ascii('isom').ascii('iso2').ascii('avc1').ascii('mp41')));
+
+    // Box sizes do not depend on offset values, so measure moov once, then
+    // rebuild it with absolute chunk offsets pointing past itself.
+    const provisional = this.moov(tracks, 0, useCo64);
+    const mdatStart = ftyp.length + provisional.length + mdatHeaderSize;
+    const moov = this.moov(tracks, mdatStart, useCo64);
+
+    const mdatHeader = useLargeMdat
+      ? write(w => w.u32(1).ascii('mdat').u64(mdatPayloadSize + 16))
+      : write(w => w.u32(mdatPayloadSize + 8).ascii('mdat'));
+
+    return new Blob([ftyp, moov, mdatHeader, ...ordered.map(o => o.sample.data)], { type: this.mimeType });
+  }
+
+  private table(id: number, timescale: number, samples: MuxedSample[]): TrackTable {
+    const durations = buildDurations(samples, timescale);
+    return {
+      id,
+      timescale,
+      samples,
+      durations,
+      offsets: new Array(samples.length).fill(0),
+      totalDuration: durations.reduce((a, b) => a + b, 0),
+    };
+  }
+
+  private moov(tracks: TrackTable[], mdatStart: number, useCo64: boolean): Uint8Array {
+    const movieDuration = Math.max(...tracks.map(t => Math.round((t.totalDuration * MOVIE_TIMESCALE) / t.timescale)));
+    const mvhd = fullBox('mvhd', 0, 0, write(w => {
+      w.u32(0).u32(0); // creation / modification time
+      w.u32(MOVIE_TIMESCALE).u32(movieDuration);
+      w.u32(0x00010000); // rate 1.0
+      w.u16(0x0100); // volume 1.0
+      w.zeros(10);
+      UNITY_MATRIX.forEach(v => w.u32(v));
+      w.zeros(24); // pre_defined
+      w.u32(tracks.length + 1); // next_track_ID
+    }));
+    return box('moov', mvhd, ...tracks.map(t => this.trak(t, movieDuration, mdatStart, useCo64)));
+  }
+
+  private trak(track: TrackTable, movieDuration: number, mdatStart: number, useCo64: boolean): Uint8Array {
+    const isVideo = track.id === VIDEO_TRACK_ID;
+    const trackDuration = Math.round((track.totalDuration * MOVIE_TIMESCALE) / track.timescale);
+
+    const tkhd = fullBox('tkhd', 0, 0x3, write(w => {
+      w.u32(0).u32(0);
+      w.u32(track.id);
+      w.u32(0);
+      w.u32(Math.min(trackDuration, movieDuration));
+      w.zeros(8);
+      w.u16(0); // layer
+      w.u16(isVideo ? 0 : 1); // alternate group
+      w.u16(isVideo ? 0 : 0x0100); // volume
+      w.u16(0);
+      UNITY_MATRIX.forEach(v => w.u32(v));
+      w.u32(isVideo ? this.video.width * 0x10000 : 0);
+      w.u32(isVideo ? this.video.height * 0x10000 : 0);
+    }));
+
+    const mdhd = fullBox('mdhd', 0, 0, write(w => {
+      w.u32(0).u32(0);
+      w.u32(track.timescale).u32(track.totalDuration);
+      w.u16(0x55c4); // language "und"
+      w.u16(0);
+    }));
+    const hdlr = fullBox('hdlr', 0, 0, write(w => {
+      w.u32(0);
+      w.ascii(isVideo ? 'vide' : 'soun');
+      w.zeros(12);
+      w.ascii(isVideo ? 'VideoHandler' : 'SoundHandler').u8(0);
+    }));
+
+    const mediaHeader = isVideo
+      ? fullBox('vmhd', 0, 1, write(w => w.zeros(8)))
+      : fullBox('smhd', 0, 0, write(w => w.zeros(4)));
+    const dinf = box('dinf', fullBox('dref', 0, 0, write(w => w.u32(1)), fullBox('url ', 0, 1)));
+
+    const minf = box('minf', mediaHeader, dinf, this.stbl(track, isVideo, mdatStart, useCo64));
+    return box('trak', tkhd, box('mdia', mdhd, hdlr, minf));
+  }
+
+  private stbl(track: TrackTable, isVideo: boolean, mdatStart: number, useCo64: boolean): Uint8Array {
+    const stsd = fullBox('stsd', 0, 0, write(w => w.u32(1)), isVideo ? this.avc1() : this.mp4a());
+
+    // Run-length encoded sample durations
+    const runs: [number, number][] = [];
+    track.durations.forEach(d => {
+      const last = runs[runs.length - 1];
+      if (last && last[1] === d) last[0]++;
+      else runs.push([1, d]);
+    });
+    const stts = fullBox('stts', 0, 0, write(w => {
+      w.u32(runs.length);
+      runs.forEach(([count, delta]) => w.u32(count).u32(delta));
+    }));
+
+    // One sample per chunk keeps stsc trivial and lets samples interleave freely
+    const stsc = fullBox('stsc', 0, 0, write(w => w.u32(1).u32(1).u32(1).u32(1)));
+    const stsz = fullBox('stsz', 0, 0, write(w => {
+      w.u32(0).u32(track.samples.length);
+      track.samples.forEach(s => w.u32(s.data.length));
+    }));
+    const chunkOffsets = useCo64
+      ? fullBox('co64', 0, 0, write(w => {
+          w.u32(track.offsets.length);
+          track.offsets.forEach(o => w.u64(mdatStart + o));
+        }))
+      : fullBox('stco', 0, 0, write(w => {
+          w.u32(track.offsets.length);
+          track.offsets.forEach(o => w.u32(mdatStart + o));
+        }));
+
+    const children = [stsd, stts];
+    if (isVideo) {
+      const sync = track.samples.map((s, i) => (s.isKey ? i + 1 : 0)).filter(i => i > 0);
+      children.push(fullBox('stss', 0, 0, write(w => {
+        w.u32(sync.length);
+        sync.forEach(i => w.u32(i));
+      })));
+    }
+    children.push(stsc, stsz, chunkOffsets);
+    return box('stbl', ...children);
+  }
+
+  private avc1(): Uint8Array {
+    return box('avc1', write(w => {
+      w.zeros(6).u16(1); // reserved, data_reference_index
+      w.zeros(16); // pre_defined / reserved
+      w.u16(this.video.width).u16(this.video.height);
+      w.u32(0x00480000).u32(0x00480000); // 72 dpi
+      w.u32(0);
+      w.u16(1); // frame_count
+      w.zeros(32); // compressorname
+      w.u16(0x0018); // depth
+      w.u16(0xffff); // pre_defined = -1
+    }), box('avcC', this.avcConfig!));
+  }
+
+  private mp4a(): Uint8Array {
+    const audio = this.audio!;
+    const asc = this.audioConfigBytes || buildAudioSpecificConfig(audio.sampleRate, audio.numberOfChannels);
+
+    const decoderConfig = descriptor(0x04, concatBytes([
+      write(w => {
+        w.u8(0x40); // objectTypeIndication: MPEG-4 Audio
+        w.u8(0x15); // streamType audio (0x05 << 2) | reserved bit
+        w.u24(0); // bufferSizeDB
+        w.u32(0).u32(0); // max / avg bitrate
+      }),
+      descriptor(0x05, asc),
+    ]));
+    const esDescriptor = descriptor(0x03, concatBytes([
+      write(w => w.u16(AUDIO_TRACK_ID).u8(0)),
+      decoderConfig,
+      descriptor(0x06, new Uint8Array([0x02])),
+    ]));
+
+    return box('mp4a', write(w => {
+      w.zeros(6).u16(1);
+      w.zeros(8);
+      w.u16(audio.numberOfChannels).u16(16); // channelcount, samplesize
+      w.u16(0).u16(0);
+      w.u32(audio.sampleRate * 0x10000);
+    }), fullBox('esds', 0, 0, esDescriptor));
+  }
+}
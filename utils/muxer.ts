@@ -0,0 +1,48 @@
+// Shared contract for the container writers fed by WebCodecs encoders
+
+export interface MuxerVideoConfig {
+  codec: string; // WebCodecs codec string, e.g. "vp09.00.10.08"
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export interface MuxerAudioConfig {
+  codec: string; // WebCodecs codec string, e.g. "opus"
+  sampleRate: number;
+  numberOfChannels: number;
+}
+
+export interface MediaMuxer {
+  readonly mimeType: string;
+  readonly extension: string;
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata): void;
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata): void;
+  finalize(): Blob;
+}
+
+export interface MuxedSample {
+  data: Uint8Array;
+  timestamp: number; // microseconds
+  duration: number; // microseconds
+  isKey: boolean;
+}
+
+export const chunkToSample = (chunk: EncodedVideoChunk | EncodedAudioChunk): MuxedSample => {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return {
+    data,
+    timestamp: chunk.timestamp,
+    duration: chunk.duration ?? 0,
+    isKey: chunk.type === 'key',
+  };
+};
+
+export const descriptionToBytes = (description?: AllowSharedBufferSource): Uint8Array | undefined => {
+  if (!description) return undefined;
+  if (ArrayBuffer.isView(description)) {
+    return new Uint8Array(description.buffer.slice(description.byteOffset, description.byteOffset + description.byteLength));
+  }
+  return new Uint8Array(description.slice(0));
+};
@@ -0,0 +1,18 @@
+// Mix an AudioBuffer down to mono, decimating by an integer factor so the
+// result is close to `targetRate`. Averaging each block doubles as a crude
+// low-pass, which is enough for analysis (never for playback).
+export const downmixToMono = (buffer: AudioBuffer, targetRate: number): { samples: Float32Array; sampleRate: number } => {
+  const factor = Math.max(1, Math.round(buffer.sampleRate / targetRate));
+  const length = Math.floor(buffer.length / factor);
+  const samples = new Float32Array(length);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const scale = 1 / (factor * channels.length);
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (const data of channels) {
+      for (let k = 0; k < factor; k++) sum += data[i * factor + k];
+    }
+    samples[i] = sum * scale;
+  }
+  return { samples, sampleRate: buffer.sampleRate / factor };
+};
\ No newline at end of file
@@ -0,0 +1,67 @@
+// Retry an async operation with exponential backoff. Each attempt gets its own
+// AbortSignal that fires on the per-attempt timeout or when the caller aborts.
+
+export interface RetryOptions {
+  retries: number; // extra attempts after the first
+  baseDelayMs: number; // doubled after every failed attempt, plus jitter
+  timeoutMs: number; // per attempt
+  signal?: AbortSignal;
+  shouldRetry: (error: unknown) => boolean;
+}
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const attemptWithTimeout = async <T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  parent?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  parent?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    // Race the abort too, in case the operation ignores its signal
+    return await Promise.race([
+      attempt(controller.signal),
+      new Promise<never>((_, reject) => controller.signal.addEventListener('abort', () => reject(abortError()), { once: true })),
+    ]);
+  } catch (error) {
+    if (timedOut) throw new DOMException(`Timed out after ${timeoutMs}ms`, 'TimeoutError');
+    if (parent?.aborted) throw abortError();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', onAbort);
+  }
+};
+
+export const withRetry = async <T>(attempt: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { retries, baseDelayMs, timeoutMs, signal, shouldRetry } = options;
+  for (let i = 0; ; i++) {
+    try {
+      return await attemptWithTimeout(attempt, timeoutMs, signal);
+    } catch (error) {
+      if (signal?.aborted || i >= retries || !shouldRetry(error)) throw error;
+      await sleep(baseDelayMs * 2 ** i * (0.75 + Math.random() * 0.5), signal);
+    }
+  }
+};
\ No newline at end of file
@@ -0,0 +1,141 @@
+import { LyricLine, RubySystem } from '../types';
+import { PINYIN_DICTIONARY, KANA_DICTIONARY } from './rubyDictionary';
+
+// Ruby annotations: one reading per code point of `LyricLine.text` ('' for
+// none). Hand-authored readings live on the line; otherwise they are looked up
+// in the bundled dictionary for the selected system.
+
+export const RUBY_SYSTEMS: { system: RubySystem; label: string }[] = [
+  { system: 'pinyin', label: '拼音' },
+  { system: 'zhuyin', label: '注音' },
+  { system: 'kana', label: '假名 (日文)' },
+];
+
+const HAN = /\p{Script=Han}/u;
+
+export const isRubyBase = (char: string) => HAN.test(char);
+
+const buildIndex = (dictionary: Record<string, string>) => {
+  const index = new Map<string, string>();
+  Object.entries(dictionary).forEach(([reading, chars]) => {
+    Array.from(chars).forEach(char => index.set(char, reading));
+  });
+  return index;
+};
+
+let pinyinIndex: Map<string, string> | null = null;
+let kanaIndex: Map<string, string> | null = null;
+
+const TONE_MARKS: Record<string, string[]> = {
+  a: ['ā', 'á', 'ǎ', 'à'],
+  e: ['ē', 'é', 'ě', 'è'],
+  i: ['ī', 'í', 'ǐ', 'ì'],
+  o: ['ō', 'ó', 'ǒ', 'ò'],
+  u: ['ū', 'ú', 'ǔ', 'ù'],
+  ü: ['ǖ', 'ǘ', 'ǚ', 'ǜ'],
+};
+
+// 'lv4' -> 'lǜ': the mark goes on a or e, on the o of "ou", otherwise on the last vowel
+export const toneMarkedPinyin = (numbered: string): string => {
+  const tone = Number(numbered.slice(-1));
+  const syllable = numbered.slice(0, -1).replace(/v/g, 'ü');
+  if (tone < 1 || tone > 4) return syllable;
+  const vowelIndex = /[ae]/.test(syllable) ? syllable.search(/[ae]/)
+    : syllable.includes('ou') ? syllable.indexOf('o')
+    : Math.max(...['i', 'o', 'u', 'ü'].map(v => syllable.lastIndexOf(v)));
+  if (vowelIndex < 0) return syllable;
+  const vowel = syllable[vowelIndex];
+  return syllable.slice(0, vowelIndex) + TONE_MARKS[vowel][tone - 1] + syllable.slice(vowelIndex + 1);
+};
+
+const ZHUYIN_INITIALS: [string, string][] = [
+  ['zh', 'ㄓ'], ['ch', 'ㄔ'], ['sh', 'ㄕ'], ['b', 'ㄅ'], ['p', 'ㄆ'], ['m', 'ㄇ'], ['f', 'ㄈ'], ['d', 'ㄉ'], ['t', 'ㄊ'],
+  ['n', 'ㄋ'], ['l', 'ㄌ'], ['g', 'ㄍ'], ['k', 'ㄎ'], ['h', 'ㄏ'], ['j', 'ㄐ'], ['q', 'ㄑ'], ['x', 'ㄒ'], ['r', 'ㄖ'],
+  ['z', 'ㄗ'], ['c', 'ㄘ'], ['s', 'ㄙ'],
+];
+
+const ZHUYIN_FINALS: Record<string, string> = {
+  a: 'ㄚ', o: 'ㄛ', e: 'ㄜ', ai: 'ㄞ', ei: 'ㄟ', ao: 'ㄠ', ou: 'ㄡ', an: 'ㄢ', en: 'ㄣ', ang: 'ㄤ', eng: 'ㄥ', ong: 'ㄨㄥ', er: 'ㄦ',
+  i: 'ㄧ', ia: 'ㄧㄚ', ie: 'ㄧㄝ', iao: 'ㄧㄠ', iu: 'ㄧㄡ', ian: 'ㄧㄢ', in: 'ㄧㄣ', iang: 'ㄧㄤ', ing: 'ㄧㄥ', iong: 'ㄩㄥ',
+  u: 'ㄨ', ua: 'ㄨㄚ', uo: 'ㄨㄛ', uai: 'ㄨㄞ', ui: 'ㄨㄟ', uan: 'ㄨㄢ', un: 'ㄨㄣ', uang: 'ㄨㄤ', ueng: 'ㄨㄥ',
+  v: 'ㄩ', ve: 'ㄩㄝ', van: 'ㄩㄢ', vn: 'ㄩㄣ',
+};
+
+// Spellings of y-/w- syllables without an initial consonant
+const ZHUYIN_ZERO_INITIAL: Record<string, string> = {
+  yi: 'i', ya: 'ia', ye: 'ie', yao: 'iao', you: 'iu', yan: 'ian', yin: 'in', yang: 'iang', ying: 'ing', yong: 'iong',
+  yu: 'v', yue: 've', yuan: 'van', yun: 'vn',
+  wu: 'u', wa: 'ua', wo: 'uo', wai: 'uai', wei: 'ui', wan: 'uan', wen: 'un', wang: 'uang', weng: 'ueng',
+};
+
+const ZHUYIN_TONES = ['', 'ˊ', 'ˇ', 'ˋ'];
+
+// 'xue2' -> 'ㄒㄩㄝˊ', 'le5' -> '˙ㄌㄜ'
+export const pinyinToZhuyin = (numbered: string): string => {
+  const tone = Number(numbered.slice(-1));
+  let syllable = numbered.slice(0, -1);
+  let initial = '';
+  if (ZHUYIN_ZERO_INITIAL[syllable]) {
+    syllable = ZHUYIN_ZERO_INITIAL[syllable];
+  } else {
+    const match = ZHUYIN_INITIALS.find(([latin]) => syllable.startsWith(latin));
+    if (match) {
+      initial = match[1];
+      syllable = syllable.slice(match[0].length);
+      // ju/qu/xu are written with u but pronounced ü
+      if (/^[jqx]/.test(match[0]) && syllable.startsWith('u')) syllable = 'v' + syllable.slice(1);
+    }
+  }
+  // zhi, chi, shi, ri, zi, ci, si: the initial alone
+  const isBareInitial = syllable === 'i' && /^[ㄓㄔㄕㄖㄗㄘㄙ]$/.test(initial);
+  const final = isBareInitial ? '' : ZHUYIN_FINALS[syllable] ?? syllable;
+  const body = initial + final;
+  if (tone === 5) return '˙' + body;
+  return body + (ZHUYIN_TONES[tone - 1] || '');
+};
+
+const lookup = (char: string, system: RubySystem): string => {
+  if (system === 'kana') {
+    kanaIndex = kanaIndex || buildIndex(KANA_DICTIONARY);
+    return kanaIndex.get(char) || '';
+  }
+  pinyinIndex = pinyinIndex || buildIndex(PINYIN_DICTIONARY);
+  const numbered = pinyinIndex.get(char);
+  if (!numbered) return '';
+  return system === 'zhuyin' ? pinyinToZhuyin(numbered) : toneMarkedPinyin(numbered);
+};
+
+export const generateRuby = (text: string, system: RubySystem): string[] =>
+  Array.from(text).map(char => (isRubyBase(char) ? lookup(char, system) : ''));
+
+const generatedCache = new Map<string, string[]>();
+const MAX_CACHED_LINES = 500;
+
+// Hand-authored readings win; dictionary results are cached per text and system
+export const getLineRuby = (line: LyricLine, system: RubySystem): string[] => {
+  if (line.ruby) return line.ruby;
+  const key = `${system}\u0000${line.text}`;
+  let ruby = generatedCache.get(key);
+  if (!ruby) {
+    if (generatedCache.size >= MAX_CACHED_LINES) generatedCache.clear();
+    ruby = generateRuby(line.text, system);
+    generatedCache.set(key, ruby);
+  }
+  return ruby;
+};
+
+// Editor format: one space-separated reading per Han character, '-' for none
+export const formatRubyInput = (text: string, ruby: string[]): string =>
+  Array.from(text).flatMap((char, i) => (isRubyBase(char) ? [ruby[i] || '-'] : [])).join(' ');
+
+// Back to per-code-point readings; a blank input returns undefined (dictionary readings)
+export const parseRubyInput = (text: string, input: string): string[] | undefined => {
+  const tokens = input.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return undefined;
+  let next = 0;
+  return Array.from(text).map(char => {
+    if (!isRubyBase(char)) return '';
+    const token = tokens[next++];
+    return token && token !== '-' ? token : '';
+  });
+};
\ No newline at end of file
@@ -0,0 +1,376 @@
+// Bundled offline readings for ruby annotations. Each entry lists the
+// characters (traditional and simplified) read with that syllable; a character
+// appears once, under its most common reading in lyrics. Anything missing or
+// read differently in context can be corrected by hand in the lyric editor.
+
+// Numbered-tone pinyin (5 = neutral tone, v = ü)
+export const PINYIN_DICTIONARY: Record<string, string> = {
+  a5: '啊阿',
+  ai1: '哀埃挨唉', ai2: '癌', ai3: '矮', ai4: '愛爱礙碍艾',
+  an1: '安鞍', an4: '按案暗岸',
+  ang2: '昂',
+  ao2: '熬', ao4: '奧奥傲',
+  ba1: '八巴疤', ba2: '拔', ba3: '把靶', ba4: '爸霸罷罢', ba5: '吧',
+  bai2: '白', bai3: '百擺摆柏', bai4: '敗败拜',
+  ban1: '班般搬斑', ban3: '板版', ban4: '半辦办伴扮絆绊',
+  bang1: '幫帮邦', bang3: '綁绑榜', bang4: '棒傍',
+  bao1: '包胞', bao3: '飽饱寶宝保堡', bao4: '抱報报暴爆豹',
+  bei1: '杯悲背碑卑', bei3: '北', bei4: '被備备輩辈貝贝倍',
+  ben1: '奔', ben3: '本', ben4: '笨',
+  beng1: '崩', beng4: '蹦',
+  bi1: '逼', bi2: '鼻', bi3: '比筆笔彼', bi4: '必閉闭壁避畢毕碧臂幣币',
+  bian1: '邊边編编鞭', bian3: '扁', bian4: '變变便遍辯辩',
+  biao1: '標标', biao3: '表錶',
+  bie2: '別别',
+  bin1: '賓宾濱滨',
+  bing1: '冰兵', bing3: '餅饼丙', bing4: '病並并',
+  bo1: '波玻播撥拨', bo2: '博伯薄脖',
+  bu3: '補补捕', bu4: '不布步部怖',
+  ca1: '擦',
+  cai1: '猜', cai2: '才材財财裁', cai3: '彩採采踩', cai4: '菜',
+  can1: '參参餐', can2: '殘残蠶蚕', can3: '慘惨', can4: '燦灿',
+  cang1: '倉仓蒼苍', cang2: '藏',
+  cao1: '操', cao3: '草',
+  ce4: '冊册側侧測测策',
+  ceng2: '曾層层',
+  cha1: '插差', cha2: '茶查',
+  chai2: '柴',
+  chan2: '纏缠蟬蝉', chan3: '產产',
+  chang2: '長长常嘗尝腸肠', chang3: '場场廠厂', chang4: '唱暢畅',
+  chao1: '超抄', chao2: '潮朝巢', chao3: '吵炒',
+  che1: '車车', che4: '徹彻',
+  chen2: '沉晨塵尘辰陳陈', chen4: '趁襯衬',
+  cheng1: '稱称', cheng2: '成城誠诚承乘程呈橙',
+  chi1: '吃癡痴', chi2: '遲迟池持', chi3: '齒齿尺恥耻', chi4: '赤翅',
+  chong1: '衝冲充沖', chong2: '蟲虫崇', chong3: '寵宠',
+  chou1: '抽', chou2: '愁仇', chou3: '醜丑',
+  chu1: '出初', chu2: '除廚厨', chu3: '楚礎础', chu4: '處处觸触',
+  chuan1: '穿川', chuan2: '傳传船',
+  chuang1: '窗創创', chuang2: '床', chuang3: '闖闯',
+  chui1: '吹', chui2: '垂',
+  chun1: '春', chun2: '純纯唇',
+  ci2: '詞词辭辞慈磁', ci3: '此', ci4: '次刺',
+  cong1: '聰聪', cong2: '從从叢丛',
+  cu1: '粗', cu4: '促',
+  cui4: '脆翠',
+  cun1: '村', cun2: '存', cun4: '寸',
+  cuo4: '錯错',
+  da1: '搭', da2: '答達达', da3: '打', da4: '大',
+  dai1: '呆', dai4: '代帶带待袋戴',
+  dan1: '單单擔担', dan3: '膽胆', dan4: '但淡蛋旦',
+  dang1: '當当', dang3: '黨党擋挡',
+  dao1: '刀', dao3: '倒島岛導导', dao4: '到道盜盗',
+  de2: '德', de5: '的得',
+  deng1: '燈灯登', deng3: '等',
+  di1: '低滴', di2: '敵敌笛', di3: '底抵', di4: '地第弟帝遞递',
+  dian3: '點点典', dian4: '電电店殿',
+  diao4: '掉調调釣钓',
+  die2: '疊叠蝶',
+  ding1: '丁', ding3: '頂顶', ding4: '定訂订',
+  diu1: '丟丢',
+  dong1: '東东冬', dong3: '懂董', dong4: '動动洞凍冻',
+  dou1: '都', dou3: '抖', dou4: '豆鬥斗逗',
+  du2: '讀读獨独毒', du4: '度渡肚',
+  duan1: '端', duan3: '短', duan4: '斷断段',
+  dui1: '堆', dui4: '對对隊队',
+  dun4: '頓顿',
+  duo1: '多', duo2: '奪夺', duo3: '朵躲',
+  e2: '額额鵝鹅', e4: '餓饿惡恶',
+  en1: '恩',
+  er2: '兒儿而', er3: '耳爾尔', er4: '二',
+  fa1: '發发', fa2: '罰罚', fa3: '法', fa4: '髮',
+  fan1: '翻番', fan2: '凡煩烦繁', fan3: '反返', fan4: '飯饭犯範范泛',
+  fang1: '方芳', fang2: '房防', fang3: '訪访彷仿', fang4: '放',
+  fei1: '飛飞非', fei2: '肥', fei4: '費费廢废',
+  fen1: '分紛纷', fen2: '墳坟', fen3: '粉', fen4: '份憤愤奮奋',
+  feng1: '風风封瘋疯峰', feng2: '逢', feng4: '鳳凤奉',
+  fou3: '否',
+  fu1: '夫膚肤', fu2: '福服浮扶伏幅彿', fu3: '府腐', fu4: '父付負负婦妇富復复副附',
+  gai1: '該该', gai3: '改', gai4: '蓋盖概',
+  gan1: '乾干甘肝', gan3: '感敢趕赶', gan4: '幹',
+  gang1: '剛刚鋼钢',
+  gao1: '高', gao3: '搞稿', gao4: '告',
+  ge1: '哥歌割', ge2: '格隔', ge4: '個个各',
+  gei3: '給给',
+  gen1: '跟根',
+  geng1: '耕', geng4: '更',
+  gong1: '工公功攻宮宫', gong4: '共供',
+  gou3: '狗', gou4: '夠够構构',
+  gu1: '孤姑', gu3: '古骨鼓股', gu4: '故顧顾固',
+  gua1: '瓜', gua4: '掛挂',
+  guai1: '乖', guai4: '怪',
+  guan1: '關关觀观官', guan3: '管館馆', guan4: '慣惯',
+  guang1: '光', guang3: '廣广',
+  gui1: '歸归規规', gui3: '鬼', gui4: '貴贵跪',
+  gun3: '滾滚',
+  guo2: '國国', guo3: '果', guo4: '過过',
+  ha1: '哈',
+  hai2: '還还孩', hai3: '海', hai4: '害',
+  han2: '寒含', han3: '喊', han4: '漢汉汗',
+  hao3: '好', hao4: '號号',
+  he1: '喝', he2: '和河何合荷', he4: '賀贺',
+  hei1: '黑嘿',
+  hen2: '痕', hen3: '很狠', hen4: '恨',
+  heng2: '橫横恆恒',
+  hong2: '紅红洪虹',
+  hou2: '喉', hou4: '後后候厚',
+  hu1: '呼忽', hu2: '湖胡壺壶糊蝴', hu3: '虎', hu4: '護护戶户互',
+  hua1: '花', hua2: '華华滑', hua4: '話话畫画化',
+  huai2: '懷怀', huai4: '壞坏',
+  huan1: '歡欢', huan3: '緩缓', huan4: '換换喚唤幻',
+  huang1: '荒慌', huang2: '黃黄皇', huang3: '謊谎晃',
+  hui1: '灰揮挥輝辉', hui2: '回', hui3: '悔毀毁', hui4: '會会匯汇惠慧繪绘',
+  hun1: '昏婚', hun2: '魂', hun4: '混',
+  huo2: '活', huo3: '火夥伙', huo4: '或貨货獲获禍祸',
+  ji1: '機机雞鸡積积基激肌', ji2: '急極极即級级集及吉疾', ji3: '己擠挤幾几', ji4: '記记計计際际季寄技繼继跡迹紀纪寂',
+  jia1: '家加佳', jia3: '假甲', jia4: '價价架嫁',
+  jian1: '間间肩堅坚尖', jian3: '簡简減减剪撿捡', jian4: '見见件建健漸渐劍剑',
+  jiang1: '江將将', jiang3: '講讲獎奖', jiang4: '降',
+  jiao1: '交教焦澆浇', jiao3: '腳脚角', jiao4: '叫較较',
+  jie1: '街接階阶皆', jie2: '節节結结', jie3: '姐解', jie4: '界借介',
+  jin1: '今金斤', jin3: '緊紧僅仅儘', jin4: '進进近盡尽',
+  jing1: '經经驚惊睛晶京精', jing3: '景井警', jing4: '淨净靜静境鏡镜敬竟',
+  jiu1: '究', jiu3: '九久酒', jiu4: '就舊旧救',
+  ju1: '居', ju2: '局', ju3: '舉举', ju4: '句聚具劇剧據据距',
+  juan3: '卷捲',
+  jue2: '覺觉決决絕绝',
+  jun1: '君軍军',
+  kai1: '開开',
+  kan4: '看',
+  kang4: '抗',
+  kao3: '考烤', kao4: '靠',
+  ke1: '顆颗科', ke2: '殼壳', ke3: '可渴', ke4: '刻客課课',
+  ken3: '肯',
+  kong1: '空', kong3: '恐',
+  kou3: '口',
+  ku1: '哭枯', ku3: '苦', ku4: '酷',
+  kuai4: '快塊块筷',
+  kuan1: '寬宽',
+  kuang2: '狂', kuang4: '況况',
+  kun4: '困睏',
+  kuo4: '闊阔',
+  la1: '拉', la4: '辣', la5: '啦',
+  lai2: '來来',
+  lan2: '藍蓝蘭兰', lan3: '懶懒', lan4: '爛烂',
+  lang2: '狼', lang3: '朗', lang4: '浪',
+  lao2: '勞劳', lao3: '老',
+  le4: '樂乐', le5: '了',
+  lei2: '雷', lei4: '淚泪類类累',
+  leng3: '冷',
+  li2: '離离黎', li3: '理裡里禮礼李', li4: '力立麗丽利歷历',
+  lian2: '連连憐怜蓮莲', lian3: '臉脸', lian4: '戀恋練练',
+  liang2: '涼凉良', liang3: '兩两', liang4: '亮量',
+  liao2: '聊',
+  lie4: '烈列裂',
+  lin2: '林臨临鄰邻',
+  ling2: '零靈灵鈴铃', ling3: '領领嶺岭', ling4: '另令',
+  liu2: '留流', liu4: '六',
+  long2: '龍龙',
+  lou2: '樓楼',
+  lu4: '路露陸陆',
+  lv3: '旅', lv4: '綠绿',
+  luan4: '亂乱',
+  lun2: '輪轮', lun4: '論论',
+  luo4: '落',
+  ma1: '媽妈', ma3: '馬马', ma5: '嗎吗',
+  mai3: '買买', mai4: '賣卖',
+  man3: '滿满', man4: '慢漫',
+  mang2: '忙茫盲',
+  mao2: '毛', mao4: '帽貌',
+  me5: '麼么',
+  mei2: '沒没眉梅', mei3: '美每', mei4: '妹',
+  men2: '門门', men5: '們们',
+  meng2: '蒙', meng4: '夢梦',
+  mi2: '迷', mi4: '密蜜秘',
+  mian2: '綿绵眠', mian4: '面麵',
+  miao3: '秒', miao4: '妙',
+  mie4: '滅灭',
+  min2: '民',
+  ming2: '明名', ming4: '命',
+  mo1: '摸', mo2: '模魔', mo4: '默末莫陌寞漠',
+  mu3: '母', mu4: '目木暮',
+  na2: '拿', na3: '哪', na4: '那',
+  nai3: '奶',
+  nan2: '難难男南',
+  nao3: '腦脑', nao4: '鬧闹',
+  ne5: '呢',
+  nei4: '內内',
+  neng2: '能',
+  ni3: '你妳', ni4: '逆',
+  nian2: '年', nian4: '念唸',
+  niang2: '娘',
+  niao3: '鳥鸟',
+  nin2: '您',
+  ning2: '凝寧宁',
+  niu2: '牛',
+  nong2: '濃浓',
+  nu3: '努', nu4: '怒',
+  nv3: '女',
+  nuan3: '暖',
+  nuo4: '諾诺',
+  o1: '喔', o2: '哦',
+  pa4: '怕',
+  pai2: '排',
+  pan4: '盼判',
+  pang2: '旁',
+  pao3: '跑',
+  pei2: '陪', pei4: '配',
+  peng2: '朋',
+  pi2: '皮疲',
+  pian1: '篇', pian4: '騙骗片',
+  piao1: '飄飘', piao4: '漂',
+  pin3: '品',
+  ping2: '平瓶憑凭蘋苹',
+  po4: '破',
+  pu3: '普',
+  qi1: '七期妻', qi2: '其奇騎骑旗齊齐', qi3: '起', qi4: '氣气汽',
+  qian1: '千牽牵', qian2: '前錢钱', qian3: '淺浅', qian4: '欠',
+  qiang2: '牆墙強强',
+  qiao1: '悄', qiao2: '橋桥', qiao3: '巧',
+  qie3: '且', qie4: '切',
+  qin1: '親亲', qin2: '琴',
+  qing1: '青清輕轻', qing2: '情晴', qing3: '請请', qing4: '慶庆',
+  qiong2: '窮穷',
+  qiu1: '秋', qiu2: '求球',
+  qu1: '區区', qu3: '取曲', qu4: '去趣',
+  quan2: '全泉',
+  que1: '缺', que4: '卻却確确',
+  qun2: '群',
+  ran2: '然燃', ran3: '染',
+  rang4: '讓让',
+  re4: '熱热',
+  ren2: '人仁', ren3: '忍', ren4: '認认任',
+  reng2: '仍',
+  ri4: '日',
+  rong2: '容溶融榮荣',
+  rou2: '柔',
+  ru2: '如', ru4: '入',
+  ruan3: '軟软',
+  ruo4: '若弱',
+  sa3: '灑洒',
+  san1: '三', san4: '散',
+  sang1: '桑',
+  se4: '色',
+  sen1: '森',
+  sha1: '沙殺杀',
+  shan1: '山', shan3: '閃闪', shan4: '善',
+  shang1: '傷伤', shang4: '上',
+  shao1: '燒烧', shao3: '少',
+  she2: '蛇', she3: '捨舍', she4: '設设',
+  shei2: '誰谁',
+  shen1: '身深', shen2: '神什', shen4: '甚慎',
+  sheng1: '生聲声升', sheng4: '勝胜剩',
+  shi1: '失師师詩诗', shi2: '十時时實实石', shi3: '使始', shi4: '是世事試试視视室市示誓',
+  shou1: '收', shou3: '手首守', shou4: '受瘦',
+  shu1: '書书輸输', shu2: '熟', shu4: '樹树數数',
+  shuang1: '雙双',
+  shui3: '水', shui4: '睡',
+  shun4: '順顺瞬',
+  shuo1: '說说', shuo4: '爍烁',
+  si1: '思絲丝', si3: '死', si4: '四似',
+  song1: '鬆松', song4: '送',
+  su4: '訴诉速',
+  suan1: '酸', suan4: '算',
+  sui1: '雖虽', sui2: '隨随', sui4: '歲岁碎',
+  sun3: '損损',
+  suo3: '所鎖锁',
+  ta1: '他她它牠',
+  tai2: '台抬', tai4: '太態态',
+  tan2: '談谈彈弹',
+  tang1: '湯汤', tang2: '糖', tang3: '躺',
+  tao2: '逃', tao3: '討讨',
+  te4: '特',
+  teng2: '疼',
+  ti2: '提題题', ti3: '體体', ti4: '替',
+  tian1: '天', tian2: '甜田',
+  tiao2: '條条', tiao4: '跳',
+  tie3: '鐵铁',
+  ting1: '聽听', ting2: '停',
+  tong1: '通', tong2: '同童', tong4: '痛',
+  tou1: '偷', tou2: '頭头', tou4: '透',
+  tu2: '圖图', tu3: '土',
+  tuan2: '團团',
+  tui1: '推', tui4: '退',
+  tuo1: '脫脱',
+  wa1: '挖',
+  wai4: '外',
+  wan2: '完玩', wan3: '晚碗', wan4: '萬万',
+  wang2: '王', wang3: '往網网', wang4: '忘望',
+  wei1: '微危', wei2: '圍围', wei3: '偉伟尾', wei4: '為为位未味衛卫',
+  wen1: '溫温', wen2: '文聞闻', wen3: '吻穩稳', wen4: '問问',
+  wo3: '我', wo4: '握',
+  wu1: '屋', wu2: '無无', wu3: '五午舞', wu4: '物誤误霧雾',
+  xi1: '西希息夕吸惜', xi2: '習习', xi3: '喜洗', xi4: '細细戲戏系',
+  xia2: '霞', xia4: '下夏',
+  xian1: '先鮮鲜', xian2: '閒闲鹹咸', xian3: '顯显', xian4: '現现線线限',
+  xiang1: '香鄉乡相', xiang3: '想響响', xiang4: '向像象',
+  xiao3: '小', xiao4: '笑校',
+  xie1: '些', xie2: '鞋', xie3: '寫写', xie4: '謝谢',
+  xin1: '心新辛', xin4: '信',
+  xing1: '星', xing2: '行形', xing3: '醒', xing4: '幸性',
+  xiong1: '兄胸',
+  xiu1: '休',
+  xu1: '需虛虚', xu3: '許许', xu4: '續续',
+  xuan3: '選选',
+  xue2: '學学', xue3: '雪', xue4: '血',
+  xun2: '尋寻',
+  ya1: '壓压', ya2: '牙', ya5: '呀',
+  yan1: '煙烟', yan2: '言顏颜', yan3: '眼演', yan4: '燕',
+  yang2: '陽阳洋羊', yang3: '養养', yang4: '樣样',
+  yao1: '腰', yao2: '搖摇遙遥', yao4: '要藥药',
+  ye1: '耶', ye2: '爺爷', ye3: '也野', ye4: '夜葉叶業业',
+  yi1: '一衣依醫医', yi2: '移疑宜', yi3: '已以', yi4: '意義义億亿憶忆藝艺易異异',
+  yin1: '因音陰阴', yin2: '銀银', yin3: '引隱隐', yin4: '印',
+  ying1: '應应英鷹鹰', ying2: '迎贏赢營营', ying3: '影', ying4: '硬',
+  yong3: '永勇擁拥', yong4: '用',
+  you1: '憂忧悠', you2: '由遊游油', you3: '有友', you4: '又右幼',
+  yu2: '魚鱼於于', yu3: '雨語语與与羽宇', yu4: '遇預预欲玉域育',
+  yuan2: '原圓圆緣缘元園园', yuan3: '遠远', yuan4: '願愿院',
+  yue1: '約约', yue4: '月越',
+  yun2: '雲云', yun4: '運运',
+  zai4: '在再',
+  zan2: '咱',
+  zao3: '早',
+  ze2: '則则責责',
+  zen3: '怎',
+  zeng1: '增',
+  zhan4: '站戰战',
+  zhang1: '張张',
+  zhao3: '找', zhao4: '照',
+  zhe4: '這这', zhe5: '著着',
+  zhen1: '真珍',
+  zheng1: '爭争睜睁', zheng4: '正證证',
+  zhi1: '知之隻', zhi2: '直值', zhi3: '只紙纸指止', zhi4: '至志制治',
+  zhong1: '中鐘钟終终', zhong3: '種种', zhong4: '重眾众',
+  zhou1: '週周', zhou4: '宙',
+  zhu1: '珠', zhu3: '主煮', zhu4: '住注',
+  zhuan3: '轉转',
+  zhuang1: '裝装',
+  zhui1: '追',
+  zhun3: '準准',
+  zi1: '資资', zi3: '子紫', zi4: '自字',
+  zong3: '總总',
+  zou3: '走',
+  zu2: '足',
+  zui3: '嘴', zui4: '最醉罪',
+  zun1: '尊',
+  zuo2: '昨', zuo3: '左', zuo4: '做坐作座',
+};
+
+// Hiragana readings of common lyric kanji: the kun reading (or the stem a verb
+// or adjective is written with) when the character usually stands alone
+export const KANA_DICTIONARY: Record<string, string> = {
+  'あい': '愛', 'あお': '青', 'あか': '赤明', 'あき': '秋', 'あさ': '朝', 'あし': '足', 'あめ': '雨', 'あ': '会逢',
+  'ある': '歩', 'あたた': '温暖', 'いえ': '家', 'いき': '息', 'いし': '石', 'いのち': '命', 'いま': '今', 'いろ': '色',
+  'い': '行', 'いの': '祈', 'うた': '歌', 'うみ': '海', 'うれ': '嬉', 'うん': '運', 'え': '絵', 'えい': '永', 'えん': '遠',
+  'おと': '音', 'おとこ': '男', 'おんな': '女', 'おも': '思', 'おぼ': '覚', 'おく': '憶',
+  'かお': '顔', 'かぜ': '風', 'かた': '肩', 'かみ': '髪', 'かわ': '川', 'かな': '悲', 'かん': '感', 'かい': '界', 'か': '書',
+  'き': '木聞記', 'きみ': '君', 'くち': '口', 'くも': '雲', 'くに': '国', 'くるま': '車', 'こえ': '声', 'こころ': '心',
+  'こと': '事言', 'こい': '恋', 'さくら': '桜', 'さが': '探', 'さみ': '寂', 'し': '知', 'しろ': '白', 'しん': '信',
+  'せ': '世', 'そく': '束', 'そら': '空', 'た': '食', 'たび': '旅', 'たの': '楽', 'つき': '月', 'つよ': '強', 'つめ': '冷',
+  'て': '手', 'てん': '天', 'とき': '時', 'とし': '年', 'とり': '鳥', 'と': '飛', 'なか': '中', 'なつ': '夏', 'なみだ': '涙',
+  'な': '泣', 'に': '二', 'ねが': '願', 'の': '飲', 'ひ': '日火', 'ひかり': '光', 'ひと': '人', 'ふゆ': '冬', 'はな': '花話',
+  'はる': '春', 'はし': '走', 'ほし': '星', 'ぼく': '僕', 'まち': '街町', 'まも': '守', 'まよ': '迷', 'み': '見未',
+  'みち': '道', 'みず': '水', 'みみ': '耳', 'め': '目', 'もの': '物', 'やま': '山', 'やく': '約', 'やさ': '優', 'ゆき': '雪',
+  'ゆめ': '夢', 'よ': '読', 'よる': '夜', 'よわ': '弱', 'らい': '来', 'わたし': '私', 'わか': '分別', 'わす': '忘', 'わら': '笑',
+};
\ No newline at end of file
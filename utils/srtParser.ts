@@ -1,4 +1,13 @@
-import { LyricLine } from '../types';
+import { LyricLine, LyricSegment, SongMetadata, VisualSettings, ThemeStyle } from '../types';
+import { hasValidWordTiming } from './wordTiming';
+import { getDesignSize } from './canvasFormat';
+import { resolveOutlineColor, ResolvedLineStyle } from './lineStyles';
+import { mainTrack } from './lyricTracks';
+
+export interface ParsedLyricsFile {
+  lyrics: LyricLine[];
+  metadata: Partial<SongMetadata>;
+}
 
 export const parseSRT = (srtContent: string): LyricLine[] => {
   const lines = srtContent.trim().split(/\r?\n\r?\n/);
@@ -61,11 +70,158 @@ export const parsePlainLyrics = (text: string, totalDuration: number): LyricLine
   }));
 };
 
+// LRC timestamps: [mm:ss], [mm:ss.xx] or [mm:ss.xxx]; word tags use <mm:ss.xx>
+const LRC_TIME_TAG = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const LRC_WORD_TAG = /<(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
+const LRC_HEADER = /^\[([a-z#]+):(.*)\]$/i;
+const LRC_SIGNATURE = /^\s*\[\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?\]/m;
+
+// Lines with no following timestamp stay on screen this long
+const LRC_LAST_LINE_DURATION = 5;
+
+const lrcTimeToSeconds = (min: string, sec: string, frac?: string): number => {
+  let fraction = 0;
+  if (frac) {
+    // ".5" means half a second, ".05" five hundredths, ".005" five thousandths
+    fraction = parseInt(frac) / Math.pow(10, frac.length);
+  }
+  return parseInt(min) * 60 + parseInt(sec) + fraction;
+};
+
+interface LRCWordMark {
+  time: number;
+  text: string;
+}
+
+// Split Enhanced LRC text ("<00:01.00>Hello <00:01.50>world<00:02.10>") into
+// timed pieces. A trailing tag with no text marks where the last word ends.
+const parseLRCWordMarks = (raw: string): { text: string; marks: LRCWordMark[]; end?: number } => {
+  const marks: LRCWordMark[] = [];
+  let lead = '';
+  let lastIndex = 0;
+  let current: LRCWordMark | null = null;
+  LRC_WORD_TAG.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = LRC_WORD_TAG.exec(raw)) !== null) {
+    const piece = raw.slice(lastIndex, match.index);
+    if (current) current.text += piece;
+    else lead += piece;
+    current = { time: lrcTimeToSeconds(match[1], match[2], match[3]), text: '' };
+    marks.push(current);
+    lastIndex = LRC_WORD_TAG.lastIndex;
+  }
+  if (current) current.text += raw.slice(lastIndex);
+  else lead += raw.slice(lastIndex);
+
+  if (marks.length === 0) return { text: raw.replace(/\s+/g, ' ').trim(), marks };
+
+  let end: number | undefined;
+  if (marks[marks.length - 1].text.trim() === '') end = marks.pop()!.time;
+  if (marks.length > 0 && lead.trim()) marks[0].text = lead + marks[0].text;
+  if (marks.length > 0) {
+    marks[0].text = marks[0].text.trimStart();
+    marks[marks.length - 1].text = marks[marks.length - 1].text.trimEnd();
+  }
+  return { text: marks.map(m => m.text).join(''), marks: marks.filter(m => m.text), end };
+};
+
+export const parseLRC = (content: string): ParsedLyricsFile => {
+  const metadata: Partial<SongMetadata> = {};
+  let offset = 0;
+  const entries: { time: number; text: string; marks: LRCWordMark[]; wordsEnd?: number }[] = [];
+
+  content.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const header = line.match(LRC_HEADER);
+    if (header) {
+      const key = header[1].toLowerCase();
+      const value = header[2].trim();
+      if (key === 'ti') metadata.title = value;
+      else if (key === 'ar') metadata.artist = value;
+      else if (key === 'length') {
+        const [m, s] = value.split(':');
+        const seconds = s !== undefined ? parseInt(m) * 60 + parseFloat(s) : parseFloat(m);
+        if (!isNaN(seconds)) metadata.duration = seconds;
+      } else if (key === 'offset') {
+        // Offset is in milliseconds; a positive value makes lyrics appear sooner
+        const ms = parseInt(value);
+        if (!isNaN(ms)) offset = ms / 1000;
+      }
+      return;
+    }
+
+    // A line may carry several timestamps when it repeats (e.g. a chorus)
+    const times: number[] = [];
+    LRC_TIME_TAG.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    let textStart = 0;
+    while ((match = LRC_TIME_TAG.exec(line)) !== null && match.index === textStart) {
+      times.push(lrcTimeToSeconds(match[1], match[2], match[3]));
+      textStart = LRC_TIME_TAG.lastIndex;
+    }
+    if (times.length === 0) return;
+
+    const { text, marks, end } = parseLRCWordMarks(line.slice(textStart));
+    times.forEach(time => {
+      // Word tags are absolute; repeated lines reuse them shifted to each occurrence
+      const shift = marks.length > 0 ? time - times[0] : 0;
+      entries.push({
+        time,
+        text,
+        marks: marks.map(m => ({ ...m, time: m.time + shift })),
+        wordsEnd: end !== undefined ? end + shift : undefined,
+      });
+    });
+  });
+
+  entries.sort((a, b) => a.time - b.time);
+
+  const result: LyricLine[] = [];
+  entries.forEach((entry, index) => {
+    // Empty timestamped lines only mark where the previous lyric ends
+    if (!entry.text) return;
+    const next = entries[index + 1];
+    const start = Math.max(0, entry.time - offset);
+    const end = next
+      ? Math.max(start, next.time - offset)
+      : metadata.duration && metadata.duration > start
+        ? metadata.duration
+        : start + LRC_LAST_LINE_DURATION;
+
+    const words: LyricSegment[] = entry.marks.map((mark, i) => {
+      const nextMark = entry.marks[i + 1];
+      const wordEnd = nextMark ? nextMark.time : entry.wordsEnd ?? end + offset;
+      return {
+        text: mark.text,
+        startTime: Math.max(0, mark.time - offset),
+        endTime: Math.max(0, Math.min(wordEnd, end + offset) - offset),
+      };
+    });
+
+    result.push({
+      id: `line-${result.length}`,
+      startTime: start,
+      endTime: end,
+      text: entry.text,
+      ...(words.length > 0 ? { words } : {}),
+    });
+  });
+
+  return { lyrics: result, metadata };
+};
+
 export const detectAndParse = (content: string, totalDuration: number): LyricLine[] => {
     // Check for SRT signature
     if (content.includes('-->')) {
         return parseSRT(content);
     }
+    // Check for LRC timestamps at the start of a line
+    if (LRC_SIGNATURE.test(content)) {
+        return parseLRC(content).lyrics;
+    }
     // Fallback to plain text distribution
     return parsePlainLyrics(content, totalDuration);
 };
@@ -93,4 +249,342 @@ const formatSRTTime = (seconds: number): string => {
     const iso = date.toISOString();
     // 1970-01-01T00:00:00.000Z -> 00:00:00,000
     return iso.substr(11, 8) + ',' + iso.substr(20, 3);
-}
\ No newline at end of file
+}
+
+const formatLRCTime = (seconds: number): string => {
+  const totalCs = Math.round(Math.max(0, seconds) * 100);
+  const m = Math.floor(totalCs / 6000);
+  const s = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+  return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+};
+
+// Serialize to LRC. A blank timestamp line is written wherever a lyric ends
+// before the next one starts, so gaps survive a round trip.
+export const lyricsToLRC = (lyrics: LyricLine[], metadata?: Partial<SongMetadata>): string => {
+  const out: string[] = [];
+  if (metadata?.title) out.push(`[ti:${metadata.title}]`);
+  if (metadata?.artist) out.push(`[ar:${metadata.artist}]`);
+  if (metadata?.duration) out.push(`[length:${formatLRCTime(metadata.duration).slice(0, 5)}]`);
+
+  const sorted = [...lyrics].sort((a, b) => a.startTime - b.startTime);
+  sorted.forEach((line, index) => {
+    if (hasValidWordTiming(line)) {
+      // Enhanced LRC: a word tag before every segment plus one closing tag
+      const words = line.words!.map(w => `<${formatLRCTime(w.startTime)}>${w.text.replace(/\r?\n/g, ' ')}`).join('');
+      const lastWord = line.words![line.words!.length - 1];
+      out.push(`[${formatLRCTime(line.startTime)}]${words}<${formatLRCTime(lastWord.endTime)}>`);
+    } else {
+      out.push(`[${formatLRCTime(line.startTime)}]${line.text.replace(/\r?\n/g, ' ')}`);
+    }
+    const next = sorted[index + 1];
+    if (!next || next.startTime - line.endTime >= 0.01) {
+      out.push(`[${formatLRCTime(line.endTime)}]`);
+    }
+  });
+
+  return out.join('\n') + '\n';
+};
+
+// --- WebVTT ---
+
+// Translations are written as a second cue line wrapped in a "translation"
+// class span so they can be told apart from multi-line lyrics when re-imported.
+const VTT_TRANSLATION = /^<c\.translation>([\s\S]*)<\/c>$/;
+
+const vttTimeToSeconds = (time: string): number => {
+  const parts = time.trim().split(':');
+  const seconds = parseFloat(parts.pop()!.replace(',', '.'));
+  const minutes = parseInt(parts.pop() || '0');
+  const hours = parseInt(parts.pop() || '0');
+  return hours * 3600 + minutes * 60 + seconds;
+};
+
+const formatVTTTime = (seconds: number): string => formatSRTTime(seconds).replace(',', '.');
+
+const decodeVTTText = (text: string): string =>
+  text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+const encodeVTTText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const parseVTT = (content: string): ParsedLyricsFile => {
+  const metadata: Partial<SongMetadata> = {};
+  const blocks = content.replace(/^\uFEFF/, '').trim().split(/\r?\n\s*\r?\n/);
+  const result: LyricLine[] = [];
+
+  blocks.forEach(block => {
+    const parts = block.split(/\r?\n/);
+    if (parts[0].startsWith('WEBVTT')) {
+      const title = parts[0].replace(/^WEBVTT\s*-?\s*/, '').trim();
+      if (title) metadata.title = title;
+      return;
+    }
+    if (/^(NOTE|STYLE|REGION)\b/.test(parts[0])) return;
+
+    const timeIndex = parts.findIndex(p => p.includes('-->'));
+    if (timeIndex < 0) return;
+    const [start, rest] = parts[timeIndex].split('-->');
+    // Cue settings (position, align...) follow the end time
+    const end = rest.trim().split(/\s+/)[0];
+
+    const textLines: string[] = [];
+    let translation: string | undefined;
+    parts.slice(timeIndex + 1).forEach(p => {
+      const t = p.trim().match(VTT_TRANSLATION);
+      if (t) translation = decodeVTTText(t[1]);
+      else textLines.push(decodeVTTText(p));
+    });
+
+    result.push({
+      id: `line-${result.length}`,
+      startTime: vttTimeToSeconds(start),
+      endTime: vttTimeToSeconds(end),
+      text: textLines.join('\n'),
+      ...(translation ? { translation } : {}),
+    });
+  });
+
+  return { lyrics: result, metadata };
+};
+
+export const lyricsToVTT = (lyrics: LyricLine[], metadata?: Partial<SongMetadata>): string => {
+  const header = metadata?.title ? `WEBVTT - ${metadata.title}` : 'WEBVTT';
+  const cues = lyrics.map((line, index) => {
+    const body = [encodeVTTText(line.text)];
+    if (line.translation) body.push(`<c.translation>${encodeVTTText(line.translation)}</c>`);
+    return `${index + 1}\n${formatVTTTime(line.startTime)} --> ${formatVTTTime(line.endTime)}\n${body.join('\n')}`;
+  });
+  return [header, ...cues].join('\n\n') + '\n';
+};
+
+// --- ASS / SSA ---
+
+const ASS_STYLE_MAIN = 'Default';
+const ASS_STYLE_TRANSLATION = 'Translation';
+
+const ASS_STYLE_FORMAT = 'Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding';
+const ASS_EVENT_FORMAT = 'Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text';
+
+// "#rrggbb" -> "&HAABBGGRR" (ASS alpha is inverted: 00 is opaque)
+const hexToASSColor = (hex: string, transparency = 0): string => {
+  const clean = hex.replace('#', '');
+  const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean.padEnd(6, '0');
+  const r = full.slice(0, 2);
+  const g = full.slice(2, 4);
+  const b = full.slice(4, 6);
+  const a = Math.round(transparency * 255).toString(16).padStart(2, '0');
+  return `&H${a}${b}${g}${r}`.toUpperCase();
+};
+
+const assTimeToSeconds = (time: string): number => {
+  const [h, m, s] = time.trim().split(':');
+  return parseInt(h) * 3600 + parseInt(m) * 60 + parseFloat(s);
+};
+
+const formatASSTime = (seconds: number): string => {
+  const totalCs = Math.round(Math.max(0, seconds) * 100);
+  const h = Math.floor(totalCs / 360000);
+  const m = Math.floor((totalCs % 360000) / 6000);
+  const s = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+  return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+};
+
+const decodeASSText = (text: string): string =>
+  text
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/\\[Nn]/g, '\n')
+    .replace(/\\h/g, ' ');
+
+const encodeASSText = (text: string): string =>
+  text.replace(/\r?\n/g, '\\N').replace(/[{}]/g, '');
+
+// Word timing becomes \kf sweeps (durations in centiseconds). Sung text takes
+// PrimaryColour and unsung text SecondaryColour, so karaoke lines override both
+// to match the renderer: palette primary for sung, white for unsung.
+const encodeASSKaraoke = (line: LyricLine, sungColor: string): string => {
+  if (!hasValidWordTiming(line)) return encodeASSText(line.text);
+  let cursor = line.startTime;
+  const sweeps = line.words!.map(word => {
+    const gap = Math.round((word.startTime - cursor) * 100);
+    const length = Math.max(0, Math.round((word.endTime - word.startTime) * 100));
+    cursor = word.endTime;
+    return `${gap > 0 ? `{\\k${gap}}` : ''}{\\kf${length}}${encodeASSText(word.text)}`;
+  }).join('');
+  return `{\\1c${hexToASSColor(sungColor)}&\\2c&HFFFFFF&}${sweeps}`;
+};
+
+export const parseASS = (content: string): ParsedLyricsFile => {
+  const metadata: Partial<SongMetadata> = {};
+  let section = '';
+  let format: string[] = ASS_EVENT_FORMAT.split(',').map(f => f.trim().toLowerCase());
+  const main: LyricLine[] = [];
+  const translations: { start: number; end: number; text: string }[] = [];
+
+  content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    const sectionMatch = line.match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      return;
+    }
+
+    if (section === 'script info') {
+      const title = line.match(/^Title:\s*(.*)$/i);
+      if (title && title[1]) metadata.title = title[1].trim();
+      return;
+    }
+    if (section !== 'events') return;
+
+    if (/^Format:/i.test(line)) {
+      format = line.replace(/^Format:/i, '').split(',').map(f => f.trim().toLowerCase());
+      return;
+    }
+    if (!/^Dialogue:/i.test(line)) return;
+
+    // Text is the last field and may itself contain commas
+    const fields = line.replace(/^Dialogue:\s*/i, '').split(',');
+    const textIndex = format.indexOf('text');
+    const values = [...fields.slice(0, textIndex), fields.slice(textIndex).join(',')];
+    const get = (name: string) => values[format.indexOf(name)] ?? '';
+
+    const start = assTimeToSeconds(get('start'));
+    const end = assTimeToSeconds(get('end'));
+    const text = decodeASSText(get('text'));
+    const isTranslation = get('style').trim().toLowerCase() === ASS_STYLE_TRANSLATION.toLowerCase();
+
+    if (isTranslation) {
+      translations.push({ start, end, text });
+    } else {
+      main.push({ id: '', startTime: start, endTime: end, text });
+    }
+  });
+
+  main.sort((a, b) => a.startTime - b.startTime);
+  const result = main.map((line, index) => {
+    const match = translations.find(t => Math.abs(t.start - line.startTime) < 0.05);
+    return {
+      ...line,
+      id: `line-${index}`,
+      ...(match ? { translation: match.text.replace(/\n/g, ' ') } : {}),
+    };
+  });
+
+  return { lyrics: result, metadata };
+};
+
+export const lyricsToASS = (lyrics: LyricLine[], settings: VisualSettings, metadata?: Partial<SongMetadata>): string => {
+  // PlayRes matches the renderer's design space, so font sizes carry over unchanged
+  const { width: playResX, height: playResY } = getDesignSize(settings.aspectRatio);
+  const fontSize = Math.round(settings.fontSize);
+  const translationSize = Math.round(settings.fontSize * 0.45);
+  const isMinimal = settings.style === ThemeStyle.MINIMAL;
+  // The global look of the main track, outlined the way the renderer outlines it
+  const look: ResolvedLineStyle = {
+    fontFamily: settings.fontFamily,
+    fontWeight: settings.fontWeight,
+    fontSize: settings.fontSize,
+    color: mainTrack(settings.tracks).color,
+    highlightColor: settings.primaryColor,
+    animationType: settings.animationType,
+    style: settings.style,
+  };
+  const outlineColor = resolveOutlineColor(look, settings);
+  const outline = outlineColor ? Math.round(settings.outlineWidth) : 0;
+  const shadow = isMinimal ? 0 : 2;
+  // Translation sits below the vertically centred main line, as in the renderer
+  const translationMarginV = Math.round(playResY / 2 + fontSize * 0.8);
+
+  const style = (name: string, size: number, primary: string, alignment: number, marginV: number) => [
+    name,
+    settings.fontFamily,
+    size,
+    hexToASSColor(primary),
+    hexToASSColor(settings.secondaryColor),
+    hexToASSColor(outlineColor || settings.primaryColor),
+    hexToASSColor(settings.backgroundColor, 0.4),
+    name === ASS_STYLE_MAIN && settings.fontWeight >= 600 ? -1 : 0,
+    0, 0, 0, 100, 100, 0, 0, 1,
+    name === ASS_STYLE_MAIN ? outline : 0,
+    name === ASS_STYLE_MAIN ? shadow : 0,
+    alignment,
+    40, 40,
+    marginV,
+    1,
+  ].join(',');
+
+  const events: string[] = [];
+  lyrics.forEach(line => {
+    const start = formatASSTime(line.startTime);
+    const end = formatASSTime(line.endTime);
+    events.push(`Dialogue: 0,${start},${end},${ASS_STYLE_MAIN},,0,0,0,,${encodeASSKaraoke(line, settings.primaryColor)}`);
+    if (line.translation) {
+      events.push(`Dialogue: 1,${start},${end},${ASS_STYLE_TRANSLATION},,0,0,0,,${encodeASSText(line.translation)}`);
+    }
+  });
+
+  return [
+    '[Script Info]',
+    `Title: ${metadata?.title || 'Willwi Lyrics'}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    `PlayResX: ${playResX}`,
+    `PlayResY: ${playResY}`,
+    '',
+    '[V4+ Styles]',
+    `Format: ${ASS_STYLE_FORMAT}`,
+    // Alignment 5 = middle centre, 8 = top centre (pushed down by MarginV)
+    `Style: ${style(ASS_STYLE_MAIN, fontSize, '#ffffff', 5, 0)}`,
+    `Style: ${style(ASS_STYLE_TRANSLATION, translationSize, '#cbd5e1', 8, translationMarginV)}`,
+    '',
+    '[Events]',
+    `Format: ${ASS_EVENT_FORMAT}`,
+    ...events,
+  ].join('\n') + '\n';
+};
+
+// --- Format dispatch ---
+
+export type SubtitleFormat = 'srt' | 'lrc' | 'vtt' | 'ass';
+
+export const SUBTITLE_FORMATS: { format: SubtitleFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'srt', label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  { format: 'lrc', label: 'LRC', extension: 'lrc', mimeType: 'text/plain' },
+  { format: 'vtt', label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  { format: 'ass', label: 'ASS (Aegisub)', extension: 'ass', mimeType: 'text/x-ssa' },
+];
+
+export const SUBTITLE_FILE_ACCEPT = '.srt,.lrc,.vtt,.ass,.ssa';
+
+// Parse an imported subtitle file, using its extension first and its content as a fallback
+export const parseSubtitleFile = (content: string, fileName: string): ParsedLyricsFile => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  const trimmed = content.replace(/^\uFEFF/, '').trimStart();
+
+  if (ext === 'lrc') return parseLRC(content);
+  if (ext === 'vtt' || trimmed.startsWith('WEBVTT')) return parseVTT(content);
+  if (ext === 'ass' || ext === 'ssa' || trimmed.startsWith('[Script Info]')) return parseASS(content);
+  if (ext !== 'srt' && LRC_SIGNATURE.test(content)) return parseLRC(content);
+  return { lyrics: parseSRT(content), metadata: {} };
+};
+
+export const serializeLyrics = (
+  format: SubtitleFormat,
+  lyrics: LyricLine[],
+  settings: VisualSettings,
+  metadata?: Partial<SongMetadata>
+): string => {
+  switch (format) {
+    case 'lrc': return lyricsToLRC(lyrics, metadata);
+    case 'vtt': return lyricsToVTT(lyrics, metadata);
+    case 'ass': return lyricsToASS(lyrics, settings, metadata);
+    default: return lyricsToString(lyrics);
+  }
+};
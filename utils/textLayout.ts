@@ -0,0 +1,138 @@
+// A wrapped row of text plus where it starts in the source string, so
+// per-character effects (karaoke wipe) can map back onto the original text.
+export interface TextRow {
+  text: string;
+  start: number;
+}
+
+// Kinsoku shori: characters that may not start a row (closing brackets,
+// punctuation, small kana, the prolonged sound mark) ...
+const NO_ROW_START = new Set(Array.from('、。，．・：；？！ー」』）】〕〉》〙〗〟’”｠»ゝゞヽヾぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶ々〻‐゠–〜～…‥,.!?;:)]}%'));
+// ... and characters that may not end one (opening brackets)
+const NO_ROW_END = new Set(Array.from('「『（【〔〈《〘〖〝‘“｟«([{'));
+
+// Split a paragraph into unbreakable pieces: one per CJK character, one per
+// Latin word, each carrying its trailing spaces. Kinsoku characters are glued
+// onto the piece they must stay with.
+const breakPieces = (paragraph: string): string[] => {
+  const atoms = paragraph.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}々〆ー]\s*|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}々〆ー]+\s*|\s+/gu) || [''];
+  const pieces: string[] = [];
+  atoms.forEach(atom => {
+    const previous = pieces[pieces.length - 1];
+    const gluesBack = previous !== undefined && (
+      (NO_ROW_START.has(Array.from(atom)[0]) && !/\s$/.test(previous)) ||
+      NO_ROW_END.has(Array.from(previous.trimEnd()).pop() || '')
+    );
+    if (gluesBack) pieces[pieces.length - 1] = previous + atom;
+    else pieces.push(atom);
+  });
+  return pieces;
+};
+
+// Greedy wrap: explicit newlines always break; otherwise Latin text breaks
+// between words and CJK text between characters, following kinsoku rules.
+// A piece wider than a whole row is broken by character as a last resort,
+// which is reported as overflow. `measure` gives the length of a run of text.
+const wrap = (measure: (text: string) => number, text: string, maxWidth: number) => {
+  const rows: TextRow[] = [];
+  let overflow = false;
+  let paragraphStart = 0;
+  const fits = (s: string) => measure(s.trimEnd()) <= maxWidth;
+
+  text.split('\n').forEach(paragraph => {
+    let rowText = '';
+    let rowStart = paragraphStart;
+    let cursor = paragraphStart;
+
+    const breakRow = (nextPiece: string) => {
+      rows.push({ text: rowText.trimEnd(), start: rowStart });
+      // Leading spaces at the start of a wrapped row are dropped
+      const trimmed = nextPiece.replace(/^\s+/, '');
+      rowStart = cursor + (nextPiece.length - trimmed.length);
+      return trimmed;
+    };
+
+    breakPieces(paragraph).forEach(piece => {
+      if (!rowText || fits(rowText + piece)) {
+        rowText += piece;
+      } else {
+        rowText = breakRow(piece);
+      }
+      // Emergency break of a piece that cannot fit on any row
+      while (!fits(rowText) && Array.from(rowText.trimEnd()).length > 1) {
+        overflow = true;
+        const chars = Array.from(rowText);
+        let head = chars[0];
+        for (let i = 1; i < chars.length && fits(head + chars[i]); i++) head += chars[i];
+        rows.push({ text: head, start: rowStart });
+        rowStart += head.length;
+        rowText = rowText.slice(head.length);
+      }
+      cursor += piece.length;
+    });
+
+    rows.push({ text: rowText.trimEnd(), start: rowStart });
+    paragraphStart += paragraph.length + 1; // +1 for the '\n'
+  });
+
+  return { rows, overflow };
+};
+
+export const wrapTextRows = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): TextRow[] =>
+  wrap(s => ctx.measureText(s).width, text, maxWidth).rows;
+
+export interface FittedText {
+  rows: TextRow[];
+  fontSize: number;
+}
+
+export interface FitOptions {
+  maxRows: number;
+  minScale: number; // smallest allowed share of the preferred size
+  // Length of a run at a size, after setFont; defaults to the measured width
+  measure?: (text: string, fontSize: number) => number;
+}
+
+const SHRINK_STEP = 0.92;
+
+// Wrap at the preferred size, then shrink step by step until the text fits in
+// maxRows rows without breaking inside a word. Stops at minScale regardless.
+export const fitTextRows = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+  fontSize: number,
+  setFont: (size: number) => void,
+  { maxRows, minScale, measure }: FitOptions
+): FittedText => {
+  const minSize = fontSize * minScale;
+  let size = fontSize;
+  for (;;) {
+    setFont(size);
+    const { rows, overflow } = wrap(s => measure ? measure(s, size) : ctx.measureText(s).width, text, maxWidth);
+    if ((rows.length <= maxRows && !overflow) || size <= minSize) return { rows, fontSize: size };
+    size = Math.max(minSize, size * SHRINK_STEP);
+  }
+};
+
+// Vertical writing: CJK characters stand upright, one em tall. Latin text and
+// the marks that follow the writing direction (brackets, dashes, the prolonged
+// sound mark) are turned sideways and take their own width.
+const SIDEWAYS_MARKS = new Set(Array.from('ー－—―…‥〜～「」『』（）【】〔〕〈〉《》［］｛｝'));
+// Small punctuation sits in the upper right of its cell
+const CORNER_MARKS = new Set(Array.from('、。，．'));
+
+export type VerticalGlyph = 'upright' | 'sideways' | 'corner';
+
+export const verticalGlyph = (char: string): VerticalGlyph => {
+  if (CORNER_MARKS.has(char)) return 'corner';
+  if (SIDEWAYS_MARKS.has(char)) return 'sideways';
+  return /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff00-\uffef]/u.test(char) ? 'upright' : 'sideways';
+};
+
+// Advance of one character down a column, in the current font
+export const verticalAdvance = (ctx: CanvasRenderingContext2D, char: string, fontSize: number, spacing: number): number =>
+  (verticalGlyph(char) === 'sideways' ? ctx.measureText(char).width : fontSize) + spacing;
+
+export const columnLength = (ctx: CanvasRenderingContext2D, text: string, fontSize: number, spacing: number): number =>
+  Array.from(text).reduce((sum, char) => sum + verticalAdvance(ctx, char, fontSize, spacing), 0);
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { LyricLine } from '../types';
+
+// A line can carry one untagged translation (typed by hand or imported from a
+// subtitle file) plus any number of AI translations keyed by language code.
+
+export interface TranslationLanguage {
+  code: string;
+  label: string;
+  prompt: string; // language name used in the model prompt
+}
+
+export const TRANSLATION_LANGUAGES: TranslationLanguage[] = [
+  { code: 'zh-Hant', label: '繁體中文', prompt: 'Traditional Chinese' },
+  { code: 'zh-Hans', label: '简体中文', prompt: 'Simplified Chinese' },
+  { code: 'ja', label: '日本語', prompt: 'Japanese' },
+  { code: 'en', label: 'English', prompt: 'English' },
+  { code: 'ko', label: '한국어', prompt: 'Korean' },
+];
+
+// Pseudo language code for `LyricLine.translation`
+export const MANUAL_TRANSLATION = 'manual';
+export const MAX_DISPLAYED_TRANSLATIONS = 2;
+
+export const getTranslationLanguage = (code: string): TranslationLanguage =>
+  TRANSLATION_LANGUAGES.find(l => l.code === code) || TRANSLATION_LANGUAGES[0];
+
+export const translationLabel = (code: string): string =>
+  code === MANUAL_TRANSLATION ? '手動 / 匯入' : TRANSLATION_LANGUAGES.find(l => l.code === code)?.label || code;
+
+export const getTranslation = (line: LyricLine, code: string): string =>
+  (code === MANUAL_TRANSLATION ? line.translation : line.translations?.[code]) || '';
+
+export const setTranslation = (line: LyricLine, code: string, text: string): LyricLine =>
+  code === MANUAL_TRANSLATION
+    ? { ...line, translation: text }
+    : { ...line, translations: { ...line.translations, [code]: text } };
+
+// Non-empty translations to draw under a line, in display order
+export const displayedTranslations = (line: LyricLine, codes: string[]): string[] =>
+  codes.slice(0, MAX_DISPLAYED_TRANSLATIONS).map(code => getTranslation(line, code)).filter(Boolean);
\ No newline at end of file
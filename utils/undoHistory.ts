@@ -0,0 +1,69 @@
+// A reversible edit. `groupKey` lets a burst of edits to the same thing
+// (typing in one field, dragging one slider) collapse into a single step.
+export interface HistoryCommand {
+  label: string;
+  groupKey?: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+const DEFAULT_LIMIT = 200;
+const DEFAULT_GROUP_WINDOW_MS = 800;
+
+export class UndoHistory {
+  private undoStack: HistoryCommand[] = [];
+  private redoStack: HistoryCommand[] = [];
+  private lastPushAt = 0;
+
+  constructor(
+    private readonly limit = DEFAULT_LIMIT,
+    private readonly groupWindowMs = DEFAULT_GROUP_WINDOW_MS
+  ) {}
+
+  // Record a command that has already been applied
+  push(command: HistoryCommand, now = Date.now()) {
+    const top = this.undoStack[this.undoStack.length - 1];
+    const continuesGroup = top && command.groupKey !== undefined
+      && top.groupKey === command.groupKey
+      && now - this.lastPushAt <= this.groupWindowMs;
+
+    if (continuesGroup) {
+      // Keep the oldest undo, take the newest redo
+      this.undoStack[this.undoStack.length - 1] = { ...top, redo: command.redo };
+    } else {
+      this.undoStack.push(command);
+      if (this.undoStack.length > this.limit) this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.lastPushAt = now;
+  }
+
+  undo(): HistoryCommand | undefined {
+    const command = this.undoStack.pop();
+    if (!command) return undefined;
+    command.undo();
+    this.redoStack.push(command);
+    this.lastPushAt = 0;
+    return command;
+  }
+
+  redo(): HistoryCommand | undefined {
+    const command = this.redoStack.pop();
+    if (!command) return undefined;
+    command.redo();
+    this.undoStack.push(command);
+    this.lastPushAt = 0;
+    return command;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.lastPushAt = 0;
+  }
+
+  get canUndo() { return this.undoStack.length > 0; }
+  get canRedo() { return this.redoStack.length > 0; }
+  get undoLabel() { return this.undoStack[this.undoStack.length - 1]?.label; }
+  get redoLabel() { return this.redoStack[this.redoStack.length - 1]?.label; }
+}
\ No newline at end of file
@@ -0,0 +1,51 @@
+// Min/max envelope of a decoded song, used to draw the timeline waveform.
+// Peaks are computed once at a fixed rate and re-binned per pixel when drawn,
+// so zooming never touches the raw samples again.
+
+export const PEAKS_PER_SECOND = 200;
+
+export interface WaveformPeaks {
+  peaksPerSecond: number;
+  min: Float32Array; // -1..0
+  max: Float32Array; // 0..1
+}
+
+export const computePeaks = (buffer: AudioBuffer, peaksPerSecond = PEAKS_PER_SECOND): WaveformPeaks => {
+  const samplesPerPeak = Math.max(1, Math.floor(buffer.sampleRate / peaksPerSecond));
+  const count = Math.ceil(buffer.length / samplesPerPeak);
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  for (let p = 0; p < count; p++) {
+    const start = p * samplesPerPeak;
+    const end = Math.min(buffer.length, start + samplesPerPeak);
+    let lo = 0;
+    let hi = 0;
+    for (let i = start; i < end; i++) {
+      // Mix down to mono so the envelope matches what is heard
+      let sample = 0;
+      for (const data of channels) sample += data[i];
+      sample /= channels.length;
+      if (sample < lo) lo = sample;
+      if (sample > hi) hi = sample;
+    }
+    min[p] = lo;
+    max[p] = hi;
+  }
+
+  return { peaksPerSecond: buffer.sampleRate / samplesPerPeak, min, max };
+};
+
+// Envelope of the time range [from, to) in seconds
+export const peakRange = (peaks: WaveformPeaks, from: number, to: number): [number, number] => {
+  const start = Math.max(0, Math.floor(from * peaks.peaksPerSecond));
+  const end = Math.min(peaks.max.length, Math.max(start + 1, Math.ceil(to * peaks.peaksPerSecond)));
+  let lo = 0;
+  let hi = 0;
+  for (let i = start; i < end; i++) {
+    if (peaks.min[i] < lo) lo = peaks.min[i];
+    if (peaks.max[i] > hi) hi = peaks.max[i];
+  }
+  return [lo, hi];
+};
\ No newline at end of file
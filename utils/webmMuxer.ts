@@ -0,0 +1,274 @@
+import { MediaMuxer, MuxerAudioConfig, MuxerVideoConfig, MuxedSample, chunkToSample, descriptionToBytes } from './muxer';
+
+// Minimal Matroska/WebM writer: one video track (VP8/VP9) and an optional
+// Opus track. Samples are kept in memory and the file is laid out on finalize(),
+// so every element can be written with a known size and a Cues index.
+
+type EBMLValue = EBMLElement[] | Uint8Array | number | string | { float: number };
+
+interface EBMLElement {
+  id: number;
+  value: EBMLValue;
+}
+
+const TIMECODE_SCALE = 1_000_000; // 1ms per timecode tick
+const MAX_CLUSTER_MS = 5000;
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+
+const textEncoder = new TextEncoder();
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+const encodeId = (id: number): Uint8Array => {
+  const bytes: number[] = [];
+  let v = id;
+  while (v > 0) {
+    bytes.unshift(v & 0xff);
+    v = Math.floor(v / 256);
+  }
+  return new Uint8Array(bytes);
+};
+
+// EBML variable-length size: the leading 1-bit marks how many bytes follow
+const encodeSize = (size: number): Uint8Array => {
+  let length = 1;
+  while (length < 8 && size >= Math.pow(2, 7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let v = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = v & 0xff;
+    v = Math.floor(v / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+};
+
+const encodeUint = (value: number): Uint8Array => {
+  const bytes: number[] = [];
+  let v = Math.max(0, Math.floor(value));
+  do {
+    bytes.unshift(v & 0xff);
+    v = Math.floor(v / 256);
+  } while (v > 0);
+  return new Uint8Array(bytes);
+};
+
+const encodeFloat = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+};
+
+const encodeElement = (element: EBMLElement): Uint8Array => {
+  const { value } = element;
+  let payload: Uint8Array;
+  if (Array.isArray(value)) payload = concatBytes(value.map(encodeElement));
+  else if (value instanceof Uint8Array) payload = value;
+  else if (typeof value === 'number') payload = encodeUint(value);
+  else if (typeof value === 'string') payload = textEncoder.encode(value);
+  else payload = encodeFloat(value.float);
+  return concatBytes([encodeId(element.id), encodeSize(payload.length), payload]);
+};
+
+const simpleBlock = (track: number, relativeMs: number, sample: MuxedSample): EBMLElement => {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | track; // track number as a one-byte vint
+  new DataView(header.buffer).setInt16(1, relativeMs);
+  header[3] = sample.isKey ? 0x80 : 0x00;
+  return { id: 0xa3, value: concatBytes([header, sample.data]) };
+};
+
+// Opus identification header, used when the encoder does not supply one
+const buildOpusHead = (channels: number, sampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  head.set(textEncoder.encode('OpusHead'), 0);
+  const view = new DataView(head.buffer);
+  view.setUint8(8, 1); // version
+  view.setUint8(9, channels);
+  view.setUint16(10, 312, true); // pre-skip: libopus encoder lookahead at 48kHz
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  view.setUint8(18, 0); // channel mapping family
+  return head;
+};
+
+const VIDEO_CODEC_IDS: Record<string, string> = {
+  vp8: 'V_VP8',
+  vp09: 'V_VP9',
+  vp9: 'V_VP9',
+  av01: 'V_AV1',
+};
+
+export class WebMMuxer implements MediaMuxer {
+  readonly mimeType = 'video/webm';
+  readonly extension = 'webm';
+
+  private videoSamples: MuxedSample[] = [];
+  private audioSamples: MuxedSample[] = [];
+  private audioPrivate?: Uint8Array;
+
+  constructor(private video: MuxerVideoConfig, private audio?: MuxerAudioConfig) {}
+
+  addVideoChunk(chunk: EncodedVideoChunk) {
+    this.videoSamples.push(chunkToSample(chunk));
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) {
+    if (!this.audioPrivate) this.audioPrivate = descriptionToBytes(meta?.decoderConfig?.description);
+    this.audioSamples.push(chunkToSample(chunk));
+  }
+
+  finalize(): Blob {
+    const durationMs = this.computeDurationMs();
+    const header = encodeElement({
+      id: 0x1a45dfa3, // EBML
+      value: [
+        { id: 0x4286, value: 1 }, // EBMLVersion
+        { id: 0x42f7, value: 1 }, // EBMLReadVersion
+        { id: 0x42f2, value: 4 }, // EBMLMaxIDLength
+        { id: 0x42f3, value: 8 }, // EBMLMaxSizeLength
+        { id: 0x4282, value: 'webm' }, // DocType
+        { id: 0x4287, value: 4 }, // DocTypeVersion
+        { id: 0x4285, value: 2 }, // DocTypeReadVersion
+      ],
+    });
+
+    const info = encodeElement({
+      id: 0x1549a966, // Info
+      value: [
+        { id: 0x2ad7b1, value: TIMECODE_SCALE },
+        { id: 0x4d80, value: 'Willwi Studio' }, // MuxingApp
+        { id: 0x5741, value: 'Willwi Studio' }, // WritingApp
+        { id: 0x4489, value: { float: durationMs } }, // Duration
+      ],
+    });
+    const tracks = encodeElement({ id: 0x1654ae6b, value: this.trackEntries() });
+
+    // Cluster positions are relative to the start of the Segment payload
+    let position = info.length + tracks.length;
+    const clusters: Uint8Array[] = [];
+    const cuePoints: EBMLElement[] = [];
+    this.buildClusters().forEach(cluster => {
+      cuePoints.push({
+        id: 0xbb, // CuePoint
+        value: [
+          { id: 0xb3, value: cluster.timecode }, // CueTime
+          {
+            id: 0xb7, // CueTrackPositions
+            value: [
+              { id: 0xf7, value: VIDEO_TRACK }, // CueTrack
+              { id: 0xf1, value: position }, // CueClusterPosition
+            ],
+          },
+        ],
+      });
+      clusters.push(cluster.bytes);
+      position += cluster.bytes.length;
+    });
+    const cues = encodeElement({ id: 0x1c53bb6b, value: cuePoints });
+
+    const segmentPayload = concatBytes([info, tracks, ...clusters, cues]);
+    const segment = concatBytes([encodeId(0x18538067), encodeSize(segmentPayload.length), segmentPayload]);
+    return new Blob([header, segment], { type: this.mimeType });
+  }
+
+  private computeDurationMs(): number {
+    const end = (samples: MuxedSample[]) =>
+      samples.reduce((max, s) => Math.max(max, s.timestamp + s.duration), 0);
+    return Math.max(end(this.videoSamples), end(this.audioSamples)) / 1000;
+  }
+
+  private trackEntries(): EBMLElement[] {
+    const codecPrefix = this.video.codec.split('.')[0];
+    const entries: EBMLElement[] = [
+      {
+        id: 0xae, // TrackEntry
+        value: [
+          { id: 0xd7, value: VIDEO_TRACK }, // TrackNumber
+          { id: 0x73c5, value: VIDEO_TRACK }, // TrackUID
+          { id: 0x83, value: 1 }, // TrackType: video
+          { id: 0x86, value: VIDEO_CODEC_IDS[codecPrefix] || 'V_VP9' },
+          { id: 0x23e383, value: Math.round(1e9 / this.video.frameRate) }, // DefaultDuration (ns)
+          {
+            id: 0xe0, // Video
+            value: [
+              { id: 0xb0, value: this.video.width },
+              { id: 0xba, value: this.video.height },
+            ],
+          },
+        ],
+      },
+    ];
+
+    if (this.audio && this.audioSamples.length > 0) {
+      entries.push({
+        id: 0xae,
+        value: [
+          { id: 0xd7, value: AUDIO_TRACK },
+          { id: 0x73c5, value: AUDIO_TRACK },
+          { id: 0x83, value: 2 }, // TrackType: audio
+          { id: 0x86, value: 'A_OPUS' },
+          { id: 0x63a2, value: this.audioPrivate || buildOpusHead(this.audio.numberOfChannels, this.audio.sampleRate) },
+          { id: 0x56bb, value: 80_000_000 }, // SeekPreRoll: 80ms, as recommended for Opus
+          {
+            id: 0xe1, // Audio
+            value: [
+              { id: 0xb5, value: { float: this.audio.sampleRate } },
+              { id: 0x9f, value: this.audio.numberOfChannels },
+            ],
+          },
+        ],
+      });
+    }
+    return entries;
+  }
+
+  // Interleave both tracks by time. A new cluster starts at every video
+  // keyframe (so Cues can point at it) or when the 16-bit block offset would overflow.
+  private buildClusters(): { timecode: number; bytes: Uint8Array }[] {
+    const samples = [
+      ...this.videoSamples.map(sample => ({ track: VIDEO_TRACK, sample })),
+      ...this.audioSamples.map(sample => ({ track: AUDIO_TRACK, sample })),
+    ].sort((a, b) => a.sample.timestamp - b.sample.timestamp || a.track - b.track);
+
+    const clusters: { timecode: number; bytes: Uint8Array }[] = [];
+    let current: { timecode: number; blocks: EBMLElement[] } | null = null;
+
+    const flush = () => {
+      if (!current) return;
+      clusters.push({
+        timecode: current.timecode,
+        bytes: encodeElement({
+          id: 0x1f43b675, // Cluster
+          value: [{ id: 0xe7, value: current.timecode }, ...current.blocks],
+        }),
+      });
+    };
+
+    samples.forEach(({ track, sample }) => {
+      const ms = Math.round(sample.timestamp / 1000);
+      const startsCluster =
+        !current ||
+        (track === VIDEO_TRACK && sample.isKey) ||
+        ms - current.timecode > MAX_CLUSTER_MS;
+      if (startsCluster) {
+        flush();
+        current = { timecode: ms, blocks: [] };
+      }
+      current!.blocks.push(simpleBlock(track, ms - current!.timecode, sample));
+    });
+    flush();
+
+    return clusters;
+  }
+}
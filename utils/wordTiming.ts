@@ -0,0 +1,93 @@
+import { LyricLine, LyricSegment } from '../types';
+
+// Characters that are sung one at a time (Han, kana and the iteration/prolonged marks)
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}々〆ー]/u;
+const TOKEN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}々〆ー]|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}々〆ー]+|\s+/gu;
+const PUNCTUATION_ONLY = /^[\p{P}\p{S}]+$/u;
+
+export const isCJKChar = (char: string): boolean => CJK_CHAR.test(char);
+
+// Split lyric text into karaoke segments: CJK per character, everything else per word.
+// Whitespace and trailing punctuation are attached to the preceding segment, so the
+// segments always concatenate back to the original text.
+export const segmentLyricText = (text: string): string[] => {
+  const tokens = text.match(TOKEN) || [];
+  const segments: string[] = [];
+  let pending = '';
+
+  tokens.forEach(token => {
+    const attachToPrevious = /^\s+$/.test(token) || PUNCTUATION_ONLY.test(token);
+    if (attachToPrevious && segments.length > 0) {
+      segments[segments.length - 1] += token;
+    } else if (attachToPrevious) {
+      pending += token;
+    } else {
+      segments.push(pending + token);
+      pending = '';
+    }
+  });
+
+  if (pending) {
+    if (segments.length > 0) segments[segments.length - 1] += pending;
+    else segments.push(pending);
+  }
+  return segments;
+};
+
+// Spread a line's duration over its segments, weighted by visible characters
+export const createWordSegments = (line: LyricLine): LyricSegment[] => {
+  const parts = segmentLyricText(line.text);
+  const weights = parts.map(p => Math.max(1, p.replace(/\s/g, '').length));
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  const duration = Math.max(0, line.endTime - line.startTime);
+
+  let cursor = line.startTime;
+  return parts.map((text, i) => {
+    const length = totalWeight > 0 ? (duration * weights[i]) / totalWeight : 0;
+    const segment = { text, startTime: cursor, endTime: cursor + length };
+    cursor += length;
+    return segment;
+  });
+};
+
+// Move/stretch a line to a new time range, scaling its karaoke segments along with it
+export const retimeLine = (line: LyricLine, startTime: number, endTime: number): LyricLine => {
+  const oldDuration = line.endTime - line.startTime;
+  const scale = oldDuration > 0 ? (endTime - startTime) / oldDuration : 1;
+  const mapTime = (t: number) => startTime + (t - line.startTime) * scale;
+  return {
+    ...line,
+    startTime,
+    endTime,
+    ...(line.words ? { words: line.words.map(w => ({ ...w, startTime: mapTime(w.startTime), endTime: mapTime(w.endTime) })) } : {}),
+  };
+};
+
+// True when the stored segments still describe the line's current text
+export const hasValidWordTiming = (line: LyricLine): boolean =>
+  !!line.words && line.words.length > 0 && line.words.map(w => w.text).join('') === line.text;
+
+// How many characters of `line.text` have been sung at `time`, including a
+// fractional part for the segment in progress. Returns null without word timing.
+export const getSungCharCount = (line: LyricLine, time: number): number | null => {
+  if (!line.words || line.words.length === 0) return null;
+
+  const segmentChars = line.words.reduce((sum, w) => sum + w.text.length, 0);
+  if (segmentChars === 0) return null;
+  // If the text was edited after timing, stretch progress over the new text
+  const scale = line.text.length / segmentChars;
+
+  let count = 0;
+  for (const word of line.words) {
+    if (time >= word.endTime) {
+      count += word.text.length;
+    } else {
+      if (time > word.startTime) {
+        const span = word.endTime - word.startTime;
+        count += span > 0 ? (word.text.length * (time - word.startTime)) / span : word.text.length;
+      }
+      break;
+    }
+  }
+  return count * scale;
+};
@@ -0,0 +1,330 @@
+import { EffectPoint, PARTICLE_SHAPES, SPRITE_FILL } from '../effects';
+import { QUAD_VERTEX, BLIT_FRAGMENT, POINT_VERTEX, POINT_FRAGMENT, BRIGHT_FRAGMENT, BLUR_FRAGMENT, FINAL_FRAGMENT } from './shaders';
+
+// Strengths 0..1 of the shader post effects
+export interface PostEffects {
+  bloom: number;
+  chromaticAberration: number;
+  filmGrain: number;
+  beatZoom: number;
+}
+
+export interface CompositorFrame {
+  scene: TexImageSource; // background and 2D effect layers, opaque
+  lyrics: TexImageSource; // transparent lyric layer
+  points: EffectPoint[]; // drawn between the two
+  sprites: TexImageSource; // atlas of white particle shapes, one cell per shape
+  width: number; // design size the points are given in
+  height: number;
+  time: number;
+  pulse: number; // 0..1 beat pulse, drives the zoom
+  post: PostEffects;
+}
+
+// x, y, half size, rotation, sprite, r, g, b, a
+const FLOATS_PER_POINT = 9;
+const BLOOM_THRESHOLD = 0.55;
+// Largest extra zoom on a beat at full strength
+const BEAT_ZOOM_AMOUNT = 0.04;
+
+interface Program {
+  program: WebGLProgram;
+  uniforms: Record<string, WebGLUniformLocation | null>;
+}
+
+interface RenderTarget {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+  width: number;
+  height: number;
+}
+
+const QUAD_CORNERS = new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]);
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string): WebGLShader => {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(gl.getShaderInfoLog(shader) || 'Shader compilation failed');
+  }
+  return shader;
+};
+
+// Attributes are bound to their index in `attributes`, so VAOs can be set up by position
+const createProgram = (
+  gl: WebGL2RenderingContext,
+  vertexSource: string,
+  fragmentSource: string,
+  attributes: string[],
+  uniforms: string[]
+): Program => {
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, vertexSource));
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource));
+  attributes.forEach((name, index) => gl.bindAttribLocation(program, index, name));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(gl.getProgramInfoLog(program) || 'Shader linking failed');
+  }
+  return {
+    program,
+    uniforms: Object.fromEntries(uniforms.map(name => [name, gl.getUniformLocation(program, name)])),
+  };
+};
+
+const createTexture = (gl: WebGL2RenderingContext): WebGLTexture => {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return texture;
+};
+
+const colorCache = new Map<string, [number, number, number]>();
+
+// '#rgb' or '#rrggbb' to 0..1 channels; anything else draws white
+const parseColor = (color: string): [number, number, number] => {
+  let rgb = colorCache.get(color);
+  if (!rgb) {
+    const hex = color.replace('#', '');
+    const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+    const value = /^[0-9a-f]{6}$/i.test(full) ? parseInt(full, 16) : 0xffffff;
+    rgb = [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+    colorCache.set(color, rgb);
+  }
+  return rgb;
+};
+
+// Composites the 2D scene, GPU particles and the lyric layer, then applies
+// bloom, chromatic aberration, film grain and beat zoom. Renders into its own
+// canvas, which the caller copies onto the visible (or export) canvas.
+export class WebGLCompositor {
+  readonly canvas: HTMLCanvasElement;
+  private gl: WebGL2RenderingContext;
+  private blit: Program;
+  private pointProgram: Program;
+  private bright: Program;
+  private blur: Program;
+  private final: Program;
+  private quadVao: WebGLVertexArrayObject;
+  private pointVao: WebGLVertexArrayObject;
+  private instanceBuffer: WebGLBuffer;
+  private instanceData = new Float32Array(FLOATS_PER_POINT * 256);
+  private sceneTexture: WebGLTexture;
+  private lyricsTexture: WebGLTexture;
+  private spriteTexture: WebGLTexture;
+  private spriteSource: TexImageSource | null = null;
+  private composite: RenderTarget | null = null;
+  private bloomA: RenderTarget | null = null;
+  private bloomB: RenderTarget | null = null;
+
+  private constructor(canvas: HTMLCanvasElement, gl: WebGL2RenderingContext) {
+    this.canvas = canvas;
+    this.gl = gl;
+
+    this.blit = createProgram(gl, QUAD_VERTEX, BLIT_FRAGMENT, ['a_position'], ['u_texture']);
+    this.pointProgram = createProgram(gl, POINT_VERTEX, POINT_FRAGMENT, ['a_corner', 'a_center', 'a_transform', 'a_sprite', 'a_color'],
+      ['u_resolution', 'u_sprites', 'u_sprite_count']);
+    this.bright = createProgram(gl, QUAD_VERTEX, BRIGHT_FRAGMENT, ['a_position'], ['u_texture', 'u_threshold']);
+    this.blur = createProgram(gl, QUAD_VERTEX, BLUR_FRAGMENT, ['a_position'], ['u_texture', 'u_step']);
+    this.final = createProgram(gl, QUAD_VERTEX, FINAL_FRAGMENT, ['a_position'],
+      ['u_scene', 'u_bloom', 'u_zoom', 'u_aberration', 'u_bloom_strength', 'u_grain', 'u_time']);
+
+    const cornerBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, QUAD_CORNERS, gl.STATIC_DRAW);
+
+    this.quadVao = gl.createVertexArray()!;
+    gl.bindVertexArray(this.quadVao);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    // Corners per vertex, everything else per instance
+    this.pointVao = gl.createVertexArray()!;
+    gl.bindVertexArray(this.pointVao);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    this.instanceBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    const stride = FLOATS_PER_POINT * 4;
+    [[1, 2, 0], [2, 2, 8], [3, 1, 16], [4, 4, 20]].forEach(([location, size, offset]) => {
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset);
+      gl.vertexAttribDivisor(location, 1);
+    });
+    gl.bindVertexArray(null);
+
+    this.sceneTexture = createTexture(gl);
+    this.lyricsTexture = createTexture(gl);
+    this.spriteTexture = createTexture(gl);
+  }
+
+  // null when WebGL2 is unavailable or the shaders fail to build
+  static create(): WebGLCompositor | null {
+    const canvas = document.createElement('canvas');
+    const gl = canvas.getContext('webgl2', { alpha: false, antialias: false, preserveDrawingBuffer: true });
+    if (!gl) return null;
+    try {
+      return new WebGLCompositor(canvas, gl);
+    } catch (e) {
+      console.error('WebGL compositor setup failed:', e);
+      return null;
+    }
+  }
+
+  isContextLost(): boolean {
+    return this.gl.isContextLost();
+  }
+
+  dispose() {
+    this.gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+
+  render(frame: CompositorFrame, pixelWidth: number, pixelHeight: number) {
+    const { gl } = this;
+    this.resize(pixelWidth, pixelHeight);
+    const composite = this.composite!;
+    const bloomA = this.bloomA!;
+    const bloomB = this.bloomB!;
+
+    this.upload(this.sceneTexture, frame.scene);
+    this.upload(this.lyricsTexture, frame.lyrics);
+    // The atlas never changes once drawn
+    if (frame.sprites !== this.spriteSource) {
+      this.upload(this.spriteTexture, frame.sprites);
+      this.spriteSource = frame.sprites;
+    }
+
+    // Scene, then particles and lyrics blended over it
+    this.bindTarget(composite);
+    gl.disable(gl.BLEND);
+    this.drawQuad(this.blit, { u_texture: this.sceneTexture });
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    this.drawPoints(frame);
+    this.drawQuad(this.blit, { u_texture: this.lyricsTexture });
+    gl.disable(gl.BLEND);
+
+    // Bloom: bright parts, blurred at half resolution
+    if (frame.post.bloom > 0) {
+      this.bindTarget(bloomA);
+      this.drawQuad(this.bright, { u_texture: composite.texture }, { u_threshold: BLOOM_THRESHOLD });
+      this.bindTarget(bloomB);
+      this.drawQuad(this.blur, { u_texture: bloomA.texture }, { u_step: [1 / bloomA.width, 0] });
+      this.bindTarget(bloomA);
+      this.drawQuad(this.blur, { u_texture: bloomB.texture }, { u_step: [0, 1 / bloomB.height] });
+    }
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(0, 0, pixelWidth, pixelHeight);
+    this.drawQuad(this.final, { u_scene: composite.texture, u_bloom: bloomA.texture }, {
+      u_zoom: 1 + frame.pulse * frame.post.beatZoom * BEAT_ZOOM_AMOUNT,
+      u_aberration: frame.post.chromaticAberration,
+      u_bloom_strength: frame.post.bloom,
+      u_grain: frame.post.filmGrain,
+      u_time: frame.time,
+    });
+  }
+
+  private resize(width: number, height: number) {
+    if (this.composite && this.canvas.width === width && this.canvas.height === height) return;
+    this.canvas.width = width;
+    this.canvas.height = height;
+    [this.composite, this.bloomA, this.bloomB].forEach(target => {
+      if (!target) return;
+      this.gl.deleteTexture(target.texture);
+      this.gl.deleteFramebuffer(target.framebuffer);
+    });
+    this.composite = this.createTarget(width, height);
+    const half = { width: Math.max(1, Math.round(width / 2)), height: Math.max(1, Math.round(height / 2)) };
+    this.bloomA = this.createTarget(half.width, half.height);
+    this.bloomB = this.createTarget(half.width, half.height);
+  }
+
+  private createTarget(width: number, height: number): RenderTarget {
+    const { gl } = this;
+    const texture = createTexture(gl);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+    const framebuffer = gl.createFramebuffer()!;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    // Start black so an unused bloom target adds nothing
+    gl.clearColor(0, 0, 0, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    return { texture, framebuffer, width, height };
+  }
+
+  private bindTarget(target: RenderTarget) {
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, target.framebuffer);
+    this.gl.viewport(0, 0, target.width, target.height);
+  }
+
+  // Canvas pixels arrive top row first and straight alpha; flip and premultiply
+  private upload(texture: WebGLTexture, source: TexImageSource) {
+    const { gl } = this;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+  }
+
+  private drawQuad(
+    { program, uniforms }: Program,
+    textures: Record<string, WebGLTexture>,
+    values: Record<string, number | [number, number]> = {}
+  ) {
+    const { gl } = this;
+    gl.useProgram(program);
+    Object.entries(textures).forEach(([name, texture], unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.uniform1i(uniforms[name], unit);
+    });
+    Object.entries(values).forEach(([name, value]) => {
+      if (Array.isArray(value)) gl.uniform2f(uniforms[name], value[0], value[1]);
+      else gl.uniform1f(uniforms[name], value);
+    });
+    gl.bindVertexArray(this.quadVao);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  private drawPoints({ points, width, height }: CompositorFrame) {
+    if (points.length === 0) return;
+    const { gl } = this;
+    const needed = points.length * FLOATS_PER_POINT;
+    if (this.instanceData.length < needed) this.instanceData = new Float32Array(needed * 2);
+    const data = this.instanceData;
+    points.forEach((point, i) => {
+      const [r, g, b] = parseColor(point.color);
+      // The quad is a whole cell; the shape only fills SPRITE_FILL of it
+      data.set([point.x, point.y, point.size / SPRITE_FILL, point.rotation, point.sprite, r, g, b, point.alpha], i * FLOATS_PER_POINT);
+    });
+
+    const { program, uniforms } = this.pointProgram;
+    gl.useProgram(program);
+    gl.uniform2f(uniforms.u_resolution, width, height);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.spriteTexture);
+    gl.uniform1i(uniforms.u_sprites, 0);
+    gl.uniform1f(uniforms.u_sprite_count, PARTICLE_SHAPES.length);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data.subarray(0, needed), gl.DYNAMIC_DRAW);
+    gl.bindVertexArray(this.pointVao);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, points.length);
+  }
+}
+
+let webgl2Support: boolean | null = null;
+
+export const isWebGL2Supported = (): boolean => {
+  if (webgl2Support === null) {
+    const gl = document.createElement('canvas').getContext('webgl2');
+    webgl2Support = !!gl;
+    gl?.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+  return webgl2Support;
+};
\ No newline at end of file
@@ -0,0 +1,117 @@
+// GLSL ES 3.00 sources for the WebGL compositor. Every pass but the particle
+// one draws a full-screen quad; textures hold premultiplied alpha.
+
+export const QUAD_VERTEX = `#version 300 es
+in vec2 a_position;
+out vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+export const BLIT_FRAGMENT = `#version 300 es
+precision mediump float;
+in vec2 v_uv;
+uniform sampler2D u_texture;
+out vec4 outColor;
+void main() {
+  outColor = texture(u_texture, v_uv);
+}`;
+
+// One instanced, rotated quad per particle, positioned in design units (y down)
+export const POINT_VERTEX = `#version 300 es
+in vec2 a_corner;
+in vec2 a_center;
+in vec2 a_transform; // half size, rotation
+in float a_sprite;
+in vec4 a_color;
+uniform vec2 u_resolution;
+out vec2 v_corner;
+out float v_sprite;
+out vec4 v_color;
+void main() {
+  float c = cos(a_transform.y);
+  float s = sin(a_transform.y);
+  vec2 offset = vec2(a_corner.x * c - a_corner.y * s, a_corner.x * s + a_corner.y * c) * a_transform.x;
+  vec2 clip = (a_center + offset) / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_corner = a_corner;
+  v_sprite = a_sprite;
+  v_color = a_color;
+}`;
+
+// Tints a white cell of the sprite atlas (one row of cells, uploaded flipped)
+export const POINT_FRAGMENT = `#version 300 es
+precision mediump float;
+in vec2 v_corner;
+in float v_sprite;
+in vec4 v_color;
+uniform sampler2D u_sprites;
+uniform float u_sprite_count;
+out vec4 outColor;
+void main() {
+  vec2 uv = vec2((v_sprite + v_corner.x * 0.5 + 0.5) / u_sprite_count, 0.5 - v_corner.y * 0.5);
+  float alpha = v_color.a * texture(u_sprites, uv).a;
+  if (alpha <= 0.0) discard;
+  outColor = vec4(v_color.rgb * alpha, alpha);
+}`;
+
+// Keeps only what is brighter than the threshold, the source of the bloom
+export const BRIGHT_FRAGMENT = `#version 300 es
+precision mediump float;
+in vec2 v_uv;
+uniform sampler2D u_texture;
+uniform float u_threshold;
+out vec4 outColor;
+void main() {
+  vec3 color = texture(u_texture, v_uv).rgb;
+  float luma = dot(color, vec3(0.2126, 0.7152, 0.0722));
+  outColor = vec4(color * smoothstep(u_threshold, u_threshold + 0.25, luma), 1.0);
+}`;
+
+// Separable 9-tap gaussian; u_step is one texel along the blur direction
+export const BLUR_FRAGMENT = `#version 300 es
+precision mediump float;
+in vec2 v_uv;
+uniform sampler2D u_texture;
+uniform vec2 u_step;
+out vec4 outColor;
+void main() {
+  vec3 sum = texture(u_texture, v_uv).rgb * 0.227027;
+  sum += texture(u_texture, v_uv + u_step * 1.384615).rgb * 0.316216;
+  sum += texture(u_texture, v_uv - u_step * 1.384615).rgb * 0.316216;
+  sum += texture(u_texture, v_uv + u_step * 3.230769).rgb * 0.070270;
+  sum += texture(u_texture, v_uv - u_step * 3.230769).rgb * 0.070270;
+  outColor = vec4(sum, 1.0);
+}`;
+
+// Beat zoom, chromatic aberration, bloom and film grain in one pass
+export const FINAL_FRAGMENT = `#version 300 es
+precision mediump float;
+in vec2 v_uv;
+uniform sampler2D u_scene;
+uniform sampler2D u_bloom;
+uniform float u_zoom;
+uniform float u_aberration;
+uniform float u_bloom_strength;
+uniform float u_grain;
+uniform float u_time;
+out vec4 outColor;
+
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+void main() {
+  vec2 uv = (v_uv - 0.5) / u_zoom + 0.5;
+  // Channels split outwards from the centre
+  vec2 shift = (uv - 0.5) * u_aberration * 0.02;
+  vec3 color = vec3(
+    texture(u_scene, uv + shift).r,
+    texture(u_scene, uv).g,
+    texture(u_scene, uv - shift).b
+  );
+  color += texture(u_bloom, uv).rgb * u_bloom_strength;
+  color += (hash(gl_FragCoord.xy + fract(u_time) * 1000.0) - 0.5) * u_grain * 0.2;
+  outColor = vec4(color, 1.0);
+}`;
\ No newline at end of file